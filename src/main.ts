@@ -55,3 +55,12 @@
 
 export * from './modules/collector'
 export * from './modules/shared/models/collector-options.model'
+export * from './modules/shared/models/mark.model'
+export * from './modules/shared/matchers'
+export * from './modules/transport/models/collector-endpoints.model'
+export * from './modules/traces/exporters/in-process-span.exporter'
+export * from './modules/metrics/exporters/in-process-metric.exporter'
+export * from './modules/logs/exporters/in-process-log-record.exporter'
+export * from './modules/shared/enums'
+export * from './modules/transport/enums'
+export * from './modules/logs/enums'
@@ -2,6 +2,8 @@ import { DynamicModule, Global, Module, Provider } from '@nestjs/common'
 
 import { TracesModule } from './traces/traces.module'
 import { MetricsModule } from './metrics/metrics.module'
+import { LogsModule } from './logs/logs.module'
+import { TransportModule } from './transport/transport.module'
 import { CollectorOptions } from './shared/models'
 import { COLLECTOR_MODULE_OPTIONS } from './shared/tokens'
 
@@ -19,7 +21,7 @@ export class CollectorModule {
 
     return {
       module: CollectorModule,
-      imports: [TracesModule, MetricsModule],
+      imports: [TracesModule, MetricsModule, LogsModule, TransportModule],
       providers,
       exports,
     }
@@ -1,13 +1,30 @@
+import { AddressInfo } from 'net'
 import { NestFactory } from '@nestjs/core'
-import { INestApplication } from '@nestjs/common'
+import { NestExpressApplication } from '@nestjs/platform-express'
 
 import { CollectorModule } from './collector.module'
 import { SpanVerifier } from './traces/verifiers'
 import { MetricVerifier } from './metrics/verifiers'
-import { CollectorOptions } from './shared/models'
+import { LogVerifier } from './logs/verifiers'
+import { SpanCollector } from './traces/collectors'
+import { createTraceContext } from './traces/utils'
+import { MetricCollector } from './metrics/collectors'
+import { LogCollector } from './logs/collectors'
+import { InProcessSpanExporter } from './traces/exporters'
+import { InProcessMetricExporter } from './metrics/exporters'
+import { InProcessLogRecordExporter } from './logs/exporters'
+import { CollectorOptions, Mark } from './shared/models'
+import { bigIntJsonReplacer, createMark } from './shared/utils'
+import { ExportRequestVerifier } from './transport/verifiers'
+import { ExportRequestCollector } from './transport/collectors'
+import { FaultInjector, InFlightExportTracker, LatencySimulator } from './transport/services'
+import { OtlpGrpcServer } from './transport/servers'
+import { CollectorEndpoints } from './transport/models'
+import { OtlpProtocol } from './transport/enums'
+import { createOtelEnv } from './transport/utils'
 
 /**
- * Provides access to telemetry verifiers for spans and metrics.
+ * Provides access to telemetry verifiers for spans, metrics and logs.
  * These verifiers are used to write assertions against the telemetry data collected during tests.
  *
  * @example
@@ -27,6 +44,14 @@ import { CollectorOptions } from './shared/models'
  *   .withName('http.server.duration')
  *   .assert()
  *   .assertAll()
+ *
+ * // Test logs
+ * await verifiers.logs
+ *   .toHaveLog()
+ *   .withSeverity(SeverityNumber.INFO)
+ *   .withBody('Server started')
+ *   .assert()
+ *   .assertAll()
  * ```
  */
 export interface Verifiers {
@@ -41,12 +66,94 @@ export interface Verifiers {
    * @see {@link MetricVerifier}
    */
   metrics: MetricVerifier
+
+  /**
+   * Verifier for log data.
+   * @see {@link LogVerifier}
+   */
+  logs: LogVerifier
+
+  /**
+   * Verifier for the export requests received by the collector,
+   * such as the transport, content type and compression used by the exporter.
+   * @see {@link ExportRequestVerifier}
+   */
+  exportRequests: ExportRequestVerifier
+}
+
+/**
+ * Provides OpenTelemetry SDK exporters that hand telemetry directly to the collector, without a network round trip.
+ * Use these when the instrumented code runs in the same process as the test.
+ *
+ * @example
+ * ```typescript
+ * const collector = new Collector({ listen: false })
+ * const verifiers = await collector.start()
+ *
+ * const provider = new BasicTracerProvider({
+ *   spanProcessors: [new SimpleSpanProcessor(collector.exporters.spans)],
+ * })
+ * ```
+ */
+export interface InProcessExporters {
+  /**
+   * Exporter for spans, to use with a span processor.
+   * @see {@link InProcessSpanExporter}
+   */
+  spans: InProcessSpanExporter
+
+  /**
+   * Exporter for metrics, to use with a metric reader.
+   * @see {@link InProcessMetricExporter}
+   */
+  metrics: InProcessMetricExporter
+
+  /**
+   * Exporter for log records, to use with a log record processor.
+   * @see {@link InProcessLogRecordExporter}
+   */
+  logs: InProcessLogRecordExporter
+}
+
+/**
+ * A request sent to the application under test with a new trace context, created with `Collector.request()`.
+ *
+ * @example
+ * ```typescript
+ * const { response, spans, parentSpanId } = await collector.request('http://localhost:3000/api/users')
+ *
+ * expect(response.status).toBe(200)
+ *
+ * await spans
+ *   .toHaveHttpSpan()
+ *   .withMethod('GET')
+ *   .withParentSpanId(parentSpanId)
+ *   .assert()
+ *   .assertAll()
+ * ```
+ */
+export interface TracedRequest {
+  /** The response of the application. */
+  response: Response
+
+  /** The ID of the trace the request started. */
+  traceId: string
+
+  /** The span ID propagated in the `traceparent` header, i.e. the expected parent of the server span. */
+  parentSpanId: string
+
+  /**
+   * Verifier for the spans of the trace the request started, ignoring all other spans.
+   * The spans are only found if the application continues the propagated trace context.
+   * @see {@link SpanVerifier}
+   */
+  spans: SpanVerifier
 }
 
 /**
  * The main entry point for the testing framework.
  * It starts a mock OTLP collector to receive telemetry from an instrumented application,
- * enabling you to write assertions against the captured spans and metrics.
+ * enabling you to write assertions against the captured spans, metrics and logs.
  *
  * @example
  * Basic usage in a test:
@@ -88,17 +195,53 @@ export interface Verifiers {
  *   timeout: 60000     // 60 second timeout for assertions
  * })
  * ```
+ *
+ * @example
+ * Running collectors in parallel test files on ephemeral ports:
+ * ```typescript
+ * const collector = new Collector({ port: 0, grpcPort: 0 })
+ * await collector.start()
+ *
+ * // Point the application under test at the collector
+ * spawn('node', ['app.js'], { env: { ...process.env, ...collector.otelEnv() } })
+ * ```
+ *
+ * @example
+ * Exporting from an OpenTelemetry SDK running in the test process, without a network listener:
+ * ```typescript
+ * const collector = new Collector({ listen: false })
+ * const verifiers = await collector.start()
+ *
+ * const provider = new BasicTracerProvider({
+ *   spanProcessors: [new SimpleSpanProcessor(collector.exporters.spans)],
+ * })
+ * ```
+ *
+ * @example
+ * Receiving OTLP/gRPC exports alongside OTLP/HTTP:
+ * ```typescript
+ * const collector = new Collector({
+ *   port: 4318,        // OTLP/HTTP
+ *   grpcPort: 4317     // OTLP/gRPC
+ * })
+ * ```
  */
 export class Collector {
   private readonly options: CollectorOptions
-  private app?: INestApplication
+  private app?: NestExpressApplication
+  private resolvedEndpoints?: CollectorEndpoints
 
   /**
    * Creates a new collector instance.
    *
    * @param options Configuration for the collector.
-   * @param options.port The port for the OTLP collector server. Default: `4317`.
+   * @param options.port The port for the OTLP/HTTP collector server, or `0` for an ephemeral port. Default: `4317`.
+   * @param options.grpcPort The port for the OTLP/gRPC collector server, or `0` for an ephemeral port.
+   * Disabled when not set.
+   * @param options.listen Whether to serve OTLP/HTTP and OTLP/gRPC. Default: `true`.
+   * @param options.latency The latency added to the responses of export requests, per signal. Default: none.
    * @param options.timeout The timeout for assertions in milliseconds. Default: `30000`.
+   * @param options.observationWindow The time in milliseconds absence assertions must hold for. Default: `1000`.
    *
    * @example
    * ```typescript
@@ -113,7 +256,7 @@ export class Collector {
    * ```
    */
   constructor(options?: Partial<CollectorOptions>) {
-    const defaultOptions: CollectorOptions = { port: 4317, timeout: 30000 }
+    const defaultOptions: CollectorOptions = { port: 4317, timeout: 30000, observationWindow: 1000 }
     this.options = { ...defaultOptions, ...options }
   }
 
@@ -121,7 +264,7 @@ export class Collector {
    * Starts the mock OTLP collector server. This must be called before any telemetry
    * data can be received and verified.
    *
-   * @returns A `Promise` that resolves with the `Verifiers` for spans and metrics.
+   * @returns A `Promise` that resolves with the `Verifiers` for spans, metrics and logs.
    * @throws Error if the collector fails to start or the port is already in use.
    *
    * @example
@@ -134,11 +277,285 @@ export class Collector {
    * ```
    */
   async start(): Promise<Verifiers> {
-    this.app = await NestFactory.create(CollectorModule.forRoot(this.options))
-    await this.app.listen(this.options.port)
-    console.log(`Mock collector started on port ${this.options.port}`)
+    this.app = await NestFactory.create<NestExpressApplication>(CollectorModule.forRoot(this.options), {
+      bodyParser: false,
+    })
+    // Collected telemetry data holds bigint timestamps, which the retrieval endpoints serialize as strings
+    this.app.set('json replacer', bigIntJsonReplacer)
+
+    if (this.options.listen === false) {
+      await this.app.init()
+      console.log('Mock collector started without network listeners')
+    } else {
+      await this.app.listen(this.options.port)
+
+      const httpPort = (this.app.getHttpServer().address() as AddressInfo).port
+      const grpcPort = this.app.get(OtlpGrpcServer).port
+      this.resolvedEndpoints = {
+        http: `http://localhost:${httpPort}`,
+        traces: `http://localhost:${httpPort}/v1/traces`,
+        metrics: `http://localhost:${httpPort}/v1/metrics`,
+        logs: `http://localhost:${httpPort}/v1/logs`,
+        grpc: grpcPort !== undefined ? `http://localhost:${grpcPort}` : undefined,
+      }
+
+      console.log(`Mock collector started on port ${httpPort}`)
+      if (grpcPort !== undefined) {
+        console.log(`Mock gRPC collector started on port ${grpcPort}`)
+      }
+    }
+
+    return {
+      spans: this.app.get(SpanVerifier),
+      metrics: this.app.get(MetricVerifier),
+      logs: this.app.get(LogVerifier),
+      exportRequests: this.app.get(ExportRequestVerifier),
+    }
+  }
 
-    return { spans: this.app.get(SpanVerifier), metrics: this.app.get(MetricVerifier) }
+  /**
+   * The addresses the collector is listening on.
+   * Unlike the configured ports, these report the actual ports when the collector was started with port `0`.
+   *
+   * @throws Error if the collector has not been started, or was started with `listen: false`.
+   *
+   * @example
+   * ```typescript
+   * const collector = new Collector({ port: 0 })
+   * await collector.start()
+   *
+   * const exporter = new OTLPTraceExporter({ url: collector.endpoints.traces })
+   * ```
+   */
+  get endpoints(): CollectorEndpoints {
+    if (!this.app) {
+      throw new Error('Collector has not been started')
+    }
+    if (!this.resolvedEndpoints) {
+      throw new Error('Collector is not listening, set `listen: true` in the collector options to serve OTLP')
+    }
+
+    return this.resolvedEndpoints
+  }
+
+  /**
+   * Creates the `OTEL_EXPORTER_OTLP_*_ENDPOINT` and `OTEL_EXPORTER_OTLP_*_PROTOCOL` environment variables
+   * that point the OpenTelemetry SDK of another process at the collector.
+   * Pass them to the child process or container running the application under test.
+   *
+   * @param protocol The OTLP protocol the exporters should use. Default: `OtlpProtocol.HTTP_PROTOBUF`.
+   * @returns The environment variables by name.
+   * @throws Error if the collector has not been started, or if `OtlpProtocol.GRPC` is requested
+   * while `grpcPort` is not set.
+   *
+   * @example
+   * ```typescript
+   * const collector = new Collector({ port: 0, grpcPort: 0 })
+   * await collector.start()
+   *
+   * spawn('node', ['app.js'], { env: { ...process.env, ...collector.otelEnv(OtlpProtocol.GRPC) } })
+   * ```
+   */
+  otelEnv(protocol: OtlpProtocol = OtlpProtocol.HTTP_PROTOBUF): Record<string, string> {
+    return createOtelEnv(this.endpoints, protocol)
+  }
+
+  /**
+   * The OpenTelemetry SDK exporters that hand telemetry directly to the collector.
+   * They feed the same verifiers as the OTLP receivers and work whether or not the collector is listening.
+   *
+   * @throws Error if the collector has not been started.
+   *
+   * @example
+   * ```typescript
+   * const provider = new BasicTracerProvider({
+   *   spanProcessors: [new SimpleSpanProcessor(collector.exporters.spans)],
+   * })
+   *
+   * provider.getTracer('test').startSpan('checkout').end()
+   *
+   * await verifiers.spans.toHaveSpan().withName('checkout').assert().assertAll()
+   * ```
+   */
+  get exporters(): InProcessExporters {
+    if (!this.app) {
+      throw new Error('Collector has not been started')
+    }
+
+    return {
+      spans: this.app.get(InProcessSpanExporter),
+      metrics: this.app.get(InProcessMetricExporter),
+      logs: this.app.get(InProcessLogRecordExporter),
+    }
+  }
+
+  /**
+   * Controls the faults returned by the collector for incoming export requests,
+   * such as error responses, partial successes or dropped connections.
+   * Use this to test how the exporters of your application handle an unhealthy collector.
+   *
+   * @throws Error if the collector has not been started.
+   *
+   * @example
+   * ```typescript
+   * // Reject the next two trace exports with `503 Service Unavailable`
+   * collector.faults.failNext(TelemetrySignal.TRACES, 2, { statusCode: 503, retryAfterSeconds: 1 })
+   *
+   * // The exporter retries, so the spans eventually arrive exactly once
+   * await verifiers.spans.toHaveSpan().withName('checkout').assert().toHaveNoDuplicateSpans().assertAll()
+   * ```
+   */
+  get faults(): FaultInjector {
+    if (!this.app) {
+      throw new Error('Collector has not been started')
+    }
+
+    return this.app.get(FaultInjector)
+  }
+
+  /**
+   * Controls the latency added to the responses of export requests, to simulate a slow backend.
+   * The initial latency is taken from `CollectorOptions.latency`.
+   *
+   * @throws Error if the collector has not been started.
+   *
+   * @example
+   * ```typescript
+   * // Respond to trace exports slower than the exporter timeout
+   * collector.latency.set(TelemetrySignal.TRACES, { delayMs: 15000 })
+   *
+   * // Respond immediately again
+   * collector.latency.clear()
+   * ```
+   */
+  get latency(): LatencySimulator {
+    if (!this.app) {
+      throw new Error('Collector has not been started')
+    }
+
+    return this.app.get(LatencySimulator)
+  }
+
+  /**
+   * Provides statistics about the export requests being processed concurrently by the collector,
+   * such as the peak number of export requests an exporter kept in flight.
+   *
+   * @throws Error if the collector has not been started.
+   *
+   * @example
+   * ```typescript
+   * collector.latency.set(TelemetrySignal.TRACES, { delayMs: 1000 })
+   *
+   * // ... generate spans faster than they can be exported
+   *
+   * const { peak } = collector.inFlight.getStats(TelemetrySignal.TRACES)
+   * ```
+   */
+  get inFlight(): InFlightExportTracker {
+    if (!this.app) {
+      throw new Error('Collector has not been started')
+    }
+
+    return this.app.get(InFlightExportTracker)
+  }
+
+  /**
+   * Sends a request to the application under test with a W3C `traceparent` header for a new trace.
+   * The spans of the returned handle only consider that trace, which isolates the assertions of a test
+   * from concurrent or background traffic.
+   *
+   * @param input The URL of the application endpoint, or a `Request`.
+   * @param init The request options, as for `fetch`. A `traceparent` header among them is replaced,
+   * and their `signal` aborts the request.
+   * @returns A `Promise` that resolves with the response and the trace-scoped span verifier.
+   * @throws Error if the collector has not been started, or the request fails.
+   *
+   * @example
+   * ```typescript
+   * const { spans } = await collector.request('http://localhost:3000/api/orders', {
+   *   method: 'POST',
+   *   body: JSON.stringify({ item: 'book' }),
+   * })
+   *
+   * await spans.toHaveSpan().withName('orders publish').assert().assertAll()
+   * ```
+   */
+  async request(input: string | URL | Request, init: RequestInit = {}): Promise<TracedRequest> {
+    if (!this.app) {
+      throw new Error('Collector has not been started')
+    }
+
+    const { traceId, spanId, traceparent } = createTraceContext()
+    // Merges the options into the request, keeping the headers, body and signal of a `Request` input
+    const request = new Request(input, init)
+    request.headers.set('traceparent', traceparent)
+
+    const response = await fetch(request)
+
+    return { response, traceId, parentSpanId: spanId, spans: this.app.get(SpanVerifier).forTrace(traceId) }
+  }
+
+  /**
+   * Creates a checkpoint, to assert on the telemetry of the time window since the checkpoint,
+   * or between two checkpoints. Unlike `reset()`, this keeps earlier telemetry available to other assertions.
+   * Spans belong to a window when they started within it, all other telemetry when it was received within it.
+   * As span start times have millisecond resolution, a span started in the same millisecond as a checkpoint
+   * belongs to the window starting at the checkpoint if it was received after the checkpoint.
+   *
+   * @returns The checkpoint, to pass to `since()` or `between()` of the verifiers.
+   *
+   * @example
+   * ```typescript
+   * const mark = collector.mark()
+   *
+   * await fetch('http://localhost:3000/api/users')
+   *
+   * await verifiers.spans.since(mark).toHaveHttpSpan().withMethod('GET').assert().assertAll()
+   * ```
+   */
+  mark(): Mark {
+    return createMark()
+  }
+
+  /**
+   * Clears the telemetry collected so far, removes the assertions chained on the verifiers and resets the
+   * in-flight export statistics, so that the tests of a file can share one collector without leaking state
+   * into each other. Configured faults and latency are kept.
+   *
+   * @throws Error if the collector has not been started.
+   *
+   * @example
+   * ```typescript
+   * beforeAll(async () => {
+   *   collector = new Collector()
+   *   verifiers = await collector.start()
+   * })
+   *
+   * afterEach(() => {
+   *   collector.reset()
+   * })
+   *
+   * afterAll(async () => {
+   *   await collector.stop()
+   * })
+   * ```
+   */
+  reset(): void {
+    if (!this.app) {
+      throw new Error('Collector has not been started')
+    }
+
+    this.app.get(SpanVerifier).reset()
+    this.app.get(MetricVerifier).reset()
+    this.app.get(LogVerifier).reset()
+    this.app.get(ExportRequestVerifier).reset()
+
+    this.app.get(SpanCollector).clear()
+    this.app.get(MetricCollector).clear()
+    this.app.get(LogCollector).clear()
+    this.app.get(ExportRequestCollector).clear()
+
+    this.app.get(InFlightExportTracker).reset()
   }
 
   /**
@@ -158,5 +575,8 @@ export class Collector {
     if (this.app) {
       await this.app.close()
     }
+
+    this.app = undefined
+    this.resolvedEndpoints = undefined
   }
 }
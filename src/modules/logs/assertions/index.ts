@@ -0,0 +1,3 @@
+export * from './log-record.assertion'
+export * from './log-record.assertion-verifier'
+export * from './log-record-attribute-policy.assertion-verifier'
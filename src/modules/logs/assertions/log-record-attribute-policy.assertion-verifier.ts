@@ -0,0 +1,39 @@
+import * as assert from 'assert'
+
+import { LogRecord } from '../models'
+import { AssertionVerifier, AttributePolicy } from '../../shared/models'
+import { findAttributePolicyViolations, formatAttributeValue } from '../../shared/utils'
+
+export class LogRecordAttributePolicyAssertionVerifier implements AssertionVerifier<LogRecord> {
+  constructor(private readonly policy: AttributePolicy) {}
+
+  verify(logRecords: LogRecord[]): void {
+    const violations = new Set<string>()
+
+    for (const logRecord of logRecords) {
+      const location = `log record ${logRecord.body ? formatAttributeValue(logRecord.body) : '(no body)'}`
+      // The body is checked like an attribute, so that it cannot carry forbidden values either
+      const attributes = logRecord.body
+        ? [...logRecord.attributes, { key: 'body', value: logRecord.body }]
+        : logRecord.attributes
+
+      findAttributePolicyViolations(attributes, this.policy).forEach((violation) =>
+        violations.add(`${location}: ${violation}`),
+      )
+      // Log records of the same scope or resource share its attributes, so each violation is reported once
+      findAttributePolicyViolations(logRecord.scope?.attributes ?? [], this.policy).forEach((violation) =>
+        violations.add(`scope "${logRecord.scope?.name}": ${violation}`),
+      )
+      findAttributePolicyViolations(logRecord.resourceAttributes ?? [], this.policy).forEach((violation) =>
+        violations.add(`resource: ${violation}`),
+      )
+    }
+
+    assert.ok(
+      violations.size === 0,
+      `Expected no log records with attributes forbidden by the attribute policy, ` +
+        `found ${violations.size} violations:\n` +
+        [...violations].map((violation) => `  - ${violation}`).join('\n'),
+    )
+  }
+}
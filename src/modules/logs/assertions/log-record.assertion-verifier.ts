@@ -0,0 +1,209 @@
+import * as assert from 'assert'
+
+import { LogRecord, LogRecordSchema } from '../models'
+import { SeverityNumber } from '../enums'
+import { Cardinality, CriterionResult } from '../../shared/models'
+import {
+  describeAttributeMismatch,
+  describeScopeMismatch,
+  describeValueMismatch,
+  formatAttributeValue,
+  formatCardinality,
+  formatClosestMatches,
+  getCardinalityViolation,
+  hasAttributePath,
+  hasAttributeValue,
+  hasOnlyAttributes,
+  resolveAttributePath,
+} from '../../shared/utils'
+
+export interface ExpectedTraceContext {
+  traceId?: string
+  spanId?: string
+}
+
+export class LogRecordAssertionVerifier {
+  constructor(
+    private readonly schema: LogRecordSchema,
+    private readonly traceContext: ExpectedTraceContext | undefined,
+    private readonly cardinality: Cardinality,
+    private readonly originalStack?: string,
+    readonly observationWindowMs?: number,
+  ) {}
+
+  verify(logRecords: LogRecord[]): void {
+    const matchingLogRecords = logRecords.filter((logRecord) => this.matches(logRecord))
+
+    try {
+      const violation = getCardinalityViolation(matchingLogRecords.length, this.cardinality)
+      assert.ok(
+        !violation,
+        `Expected ${formatCardinality(this.cardinality)} log records matching "${this.getDescription()}", ` +
+          `found ${matchingLogRecords.length} (${violation})\n` +
+          `Matching log records: ${matchingLogRecords.map((l) => this.getLogRecordSummary(l)).join(', ')}` +
+          (matchingLogRecords.length < (this.cardinality.exactly ?? this.cardinality.atLeast ?? 0)
+            ? this.getClosestMatches(logRecords, matchingLogRecords)
+            : ''),
+      )
+    } catch (error) {
+      if (error instanceof Error && this.originalStack) {
+        error.stack = this.originalStack
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Describes the log records satisfying the most criteria among those that do not match, to explain near misses.
+   */
+  private getClosestMatches(logRecords: LogRecord[], matchingLogRecords: LogRecord[]): string {
+    const candidates = logRecords
+      .filter((logRecord) => !matchingLogRecords.includes(logRecord))
+      .map((logRecord) => ({ summary: this.getLogRecordSummary(logRecord), results: this.getCriteria(logRecord) }))
+
+    return formatClosestMatches(candidates)
+  }
+
+  private getDescription(): string {
+    const parts: Record<string, unknown> = { ...this.schema }
+
+    if (this.schema.severityNumber !== undefined) {
+      parts.severityNumber = SeverityNumber[this.schema.severityNumber]
+    }
+    if (this.schema.body) {
+      parts.body = formatAttributeValue(this.schema.body)
+    }
+    if (this.schema.attributes && this.schema.attributes.length > 0) {
+      const attributesObj: Record<string, unknown> = {}
+      this.schema.attributes.forEach((attribute) => {
+        attributesObj[attribute.key] = formatAttributeValue(attribute.value)
+      })
+      parts.attributes = attributesObj
+    }
+    if (this.schema.attributePaths && this.schema.attributePaths.length > 0) {
+      const attributePathsObj: Record<string, unknown> = {}
+      this.schema.attributePaths.forEach((attribute) => {
+        attributePathsObj[attribute.key] = formatAttributeValue(attribute.value)
+      })
+      parts.attributePaths = attributePathsObj
+    }
+    if (this.schema.resourceAttributes && this.schema.resourceAttributes.length > 0) {
+      const resourceAttributesObj: Record<string, unknown> = {}
+      this.schema.resourceAttributes.forEach((attribute) => {
+        resourceAttributesObj[attribute.key] = formatAttributeValue(attribute.value)
+      })
+      parts.resourceAttributes = resourceAttributesObj
+    }
+    if (this.schema.scope) {
+      const scopeAttributesObj: Record<string, unknown> = {}
+      this.schema.scope.attributes?.forEach((attribute) => {
+        scopeAttributesObj[attribute.key] = formatAttributeValue(attribute.value)
+      })
+      parts.scope = { ...this.schema.scope, attributes: this.schema.scope.attributes && scopeAttributesObj }
+    }
+    if (this.traceContext) {
+      parts.traceContext = {
+        traceId: this.traceContext.traceId ?? 'any',
+        spanId: this.traceContext.spanId ?? 'any',
+      }
+    }
+
+    return JSON.stringify(parts, null, 2)
+  }
+
+  private getLogRecordSummary(logRecord: LogRecord): string {
+    const severity = logRecord.severityText || SeverityNumber[logRecord.severityNumber ?? SeverityNumber.UNSPECIFIED]
+    const body = logRecord.body ? formatAttributeValue(logRecord.body) : 'no body'
+
+    return `[${severity}] "${body}"`
+  }
+
+  private matches(logRecord: LogRecord): boolean {
+    return this.getCriteria(logRecord).every(({ mismatch }) => mismatch === undefined)
+  }
+
+  private getCriteria(logRecord: LogRecord): CriterionResult[] {
+    const { severityNumber, severityText, body, scope, scopeSchemaUrl, resourceSchemaUrl } = this.schema
+    const results: CriterionResult[] = []
+    const add = (criterion: string, mismatch: string | undefined) => results.push({ criterion, mismatch })
+
+    if (severityNumber !== undefined) {
+      add(
+        'severity',
+        describeValueMismatch(logRecord.severityNumber, severityNumber, (value) => SeverityNumber[value]),
+      )
+    }
+    if (severityText) add('severity text', describeValueMismatch(logRecord.severityText, severityText))
+    if (body) {
+      add(
+        'body',
+        logRecord.body && hasAttributeValue(logRecord.body, body)
+          ? undefined
+          : `expected ${formatAttributeValue(body)} got ${logRecord.body ? formatAttributeValue(logRecord.body) : 'nothing'}`,
+      )
+    }
+    if (scope) add('scope', describeScopeMismatch(logRecord.scope, scope))
+    if (scopeSchemaUrl) add('scope schema URL', describeValueMismatch(logRecord.scopeSchemaUrl, scopeSchemaUrl))
+    if (resourceSchemaUrl) {
+      add('resource schema URL', describeValueMismatch(logRecord.resourceSchemaUrl, resourceSchemaUrl))
+    }
+
+    // Check attributes
+    for (const expectedAttr of this.schema.attributes ?? []) {
+      add(expectedAttr.key, describeAttributeMismatch(logRecord.attributes, expectedAttr))
+    }
+
+    // Check values nested in attributes
+    for (const expectedAttr of this.schema.attributePaths ?? []) {
+      const actual = resolveAttributePath(logRecord.attributes, expectedAttr.key)
+      add(
+        expectedAttr.key,
+        hasAttributePath(logRecord.attributes, expectedAttr)
+          ? undefined
+          : actual.length > 0
+            ? `expected ${formatAttributeValue(expectedAttr.value)} got ${actual.map(formatAttributeValue).join(' or ')}`
+            : 'missing',
+      )
+    }
+
+    // Check attributes that must not be present
+    if (this.schema.onlyAttributes) {
+      const unexpected = logRecord.attributes.filter(
+        (attribute) => !hasOnlyAttributes([attribute], this.schema.attributes, this.schema.attributePaths),
+      )
+      add(
+        'only expected attributes',
+        unexpected.length > 0 ? `unexpected ${unexpected.map((attribute) => attribute.key).join(', ')}` : undefined,
+      )
+    }
+    for (const key of this.schema.absentAttributes ?? []) {
+      add(`without ${key}`, logRecord.attributes.some((attribute) => attribute.key === key) ? 'present' : undefined)
+    }
+
+    // Check resource attributes
+    for (const expectedAttr of this.schema.resourceAttributes ?? []) {
+      add(`resource ${expectedAttr.key}`, describeAttributeMismatch(logRecord.resourceAttributes ?? [], expectedAttr))
+    }
+
+    // Check trace context
+    if (this.traceContext) {
+      add('trace context', this.describeTraceContextMismatch(logRecord, this.traceContext))
+    }
+
+    return results
+  }
+
+  private describeTraceContextMismatch(logRecord: LogRecord, traceContext: ExpectedTraceContext): string | undefined {
+    const { traceId, spanId } = logRecord
+
+    if (!traceId || !spanId) return 'missing'
+    if (traceContext.traceId && traceId !== traceContext.traceId.toLowerCase()) {
+      return `expected trace ${traceContext.traceId.toLowerCase()} got ${traceId}`
+    }
+    if (traceContext.spanId && spanId !== traceContext.spanId.toLowerCase()) {
+      return `expected span ${traceContext.spanId.toLowerCase()} got ${spanId}`
+    }
+
+    return undefined
+  }
+}
@@ -0,0 +1,429 @@
+import { ExpectedTraceContext, LogRecordAssertionVerifier } from './log-record.assertion-verifier'
+import { LogVerifier } from '../verifiers'
+import { SeverityNumber } from '../enums'
+import { LogRecordSchema } from '../models'
+import { AttributeValue, Cardinality, Expected, PlainAttributeValue } from '../../shared/models'
+import { ValueMatcher } from '../../shared/matchers'
+import { createAttributeValue, toCardinality } from '../../shared/utils'
+
+/**
+ * Provides a fluent API for building assertions to verify the properties of OpenTelemetry log records.
+ * This is used to define the expected characteristics of log records, such as their severity, body,
+ * attributes, and the trace context they were emitted in.
+ *
+ * @example
+ * Basic log testing:
+ * ```typescript
+ * logVerifier
+ *   .toHaveLog()
+ *   .withSeverity(SeverityNumber.INFO)
+ *   .withBody('User signed in')
+ *   .assert()
+ * ```
+ *
+ * @example
+ * Structured log testing:
+ * ```typescript
+ * logVerifier
+ *   .toHaveLog()
+ *   .withSeverity(SeverityNumber.ERROR)
+ *   .withBody('Payment failed')
+ *   .withAttribute('payment.provider', 'stripe')
+ *   .withAttribute('payment.amount', 4200)
+ *   .withResourceAttribute('service.name', 'payment-service')
+ *   .assert()
+ * ```
+ *
+ * @example
+ * Log correlation testing:
+ * ```typescript
+ * logVerifier
+ *   .toHaveLog()
+ *   .withBody('Fetching user from cache')
+ *   .withTraceContext()
+ *   .assert()
+ * ```
+ */
+export class LogRecordAssertion {
+  private readonly schema: LogRecordSchema = {}
+  private traceContext?: ExpectedTraceContext
+  private cardinality: Cardinality
+
+  constructor(
+    private readonly verifier: LogVerifier,
+    private readonly assertions: LogRecordAssertionVerifier[],
+    expectedCount: number,
+    private readonly observationWindowMs?: number,
+  ) {
+    this.cardinality = { exactly: expectedCount }
+  }
+
+  /**
+   * Sets how many log records are expected to match, replacing the count the assertion was created with.
+   * Use a range when the exact number of log records is not deterministic, e.g. when retries are logged.
+   *
+   * @param cardinality The expected number of matching log records, or a range of it.
+   * @returns The `LogRecordAssertion` instance for chaining.
+   * @throws Error If the cardinality has no bounds or inconsistent bounds.
+   *
+   * @example
+   * ```typescript
+   * assertion.times(3)
+   * assertion.times({ atLeast: 1, atMost: 3 })
+   * ```
+   */
+  times(cardinality: Cardinality | number): this {
+    this.cardinality = toCardinality(cardinality)
+
+    return this
+  }
+
+  /**
+   * Sets the expected severity of the log record.
+   * A `SeverityNumber` is compared with the record's `severityNumber`, while a string is compared
+   * with the record's `severityText` as emitted by the logging library.
+   *
+   * @param severity The expected severity number or severity text.
+   * @returns The `LogRecordAssertion` instance for chaining.
+   *
+   * @example
+   * Severity number:
+   * ```typescript
+   * assertion.withSeverity(SeverityNumber.WARN)
+   * ```
+   *
+   * @example
+   * Severity text:
+   * ```typescript
+   * assertion.withSeverity('warning')
+   * ```
+   */
+  withSeverity(severity: SeverityNumber | string): this {
+    if (typeof severity === 'string') {
+      this.schema.severityText = severity
+    } else {
+      this.schema.severityNumber = severity
+    }
+
+    return this
+  }
+
+  /**
+   * Sets the expected body of the log record.
+   * The body usually holds the log message.
+   *
+   * @param body The expected log record body, or a matcher for it.
+   * @returns The `LogRecordAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion.withBody('Order created')
+   * assertion.withBody(match.regex(/^Order [0-9]+ created$/))
+   * assertion.withBody({ event: 'order.created', order: { id: 42 } })
+   * ```
+   */
+  withBody(body: PlainAttributeValue | ValueMatcher): this {
+    this.schema.body = this.toAttributeValue(body)
+
+    return this
+  }
+
+  /**
+   * Sets an expected attribute for the log record.
+   *
+   * @param key The attribute key.
+   * @param value The expected attribute value, or a matcher for it.
+   * @returns The `LogRecordAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion.withAttribute('user.id', '12345')
+   * assertion.withAttribute('retry.count', 3)
+   * assertion.withAttribute('messaging.batch.ids', ['a1', 'b2'])
+   * ```
+   */
+  withAttribute(key: string, value: PlainAttributeValue | ValueMatcher): this {
+    if (!this.schema.attributes) {
+      this.schema.attributes = []
+    }
+    this.schema.attributes.push({ key, value: this.toAttributeValue(value) })
+
+    return this
+  }
+
+  /**
+   * Sets multiple expected attributes for the log record.
+   * This is a convenience for setting multiple attributes at once.
+   *
+   * @param attributes A record of attribute keys and their expected values or matchers.
+   * @returns The `LogRecordAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion.withAttributes({
+   *   'user.id': '12345',
+   *   'auth.method': 'password'
+   * })
+   * ```
+   */
+  withAttributes(attributes: Record<string, PlainAttributeValue | ValueMatcher>): this {
+    for (const [key, value] of Object.entries(attributes)) {
+      this.withAttribute(key, value)
+    }
+
+    return this
+  }
+
+  /**
+   * Sets the complete set of expected attributes of the log record. Unlike `withAttributes`,
+   * the log record must not carry any other attribute, except those expected with `withAttribute` or `withAttributePath`.
+   *
+   * @param attributes A record of attribute keys and their expected values or matchers.
+   * @returns The `LogRecordAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion.withOnlyAttributes({
+   *   'db.system': 'postgresql',
+   *   'db.operation': 'SELECT',
+   * })
+   * ```
+   */
+  withOnlyAttributes(attributes: Record<string, PlainAttributeValue | ValueMatcher>): this {
+    this.schema.onlyAttributes = true
+
+    return this.withAttributes(attributes)
+  }
+
+  /**
+   * Expects the log record not to carry an attribute with the given key, whatever its value.
+   *
+   * @param key The key of the forbidden attribute.
+   * @returns The `LogRecordAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion.withoutAttribute('http.request.header.authorization')
+   * ```
+   */
+  withoutAttribute(key: string): this {
+    if (!this.schema.absentAttributes) {
+      this.schema.absentAttributes = []
+    }
+
+    this.schema.absentAttributes.push(key)
+
+    return this
+  }
+
+  /**
+   * Sets an expected value at a path into a nested attribute value of the log record.
+   * The path consists of the attribute key followed by the keys of nested key-value lists,
+   * or the indexes of array elements, separated by dots.
+   *
+   * @param path The dotted path to the value (e.g., `config.retry.max`).
+   * @param value The expected value, or a matcher for it.
+   * @returns The `LogRecordAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion.withAttributePath('config.retry.max', 3)
+   * ```
+   */
+  withAttributePath(path: string, value: PlainAttributeValue | ValueMatcher): this {
+    if (!this.schema.attributePaths) {
+      this.schema.attributePaths = []
+    }
+    this.schema.attributePaths.push({ key: path, value: this.toAttributeValue(value) })
+
+    return this
+  }
+
+  /**
+   * Sets an expected resource attribute for the log record.
+   * Resource attributes describe the service or environment that produced the log record.
+   *
+   * @param key The resource attribute key.
+   * @param value The expected resource attribute value, or a matcher for it.
+   * @returns The `LogRecordAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion.withResourceAttribute('service.name', 'auth-service')
+   * ```
+   */
+  withResourceAttribute(key: string, value: PlainAttributeValue | ValueMatcher): this {
+    if (!this.schema.resourceAttributes) {
+      this.schema.resourceAttributes = []
+    }
+    this.schema.resourceAttributes.push({ key, value: this.toAttributeValue(value) })
+
+    return this
+  }
+
+  /**
+   * Sets multiple expected resource attributes for the log record.
+   * This is a convenience for setting multiple resource attributes at once.
+   *
+   * @param attributes A record of resource attribute keys and their expected values or matchers.
+   * @returns The `LogRecordAssertion` instance for chaining.
+   */
+  withResourceAttributes(attributes: Record<string, PlainAttributeValue | ValueMatcher>): this {
+    for (const [key, value] of Object.entries(attributes)) {
+      this.withResourceAttribute(key, value)
+    }
+
+    return this
+  }
+
+  /**
+   * Sets the expected instrumentation scope of the log record, i.e. the logger or logs bridge that emitted it.
+   *
+   * @param name The expected scope name (e.g. `@opentelemetry/winston-transport`).
+   * @param version The expected scope version. Any version matches when not set.
+   * @returns The `LogRecordAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion.withScope('@opentelemetry/winston-transport')
+   * assertion.withScope('@opentelemetry/winston-transport', '0.13.0')
+   * ```
+   */
+  withScope(name: string, version?: string): this {
+    this.schema.scope = { ...this.schema.scope, name, version }
+
+    return this
+  }
+
+  /**
+   * Sets an expected attribute of the instrumentation scope that emitted the log record.
+   *
+   * @param key The scope attribute key.
+   * @param value The expected scope attribute value, or a matcher for it.
+   * @returns The `LogRecordAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion.withScope('checkout-logger').withScopeAttribute('team', 'payments')
+   * ```
+   */
+  withScopeAttribute(key: string, value: PlainAttributeValue | ValueMatcher): this {
+    if (!this.schema.scope) {
+      this.schema.scope = { name: '' }
+    }
+    if (!this.schema.scope.attributes) {
+      this.schema.scope.attributes = []
+    }
+    this.schema.scope.attributes.push({ key, value: this.toAttributeValue(value) })
+
+    return this
+  }
+
+  /**
+   * Sets the expected schema URL of the instrumentation scope that emitted the log record.
+   *
+   * @param schemaUrl The expected schema URL.
+   * @returns The `LogRecordAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion.withSchemaUrl('https://opentelemetry.io/schemas/1.34.0')
+   * ```
+   */
+  withSchemaUrl(schemaUrl: string): this {
+    this.schema.scopeSchemaUrl = schemaUrl
+
+    return this
+  }
+
+  /**
+   * Sets the expected schema URL of the resource that emitted the log record.
+   *
+   * @param schemaUrl The expected schema URL.
+   * @returns The `LogRecordAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion.withResourceSchemaUrl('https://opentelemetry.io/schemas/1.34.0')
+   * ```
+   */
+  withResourceSchemaUrl(schemaUrl: string): this {
+    this.schema.resourceSchemaUrl = schemaUrl
+
+    return this
+  }
+
+  /**
+   * Expects the log record to be correlated with a trace.
+   * Without arguments, any trace and span ID is accepted as long as both are present.
+   * IDs are compared as lowercase hex strings.
+   *
+   * @param traceId The expected trace ID, if any.
+   * @param spanId The expected span ID, if any.
+   * @returns The `LogRecordAssertion` instance for chaining.
+   *
+   * @example
+   * Any trace context:
+   * ```typescript
+   * assertion.withTraceContext()
+   * ```
+   *
+   * @example
+   * A specific trace:
+   * ```typescript
+   * assertion.withTraceContext('5b8efff798038103d269b633813fc60c')
+   * ```
+   */
+  withTraceContext(traceId?: string, spanId?: string): this {
+    this.traceContext = { traceId, spanId }
+
+    return this
+  }
+
+  /**
+   * Finalizes the log record assertion and adds it to the verification queue.
+   *
+   * This method captures the current call stack for better error reporting
+   * and registers the assertion for execution during test verification.
+   *
+   * @returns The parent log verifier instance for continued test building.
+   *
+   * @example
+   * ```typescript
+   * await logVerifier
+   *   .toHaveLog()
+   *   .withSeverity(SeverityNumber.INFO)
+   *   .withBody('Server started')
+   *   .assert()
+   *   .assertAll()
+   * ```
+   */
+  assert(): LogVerifier {
+    const error = new Error()
+
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    Error.captureStackTrace(error, this.assert)
+    const originalStack = error.stack
+
+    this.assertions.push(
+      new LogRecordAssertionVerifier(
+        this.schema,
+        this.traceContext,
+        this.cardinality,
+        originalStack,
+        this.observationWindowMs,
+      ),
+    )
+
+    return this.verifier
+  }
+
+  /**
+   * Converts various JavaScript types to OpenTelemetry AttributeValue format. Matchers are returned as is.
+   *
+   * @private
+   */
+  private toAttributeValue(value: PlainAttributeValue | ValueMatcher): Expected<AttributeValue> {
+    return value instanceof ValueMatcher ? value : createAttributeValue(value)
+  }
+}
@@ -0,0 +1,8 @@
+import { OTLP_PROTO_ROOT, OtlpProtobufCodec } from '../../shared/codecs'
+import { LogExportDto, LogExportResponseDto } from '../dtos'
+
+export const LOGS_SERVICE_CODEC = new OtlpProtobufCodec<LogExportDto, LogExportResponseDto>(
+  'opentelemetry.proto.collector.logs.v1.LogsService',
+  OTLP_PROTO_ROOT.lookupType('opentelemetry.proto.collector.logs.v1.ExportLogsServiceRequest'),
+  OTLP_PROTO_ROOT.lookupType('opentelemetry.proto.collector.logs.v1.ExportLogsServiceResponse'),
+)
@@ -0,0 +1,7 @@
+import { Injectable } from '@nestjs/common'
+
+import { AbstractTelemetryCollector } from '../../shared/collectors'
+import { LogRecord } from '../models'
+
+@Injectable()
+export class LogCollector extends AbstractTelemetryCollector<LogRecord> {}
@@ -0,0 +1,32 @@
+import { Controller, Post, Body, Get, UseInterceptors } from '@nestjs/common'
+
+import { LogCollector } from '../collectors'
+import { LogExportDto, LogExportResponseDto } from '../dtos'
+import { LogRecord } from '../models'
+import { LogReceiver } from '../receivers'
+import { LOGS_SERVICE_CODEC } from '../codecs'
+import { OtlpContentNegotiationInterceptor } from '../../transport/interceptors'
+import { HttpExportMetadata } from '../../transport/decorators'
+import { ExportRequestMetadata } from '../../transport/models'
+
+@Controller()
+export class LogsController {
+  constructor(
+    private readonly collector: LogCollector,
+    private readonly receiver: LogReceiver,
+  ) {}
+
+  @Post('v1/logs')
+  @UseInterceptors(new OtlpContentNegotiationInterceptor(LOGS_SERVICE_CODEC))
+  handleLogs(
+    @Body() data: LogExportDto,
+    @HttpExportMetadata() metadata: ExportRequestMetadata,
+  ): Promise<LogExportResponseDto> {
+    return this.receiver.receive(data, metadata)
+  }
+
+  @Get('logs')
+  getLogs(): LogRecord[] {
+    return this.collector.retrieve()
+  }
+}
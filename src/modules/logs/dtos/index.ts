@@ -0,0 +1,2 @@
+export * from './log-export-response.dto'
+export * from './log-export.dto'
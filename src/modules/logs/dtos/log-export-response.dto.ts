@@ -0,0 +1,8 @@
+export interface LogExportResponseDto {
+  partialSuccess?: ExportLogsPartialSuccess
+}
+
+interface ExportLogsPartialSuccess {
+  rejectedLogRecords?: number | string
+  errorMessage?: string
+}
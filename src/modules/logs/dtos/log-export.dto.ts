@@ -0,0 +1,5 @@
+import { ResourceLogs } from '../models'
+
+export interface LogExportDto {
+  resourceLogs: ResourceLogs[]
+}
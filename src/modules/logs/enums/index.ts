@@ -0,0 +1 @@
+export * from './severity-number.enum'
@@ -0,0 +1,28 @@
+import { Injectable } from '@nestjs/common'
+import { LogRecordExporter, ReadableLogRecord } from '@opentelemetry/sdk-logs'
+import { JsonLogsSerializer } from '@opentelemetry/otlp-transformer'
+
+import { LogExportDto } from '../dtos'
+import { LogReceiver } from '../receivers'
+import { AbstractInProcessExporter } from '../../transport/exporters'
+
+/**
+ * A `LogRecordExporter` that passes emitted log records straight to the collector, without a network round trip.
+ * Use it with `SimpleLogRecordProcessor` to make log records available to `verifiers.logs` as soon as they are emitted.
+ *
+ * @example
+ * ```typescript
+ * const provider = new LoggerProvider({
+ *   processors: [new SimpleLogRecordProcessor(collector.exporters.logs)],
+ * })
+ * ```
+ */
+@Injectable()
+export class InProcessLogRecordExporter
+  extends AbstractInProcessExporter<ReadableLogRecord[], LogExportDto>
+  implements LogRecordExporter
+{
+  constructor(receiver: LogReceiver) {
+    super(receiver, JsonLogsSerializer)
+  }
+}
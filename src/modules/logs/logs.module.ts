@@ -0,0 +1,16 @@
+import { Module, Global } from '@nestjs/common'
+
+import { LogCollector } from './collectors'
+import { LogsController } from './controllers'
+import { LogVerifier } from './verifiers'
+import { LogReceiver } from './receivers'
+import { InProcessLogRecordExporter } from './exporters'
+
+@Global()
+@Module({
+  imports: [],
+  controllers: [LogsController],
+  providers: [LogCollector, LogVerifier, LogReceiver, InProcessLogRecordExporter],
+  exports: [LogVerifier, LogReceiver, InProcessLogRecordExporter],
+})
+export class LogsModule {}
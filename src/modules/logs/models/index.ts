@@ -0,0 +1,4 @@
+export * from './log-record-schema.model'
+export * from './log-record.model'
+export * from './resource-logs.model'
+export * from './scope-logs.model'
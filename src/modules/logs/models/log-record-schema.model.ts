@@ -0,0 +1,25 @@
+import { AttributeValue, Expected, ExpectedAttribute, ExpectedInstrumentationScope } from '../../shared/models'
+import { LogRecord } from './log-record.model'
+
+/**
+ * The expected properties of a log record, where the body and attribute values may be matchers.
+ */
+export interface LogRecordSchema
+  extends Partial<Omit<LogRecord, 'body' | 'attributes' | 'resourceAttributes' | 'scope'>> {
+  body?: Expected<AttributeValue>
+  attributes?: ExpectedAttribute[]
+  /**
+   * Expected values at dotted paths into nested attribute values, keyed by the path.
+   */
+  attributePaths?: ExpectedAttribute[]
+  /**
+   * Whether attributes other than the expected attributes and the roots of the expected attribute paths are forbidden.
+   */
+  onlyAttributes?: boolean
+  /**
+   * Keys of attributes that must not be present.
+   */
+  absentAttributes?: string[]
+  resourceAttributes?: ExpectedAttribute[]
+  scope?: ExpectedInstrumentationScope
+}
@@ -0,0 +1,20 @@
+import { Attribute, AttributeValue, InstrumentationScope } from '../../shared/models'
+import { SeverityNumber } from '../enums'
+
+export interface LogRecord {
+  timeUnixNano: bigint
+  observedTimeUnixNano: bigint
+  severityNumber?: SeverityNumber
+  severityText?: string
+  body?: AttributeValue | null
+  attributes: Attribute[]
+  droppedAttributesCount: number
+  flags?: number
+  traceId?: string
+  spanId?: string
+  eventName?: string
+  resourceAttributes?: Attribute[]
+  resourceSchemaUrl?: string
+  scope?: InstrumentationScope
+  scopeSchemaUrl?: string
+}
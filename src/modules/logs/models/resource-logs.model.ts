@@ -0,0 +1,8 @@
+import { Resource } from '../../shared/models'
+import { ScopeLogs } from './scope-logs.model'
+
+export interface ResourceLogs {
+  resource?: Resource
+  scopeLogs: ScopeLogs[]
+  schemaUrl?: string
+}
@@ -0,0 +1,8 @@
+import { InstrumentationScope } from '../../shared/models'
+import { LogRecord } from './log-record.model'
+
+export interface ScopeLogs {
+  scope?: InstrumentationScope
+  logRecords?: LogRecord[]
+  schemaUrl?: string | null
+}
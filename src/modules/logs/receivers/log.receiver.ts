@@ -0,0 +1,72 @@
+import { Injectable } from '@nestjs/common'
+
+import { LogCollector } from '../collectors'
+import { LogExportDto, LogExportResponseDto } from '../dtos'
+import { LogRecord } from '../models'
+import { TelemetrySignal } from '../../shared/enums'
+import { formatId, normalizeAttributeValue, normalizeAttributes, normalizeScope, toBigInt } from '../../shared/utils'
+import { ExportRequestCollector } from '../../transport/collectors'
+import { PartialSuccessFault } from '../../transport/models'
+import { AbstractExportReceiver } from '../../transport/receivers'
+import { FaultInjector, InFlightExportTracker, LatencySimulator } from '../../transport/services'
+
+/**
+ * Receives OTLP log export requests, regardless of the transport they arrived on,
+ * and flattens them into enriched log records stored by the `LogCollector`.
+ *
+ * Log records are normalized on ingest, since OTLP/JSON encodes 64-bit integers as strings and IDs as hex,
+ * while OTLP/protobuf carries IDs as bytes: IDs become lowercase hex strings, timestamps become `bigint`
+ * nanoseconds and integer values become a `number`, or a `bigint` if they are not safe integers.
+ */
+@Injectable()
+export class LogReceiver extends AbstractExportReceiver<LogExportDto, LogExportResponseDto> {
+  protected readonly signal = TelemetrySignal.LOGS
+
+  constructor(
+    private readonly collector: LogCollector,
+    exportRequestCollector: ExportRequestCollector,
+    faultInjector: FaultInjector,
+    latencySimulator: LatencySimulator,
+    inFlightTracker: InFlightExportTracker,
+  ) {
+    super(exportRequestCollector, faultInjector, latencySimulator, inFlightTracker)
+  }
+
+  protected ingest(data: LogExportDto): void {
+    for (const resourceLog of data.resourceLogs) {
+      const resourceAttributes = normalizeAttributes(resourceLog.resource?.attributes)
+      for (const scopeLog of resourceLog.scopeLogs) {
+        if (!scopeLog.logRecords) {
+          continue
+        }
+
+        const scope = normalizeScope(scopeLog.scope)
+        const enrichedLogRecords: LogRecord[] = scopeLog.logRecords.map((logRecord) => ({
+          ...this.normalizeLogRecord(logRecord),
+          resourceAttributes,
+          resourceSchemaUrl: resourceLog.schemaUrl || undefined,
+          scope,
+          scopeSchemaUrl: scopeLog.schemaUrl || undefined,
+        }))
+
+        this.collector.collect(enrichedLogRecords)
+      }
+    }
+  }
+
+  private normalizeLogRecord(logRecord: LogRecord): LogRecord {
+    return {
+      ...logRecord,
+      timeUnixNano: toBigInt(logRecord.timeUnixNano),
+      observedTimeUnixNano: toBigInt(logRecord.observedTimeUnixNano),
+      body: logRecord.body && normalizeAttributeValue(logRecord.body),
+      attributes: normalizeAttributes(logRecord.attributes),
+      traceId: formatId(logRecord.traceId) || undefined,
+      spanId: formatId(logRecord.spanId) || undefined,
+    }
+  }
+
+  protected createPartialSuccessResponse(fault: PartialSuccessFault): LogExportResponseDto {
+    return { partialSuccess: { rejectedLogRecords: fault.rejected, errorMessage: fault.errorMessage } }
+  }
+}
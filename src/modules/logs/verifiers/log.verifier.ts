@@ -0,0 +1,225 @@
+import { Inject, Injectable } from '@nestjs/common'
+
+import { LogCollector } from '../collectors'
+import {
+  LogRecordAssertion,
+  LogRecordAssertionVerifier,
+  LogRecordAttributePolicyAssertionVerifier,
+} from '../assertions'
+import { CollectorOptions, Mark, TimeWindow } from '../../shared/models'
+import { toTimeWindow } from '../../shared/utils'
+import { COLLECTOR_MODULE_OPTIONS } from '../../shared/tokens'
+
+/**
+ * Provides a fluent API for asserting the state of OpenTelemetry log records.
+ * Use this to verify that your application is producing the expected logs through the OpenTelemetry logs bridge.
+ *
+ * @example
+ * Basic log testing:
+ * ```typescript
+ * await verifiers.logs
+ *   .toHaveLog()
+ *   .withSeverity(SeverityNumber.INFO)
+ *   .withBody('User signed in')
+ *   .withAttribute('user.id', '12345')
+ *   .assert()
+ *   .assertAll()
+ * ```
+ *
+ * @example
+ * Testing multiple log records:
+ * ```typescript
+ * await verifiers.logs
+ *   .toHaveLogWithCount(3)
+ *   .withSeverity(SeverityNumber.WARN)
+ *   .withBody('Retrying request')
+ *   .assert()
+ *   .toHaveLog()
+ *   .withSeverity(SeverityNumber.ERROR)
+ *   .withTraceContext()
+ *   .assert()
+ *   .assertAll()
+ * ```
+ */
+@Injectable()
+export class LogVerifier {
+  private readonly assertions: LogRecordAssertionVerifier[] = []
+
+  /** When set, assertions only consider the telemetry of this time window. */
+  private window?: TimeWindow
+
+  constructor(
+    private readonly collector: LogCollector,
+    @Inject(COLLECTOR_MODULE_OPTIONS)
+    private readonly options: CollectorOptions,
+  ) {}
+
+  /**
+   * Asserts that a matching log record is present.
+   * This is a convenience for `toHaveLogWithCount(1)`.
+   *
+   * @returns A `LogRecordAssertion` to chain further assertions.
+   *
+   * @example
+   * ```typescript
+   * logVerifier
+   *   .toHaveLog()
+   *   .withSeverity(SeverityNumber.ERROR)
+   *   .withBody('Database connection lost')
+   *   .assert()
+   * ```
+   */
+  toHaveLog(): LogRecordAssertion {
+    return this.toHaveLogWithCount(1)
+  }
+
+  /**
+   * Asserts that a specific number of matching log records are present.
+   *
+   * @param count The expected number of log records.
+   * @returns A `LogRecordAssertion` to chain further assertions.
+   *
+   * @example
+   * ```typescript
+   * // Test that exactly 3 retries were logged
+   * logVerifier
+   *   .toHaveLogWithCount(3)
+   *   .withBody('Retrying request')
+   *   .assert()
+   * ```
+   */
+  toHaveLogWithCount(count: number): LogRecordAssertion {
+    return new LogRecordAssertion(this, this.assertions, count)
+  }
+
+  /**
+   * Asserts that no matching log record is received within the observation window.
+   * Unlike `toHaveLogWithCount(0)`, which passes as soon as no matching log record is present,
+   * this keeps checking every log record received until the window has elapsed.
+   *
+   * @param observationWindowMs The time in milliseconds the absence must hold for.
+   * Default: the `observationWindow` of the collector options.
+   * @returns A `LogRecordAssertion` to chain further assertions.
+   *
+   * @example
+   * ```typescript
+   * // No error must be logged
+   * logVerifier
+   *   .toNotHaveLog()
+   *   .withSeverity(SeverityNumber.ERROR)
+   *   .assert()
+   * ```
+   */
+  toNotHaveLog(observationWindowMs: number = this.options.observationWindow): LogRecordAssertion {
+    return new LogRecordAssertion(this, this.assertions, 0, observationWindowMs)
+  }
+
+  /**
+   * Starts an assertion session, i.e. a verifier with its own queue of assertions.
+   * Its `assertAll()` only verifies the log record assertions chained on the session.
+   *
+   * @returns A new `LogVerifier` with an empty queue of assertions.
+   *
+   * @example
+   * ```typescript
+   * await logVerifier
+   *   .expect()
+   *   .toHaveLog()
+   *   .withBody('Order placed')
+   *   .assert()
+   *   .assertAll()
+   * ```
+   */
+  expect(): LogVerifier {
+    return this.within(this.window)
+  }
+
+  /**
+   * Starts an assertion session that only considers the log records of the time window since a mark.
+   * Use this when tests share a collector, so that they do not match the telemetry of earlier tests.
+   *
+   * @param mark The mark created with `Collector.mark()` where the window starts.
+   * @returns A new `LogVerifier` with an empty queue of assertions.
+   *
+   * @example
+   * ```typescript
+   * const mark = collector.mark()
+   *
+   * // ... exercise the application
+   *
+   * await logVerifier.since(mark).toHaveLog().withBody('Order placed').assert().assertAll()
+   * ```
+   */
+  since(mark: Mark): LogVerifier {
+    return this.within(toTimeWindow(mark))
+  }
+
+  /**
+   * Starts an assertion session that only considers the log records of the time window between two marks.
+   *
+   * @param from The mark created with `Collector.mark()` where the window starts.
+   * @param to The mark created with `Collector.mark()` where the window ends.
+   * @returns A new `LogVerifier` with an empty queue of assertions.
+   * @throws Error If the end mark precedes the start mark.
+   *
+   * @example
+   * ```typescript
+   * const before = collector.mark()
+   * // ... exercise the application
+   * const after = collector.mark()
+   *
+   * await logVerifier.between(before, after).toHaveLog().withBody('Order placed').assert().assertAll()
+   * ```
+   */
+  between(from: Mark, to: Mark): LogVerifier {
+    return this.within(toTimeWindow(from, to))
+  }
+
+  /**
+   * Removes all assertions chained on this verifier, without verifying them.
+   * Sessions started with `expect()` keep their own assertions.
+   */
+  reset(): void {
+    this.assertions.length = 0
+  }
+
+  /**
+   * Executes all chained assertions.
+   * This method will wait for the necessary log records to be collected,
+   * retrying until all assertions pass or a timeout is reached.
+   * The queue of assertions is emptied, so that the next `assertAll()` does not verify them again,
+   * whether they passed or not.
+   *
+   * @returns A `Promise` that resolves when all assertions pass.
+   * @throws {AssertionError} If any assertion fails during verification.
+   * @throws {AssertionError} If collected log records carry attributes forbidden by the `attributePolicy` option.
+   * @throws {Error} If a timeout is reached before assertions can be evaluated.
+   *
+   * @example
+   * ```typescript
+   * await logVerifier
+   *   .toHaveLog()
+   *   .withBody('Server started')
+   *   .assert()
+   *   .assertAll()
+   * ```
+   */
+  async assertAll(): Promise<void> {
+    // Reactive approach: retry assertions on each new data batch,
+    // while assertions on the absence of data must hold for their whole observation window
+    await this.collector.verifyAssertions(this.assertions.splice(0), this.options.timeout, this.window)
+
+    // The attribute policy applies to everything collected by the time the assertions pass
+    if (this.options.attributePolicy) {
+      new LogRecordAttributePolicyAssertionVerifier(this.options.attributePolicy).verify(
+        this.collector.retrieve(this.window),
+      )
+    }
+  }
+
+  private within(window?: TimeWindow): LogVerifier {
+    const session = new LogVerifier(this.collector, this.options)
+    session.window = window
+    return session
+  }
+}
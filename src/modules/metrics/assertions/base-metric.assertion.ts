@@ -1,5 +1,7 @@
-import { Metric } from '../models'
-import { AttributeValue } from '../../shared/models'
+import { Metric, MetricSchema } from '../models'
+import { AssertionVerifier, AttributeValue, Cardinality, Expected, PlainAttributeValue } from '../../shared/models'
+import { ValueMatcher } from '../../shared/matchers'
+import { createAttributeValue, toCardinality } from '../../shared/utils'
 import { BaseMetricVerifier } from './base-metric.verifier'
 import { MetricVerifier } from '../verifiers'
 
@@ -22,30 +24,85 @@ export type AnyValue = string | number | boolean | string[]
 export abstract class BaseMetricAssertion<Parent = MetricVerifier> {
   protected semanticAttributes: string[] = []
   protected abstract verifier: new (
-    schema: Partial<Metric>,
+    schema: MetricSchema,
     semanticAttributes: string[],
     originalStack: string,
+    cardinality: Cardinality,
+    dataPointCardinality?: Cardinality,
+    observationWindowMs?: number,
   ) => BaseMetricVerifier
 
-  protected readonly schema: Partial<Metric> = {}
+  protected readonly schema: MetricSchema = {}
+  private cardinality: Cardinality
+  private dataPointCardinality?: Cardinality
 
+  /**
+   * @param observationWindowMs When set, asserts that no matching metric is received within this window.
+   */
   constructor(
     protected readonly parent: Parent,
-    private readonly assertions: BaseMetricVerifier[],
-  ) {}
+    private readonly assertions: AssertionVerifier<Metric>[],
+    private readonly observationWindowMs?: number,
+  ) {
+    this.cardinality = observationWindowMs === undefined ? { atLeast: 1 } : { exactly: 0 }
+  }
+
+  /**
+   * Sets how many metrics are expected to match. By default, at least one matching metric is expected.
+   * Note that a periodic metric reader exports the same metric on every export interval,
+   * so each export counts as a separate metric.
+   *
+   * @param cardinality The expected number of matching metrics, or a range of it.
+   * @returns The `BaseMetricAssertion` instance for chaining.
+   * @throws Error If the cardinality has no bounds or inconsistent bounds.
+   *
+   * @example
+   * ```typescript
+   * assertion.times(1)
+   * assertion.times({ atLeast: 2, atMost: 5 })
+   * ```
+   */
+  times(cardinality: Cardinality | number): this {
+    this.cardinality = toCardinality(cardinality)
+    return this
+  }
+
+  /**
+   * Sets how many data points are expected across all matching metrics.
+   * For metric assertions of a specific type, only the data points matching the expected data point
+   * properties (e.g. attributes) are counted.
+   *
+   * @param cardinality The expected number of matching data points, or a range of it.
+   * @returns The `BaseMetricAssertion` instance for chaining.
+   * @throws Error If the cardinality has no bounds or inconsistent bounds.
+   *
+   * @example
+   * ```typescript
+   * // One data point per route
+   * assertion.withName('http.server.duration').withDataPointCount(3)
+   *
+   * // A bounded number of attribute combinations
+   * assertion.withName('db.client.operation.duration').withDataPointCount({ atMost: 10 })
+   * ```
+   */
+  withDataPointCount(cardinality: Cardinality | number): this {
+    this.dataPointCardinality = toCardinality(cardinality)
+    return this
+  }
 
   /**
    * Sets the expected name of the metric.
    *
-   * @param name The expected metric name (e.g., `http.server.duration`).
+   * @param name The expected metric name (e.g., `http.server.duration`), or a matcher for it.
    * @returns The `BaseMetricAssertion` instance for chaining.
    *
    * @example
    * ```typescript
    * assertion.withName('http.server.duration')
+   * assertion.withName(match.regex(/^http\.server\./))
    * ```
    */
-  withName(name: string): this {
+  withName(name: string | ValueMatcher): this {
     this.schema.name = name
     return this
   }
@@ -87,15 +144,16 @@ export abstract class BaseMetricAssertion<Parent = MetricVerifier> {
    * Resource attributes describe the service or environment that produced the metric.
    *
    * @param key The attribute key (e.g., `service.name`).
-   * @param value The expected attribute value.
+   * @param value The expected attribute value, or a matcher for it.
    * @returns The `BaseMetricAssertion` instance for chaining.
    *
    * @example
    * ```typescript
    * assertion.withResourceAttribute('service.name', 'my-service')
+   * assertion.withResourceAttribute('service.instance.id', match.anyString())
    * ```
    */
-  withResourceAttribute(key: string, value: string | number | boolean): this {
+  withResourceAttribute(key: string, value: PlainAttributeValue | ValueMatcher): this {
     if (!this.schema.resourceAttributes) {
       this.schema.resourceAttributes = []
     }
@@ -108,7 +166,7 @@ export abstract class BaseMetricAssertion<Parent = MetricVerifier> {
    * Sets multiple expected resource attributes for the metric.
    * This is a convenience for setting multiple attributes at once.
    *
-   * @param attributes A record of attribute keys and their expected values.
+   * @param attributes A record of attribute keys and their expected values or matchers.
    * @returns The `BaseMetricAssertion` instance for chaining.
    *
    * @example
@@ -119,7 +177,7 @@ export abstract class BaseMetricAssertion<Parent = MetricVerifier> {
    * })
    * ```
    */
-  withResourceAttributes(attributes: Record<string, string | number | boolean>): this {
+  withResourceAttributes(attributes: Record<string, PlainAttributeValue | ValueMatcher>): this {
     for (const [key, value] of Object.entries(attributes)) {
       this.withResourceAttribute(key, value)
     }
@@ -127,6 +185,82 @@ export abstract class BaseMetricAssertion<Parent = MetricVerifier> {
     return this
   }
 
+  /**
+   * Sets the expected instrumentation scope of the metric, i.e. the instrumentation library that produced it.
+   *
+   * @param name The expected scope name (e.g. `@opentelemetry/instrumentation-http`).
+   * @param version The expected scope version. Any version matches when not set.
+   * @returns The `BaseMetricAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion.withScope('@opentelemetry/instrumentation-http')
+   * assertion.withScope('@opentelemetry/instrumentation-http', '0.202.0')
+   * ```
+   */
+  withScope(name: string, version?: string): this {
+    this.schema.scope = { ...this.schema.scope, name, version }
+    return this
+  }
+
+  /**
+   * Sets an expected attribute of the instrumentation scope that produced the metric.
+   *
+   * @param key The scope attribute key.
+   * @param value The expected scope attribute value, or a matcher for it.
+   * @returns The `BaseMetricAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion.withScope('checkout-meter').withScopeAttribute('team', 'payments')
+   * ```
+   */
+  withScopeAttribute(key: string, value: PlainAttributeValue | ValueMatcher): this {
+    if (!this.schema.scope) {
+      this.schema.scope = { name: '' }
+    }
+    if (!this.schema.scope.attributes) {
+      this.schema.scope.attributes = []
+    }
+
+    this.schema.scope.attributes.push({ key, value: this.toAttributeValue(value) })
+    return this
+  }
+
+  /**
+   * Sets the expected schema URL of the instrumentation scope that produced the metric.
+   * The schema URL identifies the version of the semantic conventions the metric attributes follow.
+   *
+   * @param schemaUrl The expected schema URL.
+   * @returns The `BaseMetricAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion.withSchemaUrl('https://opentelemetry.io/schemas/1.34.0')
+   * ```
+   */
+  withSchemaUrl(schemaUrl: string): this {
+    this.schema.scopeSchemaUrl = schemaUrl
+    return this
+  }
+
+  /**
+   * Sets the expected schema URL of the resource that produced the metric.
+   * The schema URL identifies the version of the semantic conventions the resource attributes follow.
+   *
+   * @param schemaUrl The expected schema URL.
+   * @returns The `BaseMetricAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion.withResourceSchemaUrl('https://opentelemetry.io/schemas/1.34.0')
+   * ```
+   */
+  withResourceSchemaUrl(schemaUrl: string): this {
+    this.schema.resourceSchemaUrl = schemaUrl
+    return this
+  }
+
   /**
    * Registers the assertion with the verifier.
    * This should be called to finalize an assertion chain.
@@ -148,7 +282,16 @@ export abstract class BaseMetricAssertion<Parent = MetricVerifier> {
     Error.captureStackTrace(error, this.assert)
     const originalStack = error.stack ?? ''
 
-    this.assertions.push(new this.verifier(this.schema, this.semanticAttributes, originalStack))
+    this.assertions.push(
+      new this.verifier(
+        this.schema,
+        this.semanticAttributes,
+        originalStack,
+        this.cardinality,
+        this.dataPointCardinality,
+        this.observationWindowMs,
+      ),
+    )
 
     return this.parent
   }
@@ -156,19 +299,9 @@ export abstract class BaseMetricAssertion<Parent = MetricVerifier> {
   /**
    * @internal
    */
-  protected toAttributeValue(value: string | number | boolean): AttributeValue {
-    if (typeof value === 'string') {
-      return { stringValue: value }
-    } else if (typeof value === 'number') {
-      if (Number.isInteger(value)) {
-        return { intValue: value }
-      } else {
-        return { doubleValue: value }
-      }
-    } else if (typeof value === 'boolean') {
-      return { boolValue: value }
-    } else {
-      throw new Error(`Unsupported attribute value type: ${typeof value}`)
-    }
+  protected toAttributeValue(value: PlainAttributeValue): AttributeValue
+  protected toAttributeValue(value: PlainAttributeValue | ValueMatcher): Expected<AttributeValue>
+  protected toAttributeValue(value: PlainAttributeValue | ValueMatcher): Expected<AttributeValue> {
+    return value instanceof ValueMatcher ? value : createAttributeValue(value)
   }
 }
@@ -1,22 +1,74 @@
 import * as assert from 'assert'
 
-import { HistogramDataPoint, Metric, NumberDataPoint, SummaryDataPoint } from '../models'
-import { formatAttributeValue, hasAttribute } from '../../shared/utils'
-
-type DataPoint = NumberDataPoint | HistogramDataPoint | SummaryDataPoint
+import {
+  ExponentialHistogramDataPoint,
+  HistogramDataPoint,
+  HistogramDataPointSchema,
+  Metric,
+  MetricSchema,
+  NumberDataPoint,
+  SummaryDataPoint,
+} from '../models'
+import { Cardinality, CriterionResult, MatchCandidate } from '../../shared/models'
+import {
+  describeAttributeMismatch,
+  describeScopeMismatch,
+  describeValueMismatch,
+  formatAttributeValue,
+  formatCardinality,
+  formatClosestMatches,
+  getCardinalityViolation,
+} from '../../shared/utils'
+
+type MetricType = 'gauge' | 'sum' | 'histogram' | 'exponentialHistogram' | 'summary'
+
+const METRIC_TYPES: MetricType[] = ['gauge', 'sum', 'histogram', 'exponentialHistogram', 'summary']
+
+type DataPoint = NumberDataPoint | HistogramDataPoint | ExponentialHistogramDataPoint | SummaryDataPoint
+type DataPointSchema = NumberDataPoint | HistogramDataPointSchema | SummaryDataPoint
 
 export abstract class BaseMetricVerifier {
+  /**
+   * @param cardinality The expected number of matching metrics.
+   * @param dataPointCardinality The expected number of matching data points across all matching metrics, if any.
+   * @param observationWindowMs When set, the cardinality must hold for this window, e.g. to assert absence.
+   */
   constructor(
-    protected readonly schema: Partial<Metric>,
+    protected readonly schema: MetricSchema,
     protected readonly semanticAttributes: string[],
     protected readonly originalStack: string,
+    private readonly cardinality: Cardinality,
+    private readonly dataPointCardinality?: Cardinality,
+    readonly observationWindowMs?: number,
   ) {}
 
   verify(metrics: Metric[]): void {
     const matchingMetrics = metrics.filter((metric) => this.matches(metric))
 
     try {
-      assert.ok(matchingMetrics.length > 0, `Expected at least one metric matching "${this.getDescription()}"`)
+      const violation = getCardinalityViolation(matchingMetrics.length, this.cardinality)
+      assert.ok(
+        !violation,
+        `Expected ${formatCardinality(this.cardinality)} metrics matching "${this.getDescription()}", ` +
+          `found ${matchingMetrics.length} (${violation})` +
+          (matchingMetrics.length > 0 ? `: ${matchingMetrics.map((metric) => `"${metric.name}"`).join(', ')}` : '') +
+          (matchingMetrics.length < (this.cardinality.exactly ?? this.cardinality.atLeast ?? 0)
+            ? this.getClosestMatches(metrics, matchingMetrics)
+            : ''),
+      )
+
+      if (this.dataPointCardinality) {
+        const dataPointCount = matchingMetrics.reduce(
+          (count, metric) => count + this.getMatchingDataPoints(metric).length,
+          0,
+        )
+        const dataPointViolation = getCardinalityViolation(dataPointCount, this.dataPointCardinality)
+        assert.ok(
+          !dataPointViolation,
+          `Expected ${formatCardinality(this.dataPointCardinality)} data points in metrics matching ` +
+            `"${this.getDescription()}", found ${dataPointCount} (${dataPointViolation})`,
+        )
+      }
     } catch (error) {
       if (error instanceof Error && this.originalStack) {
         error.stack = this.originalStack
@@ -26,55 +78,123 @@ export abstract class BaseMetricVerifier {
     }
   }
 
+  /**
+   * Describes the metrics, or the data points of the expected type, satisfying the most criteria among those
+   * that do not match, to explain near misses.
+   */
+  private getClosestMatches(metrics: Metric[], matchingMetrics: Metric[]): string {
+    const candidates = metrics
+      .filter((metric) => !matchingMetrics.includes(metric))
+      .flatMap((metric): MatchCandidate[] => {
+        const metricResults = this.getMetricCriteria(metric)
+        const dataPoints = this.hasDataPointSchema() ? this.getDataPoints(metric) : []
+
+        if (dataPoints.length === 0) {
+          return [{ summary: `"${metric.name}"`, results: metricResults }]
+        }
+
+        return dataPoints.map((dataPoint) => ({
+          summary: `"${metric.name}" data point [${this.getAttributesSummary(dataPoint)}]`,
+          results: [...metricResults, ...this.getDataPointCriteria(dataPoint)],
+        }))
+      })
+
+    return formatClosestMatches(candidates)
+  }
+
+  private getAttributesSummary(dataPoint: DataPoint): string {
+    return (
+      (dataPoint.attributes ?? [])
+        .slice(0, 3)
+        .map((attribute) => `${attribute.key}=${formatAttributeValue(attribute.value)}`)
+        .join(', ') || 'no attributes'
+    )
+  }
+
   private matches(metric: Metric): boolean {
-    if (this.schema.name && metric.name !== this.schema.name) {
-      return false
-    }
-    if (this.schema.description && metric.description !== this.schema.description) {
-      return false
-    }
-    if (this.schema.unit && metric.unit !== this.schema.unit) {
-      return false
-    }
-    if (this.schema.resourceAttributes && metric.resourceAttributes !== this.schema.resourceAttributes) {
+    if (this.getMetricCriteria(metric).some(({ mismatch }) => mismatch !== undefined)) {
       return false
     }
 
-    if (this.schema.gauge && !metric.gauge) {
-      return false
-    } else if (this.schema.gauge && metric.gauge) {
-      return metric.gauge.dataPoints.some((dataPoint) => this.matchesDataPoint(dataPoint))
+    // Metric assertions of a specific type require at least one matching data point of that type
+    return !this.hasDataPointSchema() || this.getMatchingDataPoints(metric).length > 0
+  }
+
+  /**
+   * Checks the properties of the metric itself, i.e. everything but its data points.
+   */
+  private getMetricCriteria(metric: Metric): CriterionResult[] {
+    const { name, description, unit, scope, scopeSchemaUrl, resourceSchemaUrl, resourceAttributes } = this.schema
+    const results: CriterionResult[] = []
+    const add = (criterion: string, mismatch: string | undefined) => results.push({ criterion, mismatch })
+
+    if (name) add('name', describeValueMismatch(metric.name, name))
+    if (description) add('description', describeValueMismatch(metric.description, description))
+    if (unit) add('unit', describeValueMismatch(metric.unit, unit))
+    if (scope) add('scope', describeScopeMismatch(metric.scope, scope))
+    if (scopeSchemaUrl) add('scope schema URL', describeValueMismatch(metric.scopeSchemaUrl, scopeSchemaUrl))
+    if (resourceSchemaUrl) {
+      add('resource schema URL', describeValueMismatch(metric.resourceSchemaUrl, resourceSchemaUrl))
     }
 
-    if (this.schema.histogram && !metric.histogram) {
-      return false
-    } else if (this.schema.histogram && metric.histogram) {
-      return metric.histogram.dataPoints.some((dataPoint) => this.matchesDataPoint(dataPoint))
+    // Check resource attributes
+    for (const expectedAttr of resourceAttributes ?? []) {
+      add(`resource ${expectedAttr.key}`, describeAttributeMismatch(metric.resourceAttributes ?? [], expectedAttr))
     }
 
-    if (this.schema.sum && !metric.sum) {
-      return false
-    } else if (this.schema.sum && metric.sum) {
-      return metric.sum.dataPoints.some((dataPoint) => this.matchesDataPoint(dataPoint))
+    const expectedType = this.getExpectedType()
+    if (expectedType) {
+      const actualType = METRIC_TYPES.find((type) => metric[type])
+      add('type', actualType === expectedType ? undefined : `expected ${expectedType} got ${actualType ?? 'nothing'}`)
     }
 
-    if (this.schema.summary && !metric.summary) {
-      return false
-    } else if (this.schema.summary && metric.summary) {
-      return metric.summary.dataPoints.some((dataPoint) => this.matchesDataPoint(dataPoint))
+    return results
+  }
+
+  private getExpectedType(): MetricType | undefined {
+    // There are no assertions on exponential histogram data points
+    return METRIC_TYPES.find((type) => type !== 'exponentialHistogram' && this.schema[type])
+  }
+
+  private hasDataPointSchema(): boolean {
+    return this.getExpectedType() !== undefined
+  }
+
+  private getDataPoints(metric: Metric): DataPoint[] {
+    if (!this.hasDataPointSchema()) {
+      return [
+        ...(metric.gauge?.dataPoints ?? []),
+        ...(metric.sum?.dataPoints ?? []),
+        ...(metric.histogram?.dataPoints ?? []),
+        ...(metric.exponentialHistogram?.dataPoints ?? []),
+        ...(metric.summary?.dataPoints ?? []),
+      ]
     }
 
-    // Check resource attributes
-    if (this.schema.resourceAttributes) {
-      for (const expectedAttr of this.schema.resourceAttributes) {
-        if (!hasAttribute(metric.resourceAttributes ?? [], expectedAttr)) return false
-      }
+    return (
+      (this.schema.gauge && metric.gauge?.dataPoints) ||
+      (this.schema.histogram && metric.histogram?.dataPoints) ||
+      (this.schema.sum && metric.sum?.dataPoints) ||
+      (this.schema.summary && metric.summary?.dataPoints) ||
+      []
+    )
+  }
+
+  private getMatchingDataPoints(metric: Metric): DataPoint[] {
+    if (!this.hasDataPointSchema()) {
+      return this.getDataPoints(metric)
     }
 
-    return true
+    return this.getDataPoints(metric).filter((dataPoint) =>
+      this.getDataPointCriteria(dataPoint).every(({ mismatch }) => mismatch === undefined),
+    )
   }
 
-  abstract matchesDataPoint(dataPoint: DataPoint): boolean
+  /**
+   * Checks a data point of the expected type against the expected data point properties,
+   * e.g. its attributes and count.
+   */
+  abstract getDataPointCriteria(dataPoint: DataPoint): CriterionResult[]
 
   private getDescription(): string {
     const parts: Record<string, unknown> = {}
@@ -82,6 +202,15 @@ export abstract class BaseMetricVerifier {
     if (this.schema.name) parts.name = this.schema.name
     if (this.schema.description) parts.description = this.schema.description
     if (this.schema.unit) parts.unit = this.schema.unit
+    if (this.schema.scope) {
+      const scopeAttributesObj: Record<string, unknown> = {}
+      this.schema.scope.attributes?.forEach((attribute) => {
+        scopeAttributesObj[attribute.key] = formatAttributeValue(attribute.value)
+      })
+      parts.scope = { ...this.schema.scope, attributes: this.schema.scope.attributes && scopeAttributesObj }
+    }
+    if (this.schema.scopeSchemaUrl) parts.scopeSchemaUrl = this.schema.scopeSchemaUrl
+    if (this.schema.resourceSchemaUrl) parts.resourceSchemaUrl = this.schema.resourceSchemaUrl
 
     if (this.schema.gauge) {
       parts.type = 'gauge'
@@ -114,5 +243,5 @@ export abstract class BaseMetricVerifier {
     return JSON.stringify(parts, null, 2)
   }
 
-  abstract getDataPointDescription(dataPoint: DataPoint): Record<string, unknown>
+  abstract getDataPointDescription(dataPoint: DataPointSchema): Record<string, unknown>
 }
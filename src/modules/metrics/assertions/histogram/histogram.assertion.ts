@@ -1,8 +1,9 @@
-import { Histogram, HistogramDataPoint } from '../../models'
+import { HistogramDataPointSchema, HistogramSchema, Metric } from '../../models'
 import { MetricVerifier } from '../../verifiers'
 import { AnyValue, BaseMetricAssertion } from '../base-metric.assertion'
-import { BaseMetricVerifier } from '../base-metric.verifier'
 import { HistogramVerifier } from './histogram.verifier'
+import { AssertionVerifier, PlainAttributeValue } from '../../../shared/models'
+import { ValueMatcher } from '../../../shared/matchers'
 
 /**
  * Provides a fluent API for asserting the properties of OpenTelemetry histogram metrics.
@@ -54,15 +55,15 @@ import { HistogramVerifier } from './histogram.verifier'
  * ```
  */
 export class HistogramAssertion extends BaseMetricAssertion {
-  private readonly dataPoint: HistogramDataPoint = {}
+  private readonly dataPoint: HistogramDataPointSchema = {}
   protected verifier = HistogramVerifier
 
-  constructor(parent: MetricVerifier, assertions: BaseMetricVerifier[]) {
-    super(parent, assertions)
+  constructor(parent: MetricVerifier, assertions: AssertionVerifier<Metric>[], observationWindowMs?: number) {
+    super(parent, assertions, observationWindowMs)
 
     this.schema.histogram = {
       dataPoints: [this.dataPoint],
-    } as Histogram
+    } as HistogramSchema
   }
 
   /**
@@ -70,7 +71,7 @@ export class HistogramAssertion extends BaseMetricAssertion {
    * Data point attributes provide additional details about the metric.
    *
    * @param key The attribute key.
-   * @param value The expected attribute value.
+   * @param value The expected attribute value, or a matcher for it.
    * @returns The `HistogramAssertion` instance for chaining.
    *
    * @example
@@ -100,7 +101,7 @@ export class HistogramAssertion extends BaseMetricAssertion {
    *   .withAttribute('region', 'us-east-1')
    * ```
    */
-  withAttribute(key: string, value: string | number | boolean): this {
+  withAttribute(key: string, value: PlainAttributeValue | ValueMatcher): this {
     if (!this.dataPoint.attributes) {
       this.dataPoint.attributes = []
     }
@@ -113,7 +114,7 @@ export class HistogramAssertion extends BaseMetricAssertion {
    * Sets multiple expected attributes for the histogram data point.
    * This is a convenience for setting multiple attributes at once.
    *
-   * @param attributes A record of attribute keys and their expected values.
+   * @param attributes A record of attribute keys and their expected values or matchers.
    * @returns The `HistogramAssertion` instance for chaining.
    *
    * @example
@@ -138,7 +139,7 @@ export class HistogramAssertion extends BaseMetricAssertion {
    * })
    * ```
    */
-  withAttributes(attributes: Record<string, string | number | boolean>): this {
+  withAttributes(attributes: Record<string, PlainAttributeValue | ValueMatcher>): this {
     for (const [key, value] of Object.entries(attributes)) {
       this.withAttribute(key, value)
     }
@@ -1,57 +1,51 @@
-import { HistogramDataPoint } from '../../models'
+import { isDeepStrictEqual } from 'util'
+
+import { HistogramDataPoint, HistogramDataPointSchema } from '../../models'
 import { BaseMetricVerifier } from '../base-metric.verifier'
-import { formatAttributeValue, hasAttribute } from '../../../shared/utils'
+import { CriterionResult } from '../../../shared/models'
+import { describeAttributeMismatch, formatAttributeValue } from '../../../shared/utils'
 
 export class HistogramVerifier extends BaseMetricVerifier {
-  matchesDataPoint(dataPoint: HistogramDataPoint): boolean {
+  getDataPointCriteria(dataPoint: HistogramDataPoint): CriterionResult[] {
     const schema = this.schema.histogram?.dataPoints[0]
+    const results: CriterionResult[] = []
+    const add = <T extends number | number[]>(criterion: string, actual: T | undefined, expected: T) =>
+      results.push({
+        criterion,
+        mismatch: !isDeepStrictEqual(actual, expected)
+          ? `expected ${JSON.stringify(expected)} got ${actual === undefined ? 'nothing' : JSON.stringify(actual)}`
+          : undefined,
+      })
 
-    if (schema?.count && dataPoint.count !== schema.count) {
-      return false
-    }
-    if (schema?.sum && dataPoint.sum !== schema.sum) {
-      return false
-    }
-    if (schema?.bucketCounts && dataPoint.bucketCounts !== schema.bucketCounts) {
-      return false
-    }
-    if (schema?.explicitBounds && dataPoint.explicitBounds !== schema.explicitBounds) {
-      return false
-    }
-    if (schema?.flags && dataPoint.flags !== schema.flags) {
-      return false
-    }
-    if (schema?.min && dataPoint.min !== schema.min) {
-      return false
-    }
-    if (schema?.max && dataPoint.max !== schema.max) {
-      return false
-    }
-
-    // If attributes missing but expected, return false
-    if (schema?.attributes?.length && !dataPoint.attributes?.length) {
-      return false
-    }
+    if (schema?.count !== undefined) add('count', dataPoint.count, schema.count)
+    if (schema?.sum !== undefined) add('sum', dataPoint.sum, schema.sum)
+    if (schema?.bucketCounts !== undefined) add('bucket counts', dataPoint.bucketCounts, schema.bucketCounts)
+    if (schema?.explicitBounds !== undefined) add('explicit bounds', dataPoint.explicitBounds, schema.explicitBounds)
+    if (schema?.flags !== undefined) add('flags', dataPoint.flags, schema.flags)
+    if (schema?.min !== undefined) add('min', dataPoint.min, schema.min)
+    if (schema?.max !== undefined) add('max', dataPoint.max, schema.max)
 
     // Check attributes
-    if (schema?.attributes) {
-      for (const expectedAttr of schema.attributes) {
-        if (!hasAttribute(dataPoint.attributes ?? [], expectedAttr)) return false
-      }
+    for (const expectedAttr of schema?.attributes ?? []) {
+      results.push({
+        criterion: expectedAttr.key,
+        mismatch: describeAttributeMismatch(dataPoint.attributes ?? [], expectedAttr),
+      })
     }
 
-    // Check semantic attributes
-    if (this.semanticAttributes.length > 0) {
-      for (const expectedAttr of this.semanticAttributes) {
-        const matches = dataPoint.attributes?.some((attr) => attr.key === expectedAttr)
-        if (!matches) return false
-      }
+    // Check semantic attributes, unless an expected value already requires them
+    const expectedKeys = (schema?.attributes ?? []).map((attribute) => attribute.key)
+    for (const key of this.semanticAttributes.filter((semanticKey) => !expectedKeys.includes(semanticKey))) {
+      results.push({
+        criterion: key,
+        mismatch: dataPoint.attributes?.some((attr) => attr.key === key) ? undefined : 'missing',
+      })
     }
 
-    return true
+    return results
   }
 
-  getDataPointDescription(dataPoint: HistogramDataPoint): Record<string, unknown> {
+  getDataPointDescription(dataPoint: HistogramDataPointSchema): Record<string, unknown> {
     const parts: Record<string, unknown> = { ...dataPoint }
 
     if (dataPoint.attributes) {
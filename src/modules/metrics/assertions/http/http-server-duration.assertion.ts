@@ -9,7 +9,9 @@ import {
 import { ATTR_HTTP_ROUTE } from '@opentelemetry/semantic-conventions'
 
 import { MetricVerifier } from '../../verifiers'
-import { BaseMetricVerifier } from '../base-metric.verifier'
+import { Metric } from '../../models'
+import { AssertionVerifier } from '../../../shared/models'
+import { ValueMatcher } from '../../../shared/matchers'
 import { HistogramAssertion } from '../histogram'
 
 /**
@@ -40,8 +42,8 @@ export class HttpServerDurationAssertion extends HistogramAssertion {
     ATTR_HTTP_ROUTE,
   ]
 
-  constructor(parent: MetricVerifier, assertions: BaseMetricVerifier[]) {
-    super(parent, assertions)
+  constructor(parent: MetricVerifier, assertions: AssertionVerifier<Metric>[], observationWindowMs?: number) {
+    super(parent, assertions, observationWindowMs)
 
     this.schema.name = 'http.server.duration'
   }
@@ -59,7 +61,7 @@ export class HttpServerDurationAssertion extends HistogramAssertion {
    * assertion.withMethod('POST') // For POST requests
    * ```
    */
-  withMethod(method: string): this {
+  withMethod(method: string | ValueMatcher): this {
     this.withAttribute(ATTR_HTTP_METHOD, method)
 
     return this
@@ -79,7 +81,7 @@ export class HttpServerDurationAssertion extends HistogramAssertion {
    * assertion.withStatusCode(500) // Server error requests
    * ```
    */
-  withStatusCode(statusCode: number): this {
+  withStatusCode(statusCode: number | ValueMatcher): this {
     this.withAttribute(ATTR_HTTP_STATUS_CODE, statusCode)
 
     return this
@@ -99,7 +101,7 @@ export class HttpServerDurationAssertion extends HistogramAssertion {
    * assertion.withRoute('/api/orders') // Collection endpoint
    * ```
    */
-  withRoute(route: string): this {
+  withRoute(route: string | ValueMatcher): this {
     this.withAttribute(ATTR_HTTP_ROUTE, route)
 
     return this
@@ -1,3 +1,7 @@
 export * from './histogram'
 export * from './http'
 export * from './base-metric.assertion'
+export * from './metric.assertion'
+export * from './metric.assertion-verifier'
+export * from './metric-attribute-policy.verifier'
+export * from './unique-data-point.verifier'
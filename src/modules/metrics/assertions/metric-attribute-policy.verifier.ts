@@ -0,0 +1,49 @@
+import * as assert from 'assert'
+
+import { Exemplar, Metric } from '../models'
+import { AssertionVerifier, Attribute, AttributePolicy } from '../../shared/models'
+import { findAttributePolicyViolations, toArray } from '../../shared/utils'
+
+export class MetricAttributePolicyVerifier implements AssertionVerifier<Metric> {
+  constructor(private readonly policy: AttributePolicy) {}
+
+  verify(metrics: Metric[]): void {
+    const violations = new Set<string>()
+
+    for (const metric of metrics) {
+      for (const dataPoint of this.getDataPoints(metric)) {
+        findAttributePolicyViolations(toArray(dataPoint.attributes), this.policy).forEach((violation) =>
+          violations.add(`data point of metric "${metric.name}": ${violation}`),
+        )
+        dataPoint.exemplars?.forEach((exemplar) =>
+          findAttributePolicyViolations(exemplar.filteredAttributes ?? [], this.policy).forEach((violation) =>
+            violations.add(`exemplar of a data point of metric "${metric.name}": ${violation}`),
+          ),
+        )
+      }
+      // Metrics of the same scope or resource share its attributes, so each violation is reported once
+      findAttributePolicyViolations(metric.scope?.attributes ?? [], this.policy).forEach((violation) =>
+        violations.add(`scope "${metric.scope?.name}": ${violation}`),
+      )
+      findAttributePolicyViolations(metric.resourceAttributes ?? [], this.policy).forEach((violation) =>
+        violations.add(`resource: ${violation}`),
+      )
+    }
+
+    assert.ok(
+      violations.size === 0,
+      `Expected no metrics with attributes forbidden by the attribute policy, found ${violations.size} violations:\n` +
+        [...violations].map((violation) => `  - ${violation}`).join('\n'),
+    )
+  }
+
+  private getDataPoints(metric: Metric): { attributes?: Attribute[]; exemplars?: Exemplar[] }[] {
+    return [
+      ...(metric.gauge?.dataPoints ?? []),
+      ...(metric.sum?.dataPoints ?? []),
+      ...(metric.histogram?.dataPoints ?? []),
+      ...(metric.exponentialHistogram?.dataPoints ?? []),
+      ...(metric.summary?.dataPoints ?? []),
+    ]
+  }
+}
@@ -0,0 +1,12 @@
+import { BaseMetricVerifier } from './base-metric.verifier'
+import { CriterionResult } from '../../shared/models'
+
+export class MetricAssertionVerifier extends BaseMetricVerifier {
+  getDataPointCriteria(): CriterionResult[] {
+    return []
+  }
+
+  getDataPointDescription(): Record<string, unknown> {
+    return {}
+  }
+}
@@ -0,0 +1,28 @@
+import { BaseMetricAssertion } from './base-metric.assertion'
+import { MetricAssertionVerifier } from './metric.assertion-verifier'
+
+/**
+ * Provides a fluent API for asserting the properties of OpenTelemetry metrics of any type,
+ * such as their name, description, unit and resource.
+ *
+ * @example
+ * ```typescript
+ * metricVerifier
+ *   .toHaveMetric()
+ *   .withName('process.cpu.time')
+ *   .withUnit('s')
+ *   .assert()
+ * ```
+ *
+ * @example
+ * Asserting that a debug metric is not exported:
+ * ```typescript
+ * metricVerifier
+ *   .toNotHaveMetric()
+ *   .withName('debug.cache.entries')
+ *   .assert()
+ * ```
+ */
+export class MetricAssertion extends BaseMetricAssertion {
+  protected verifier = MetricAssertionVerifier
+}
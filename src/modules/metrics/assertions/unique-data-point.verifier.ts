@@ -0,0 +1,64 @@
+import * as assert from 'assert'
+
+import { Metric } from '../models'
+import { Attribute, AssertionVerifier } from '../../shared/models'
+import { formatAttributeValue } from '../../shared/utils'
+
+interface TimestampedDataPoint {
+  attributes?: Attribute[]
+  startTimeUnixNano?: unknown
+  timeUnixNano?: unknown
+}
+
+export class UniqueDataPointVerifier implements AssertionVerifier<Metric> {
+  constructor(private readonly originalStack?: string) {}
+
+  verify(metrics: Metric[]): void {
+    const occurrences = new Map<string, number>()
+    for (const metric of metrics) {
+      for (const dataPoint of this.getDataPoints(metric)) {
+        const key = this.getDataPointKey(metric, dataPoint)
+        occurrences.set(key, (occurrences.get(key) ?? 0) + 1)
+      }
+    }
+
+    const duplicates = [...occurrences.entries()].filter(([, count]) => count > 1)
+
+    try {
+      assert.ok(
+        duplicates.length === 0,
+        `Expected no duplicate data points, found ${duplicates.length} data points received more than once: ` +
+          duplicates.map(([key, count]) => `${key} x${count}`).join(', '),
+      )
+    } catch (error) {
+      if (error instanceof Error && this.originalStack) {
+        error.stack = this.originalStack
+      }
+      throw error
+    }
+  }
+
+  private getDataPoints(metric: Metric): TimestampedDataPoint[] {
+    return [
+      ...(metric.gauge?.dataPoints ?? []),
+      ...(metric.sum?.dataPoints ?? []),
+      ...(metric.histogram?.dataPoints ?? []),
+      ...(metric.exponentialHistogram?.dataPoints ?? []),
+      ...(metric.summary?.dataPoints ?? []),
+    ]
+  }
+
+  private getDataPointKey(metric: Metric, dataPoint: TimestampedDataPoint): string {
+    const formatAttributes = (attributes: Attribute[] = []) =>
+      attributes
+        .map((a) => `${a.key}=${formatAttributeValue(a.value)}`)
+        .sort()
+        .join(', ')
+
+    return (
+      `"${metric.name}" [${formatAttributes(dataPoint.attributes)}] ` +
+      `{${formatAttributes(metric.resourceAttributes)}} ` +
+      `@${String(dataPoint.startTimeUnixNano)}-${String(dataPoint.timeUnixNano)}`
+    )
+  }
+}
@@ -0,0 +1 @@
+export * from './metrics-service.codec'
@@ -0,0 +1,8 @@
+import { OTLP_PROTO_ROOT, OtlpProtobufCodec } from '../../shared/codecs'
+import { MetricExportDto, MetricExportResponseDto } from '../dtos'
+
+export const METRICS_SERVICE_CODEC = new OtlpProtobufCodec<MetricExportDto, MetricExportResponseDto>(
+  'opentelemetry.proto.collector.metrics.v1.MetricsService',
+  OTLP_PROTO_ROOT.lookupType('opentelemetry.proto.collector.metrics.v1.ExportMetricsServiceRequest'),
+  OTLP_PROTO_ROOT.lookupType('opentelemetry.proto.collector.metrics.v1.ExportMetricsServiceResponse'),
+)
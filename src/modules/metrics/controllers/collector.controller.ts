@@ -1,31 +1,28 @@
-import { Controller, Post, Body, Get } from '@nestjs/common'
+import { Controller, Post, Body, Get, UseInterceptors } from '@nestjs/common'
 
 import { MetricExportDto, MetricExportResponseDto } from '../dtos'
 import { MetricCollector } from '../collectors'
 import { Metric } from '../models'
+import { MetricReceiver } from '../receivers'
+import { METRICS_SERVICE_CODEC } from '../codecs'
+import { OtlpContentNegotiationInterceptor } from '../../transport/interceptors'
+import { HttpExportMetadata } from '../../transport/decorators'
+import { ExportRequestMetadata } from '../../transport/models'
 
 @Controller()
 export class MetricsController {
-  constructor(private readonly collector: MetricCollector) {}
+  constructor(
+    private readonly collector: MetricCollector,
+    private readonly receiver: MetricReceiver,
+  ) {}
 
   @Post('v1/metrics')
-  handleMetrics(@Body() data: MetricExportDto): MetricExportResponseDto {
-    for (const resourceMetric of data.resourceMetrics) {
-      for (const scopeMetric of resourceMetric.scopeMetrics) {
-        if (!scopeMetric.metrics) {
-          continue
-        }
-
-        const enrichedMetrics: Metric[] = scopeMetric.metrics.map((metric) => ({
-          ...metric,
-          resourceAttributes: resourceMetric.resource?.attributes || [],
-        }))
-
-        this.collector.collect(enrichedMetrics)
-      }
-    }
-
-    return {}
+  @UseInterceptors(new OtlpContentNegotiationInterceptor(METRICS_SERVICE_CODEC))
+  handleMetrics(
+    @Body() data: MetricExportDto,
+    @HttpExportMetadata() metadata: ExportRequestMetadata,
+  ): Promise<MetricExportResponseDto> {
+    return this.receiver.receive(data, metadata)
   }
 
   @Get('metrics')
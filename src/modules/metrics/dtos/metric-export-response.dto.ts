@@ -3,6 +3,6 @@ export interface MetricExportResponseDto {
 }
 
 interface ExportMetricPartialSuccess {
-  rejectedDataPoints?: number
+  rejectedDataPoints?: number | string
   errorMessage?: string
 }
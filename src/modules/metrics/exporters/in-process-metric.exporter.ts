@@ -0,0 +1,32 @@
+import { Injectable } from '@nestjs/common'
+import { PushMetricExporter, ResourceMetrics } from '@opentelemetry/sdk-metrics'
+import { JsonMetricsSerializer } from '@opentelemetry/otlp-transformer'
+
+import { MetricExportDto } from '../dtos'
+import { MetricReceiver } from '../receivers'
+import { AbstractInProcessExporter } from '../../transport/exporters'
+
+/**
+ * A `PushMetricExporter` that passes collected metrics straight to the collector, without a network round trip.
+ * Use it with a `PeriodicExportingMetricReader` and call `forceFlush()` on the reader to make the current metrics
+ * available to `verifiers.metrics` without waiting for the export interval.
+ *
+ * @example
+ * ```typescript
+ * const reader = new PeriodicExportingMetricReader({ exporter: collector.exporters.metrics })
+ * const provider = new MeterProvider({ readers: [reader] })
+ *
+ * // ... record measurements
+ *
+ * await reader.forceFlush()
+ * ```
+ */
+@Injectable()
+export class InProcessMetricExporter
+  extends AbstractInProcessExporter<ResourceMetrics, MetricExportDto>
+  implements PushMetricExporter
+{
+  constructor(receiver: MetricReceiver) {
+    super(receiver, JsonMetricsSerializer)
+  }
+}
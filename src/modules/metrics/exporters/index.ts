@@ -0,0 +1 @@
+export * from './in-process-metric.exporter'
@@ -3,12 +3,14 @@ import { Global, Module } from '@nestjs/common'
 import { MetricCollector } from './collectors'
 import { MetricsController } from './controllers'
 import { MetricVerifier } from './verifiers'
+import { MetricReceiver } from './receivers'
+import { InProcessMetricExporter } from './exporters'
 
 @Global()
 @Module({
   imports: [],
   controllers: [MetricsController],
-  providers: [MetricCollector, MetricVerifier],
-  exports: [MetricVerifier],
+  providers: [MetricCollector, MetricVerifier, MetricReceiver, InProcessMetricExporter],
+  exports: [MetricVerifier, MetricReceiver, InProcessMetricExporter],
 })
 export class MetricsModule {}
@@ -1,10 +1,10 @@
-import { Attribute } from 'src/modules/shared/models'
+import { Attribute } from '../../shared/models'
 
 export interface Exemplar {
   filteredAttributes?: Attribute[]
-  timeUnixNano?: string
+  timeUnixNano?: bigint
   asDouble?: number
-  asInt?: number
-  spanId?: string | Uint8Array
-  traceId?: string | Uint8Array
+  asInt?: number | bigint
+  spanId?: string
+  traceId?: string
 }
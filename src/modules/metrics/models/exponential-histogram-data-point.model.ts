@@ -1,11 +1,11 @@
-import { Attribute, Fixed64 } from '../../shared/models'
+import { Attribute } from '../../shared/models'
 import { Buckets } from './buckets.model'
 import { Exemplar } from './exemplar.model'
 
 export interface ExponentialHistogramDataPoint {
   attributes?: Attribute[]
-  startTimeUnixNano?: Fixed64
-  timeUnixNano?: Fixed64
+  startTimeUnixNano?: bigint
+  timeUnixNano?: bigint
   count?: number
   sum?: number
   scale?: number
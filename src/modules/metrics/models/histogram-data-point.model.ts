@@ -1,10 +1,10 @@
-import { Attribute, Fixed64 } from '../../shared/models'
+import { Attribute } from '../../shared/models'
 import { Exemplar } from './exemplar.model'
 
 export interface HistogramDataPoint {
   attributes?: Attribute[]
-  startTimeUnixNano?: Fixed64
-  timeUnixNano?: Fixed64
+  startTimeUnixNano?: bigint
+  timeUnixNano?: bigint
   count?: number
   sum?: number
   bucketCounts?: number[]
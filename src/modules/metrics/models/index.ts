@@ -1,8 +1,16 @@
+export * from './buckets.model'
+export * from './exemplar.model'
+export * from './exponential-histogram-data-point.model'
+export * from './exponential-histogram.model'
 export * from './gauge.model'
 export * from './histogram-data-point.model'
 export * from './histogram.model'
+export * from './metric-schema.model'
 export * from './metric.model'
 export * from './number-data-point.model'
 export * from './resource-metric.model'
 export * from './scope-metric.model'
+export * from './sum.model'
 export * from './summary-data-point.model'
+export * from './summary.model'
+export * from './value-at-quantile.model'
@@ -0,0 +1,22 @@
+import { Expected, ExpectedAttribute, ExpectedInstrumentationScope } from '../../shared/models'
+import { Histogram } from './histogram.model'
+import { HistogramDataPoint } from './histogram-data-point.model'
+import { Metric } from './metric.model'
+
+/**
+ * The expected properties of a metric, where names and attribute values may be matchers.
+ */
+export interface MetricSchema extends Partial<Omit<Metric, 'name' | 'histogram' | 'resourceAttributes' | 'scope'>> {
+  name?: Expected<string>
+  histogram?: HistogramSchema
+  resourceAttributes?: ExpectedAttribute[]
+  scope?: ExpectedInstrumentationScope
+}
+
+export interface HistogramSchema extends Omit<Histogram, 'dataPoints'> {
+  dataPoints: HistogramDataPointSchema[]
+}
+
+export interface HistogramDataPointSchema extends Omit<HistogramDataPoint, 'attributes'> {
+  attributes?: ExpectedAttribute[]
+}
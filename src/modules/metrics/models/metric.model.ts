@@ -1,4 +1,4 @@
-import { Attribute } from '../../shared/models'
+import { Attribute, InstrumentationScope } from '../../shared/models'
 import { ExponentialHistogram } from './exponential-histogram.model'
 import { Gauge } from './gauge.model'
 import { Histogram } from './histogram.model'
@@ -15,4 +15,7 @@ export interface Metric {
   exponentialHistogram?: ExponentialHistogram
   summary?: Summary
   resourceAttributes?: Attribute[]
+  resourceSchemaUrl?: string
+  scope?: InstrumentationScope
+  scopeSchemaUrl?: string
 }
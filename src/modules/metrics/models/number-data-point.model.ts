@@ -1,12 +1,12 @@
-import { Attribute, Fixed64 } from '../../shared/models'
+import { Attribute } from '../../shared/models'
 import { Exemplar } from './exemplar.model'
 
 export interface NumberDataPoint {
   attributes: Attribute[]
-  startTimeUnixNano?: Fixed64
-  timeUnixNano?: Fixed64
+  startTimeUnixNano?: bigint
+  timeUnixNano?: bigint
   asDouble?: number | null
-  asInt?: number
+  asInt?: number | bigint
   exemplars?: Exemplar[]
   flags?: number
 }
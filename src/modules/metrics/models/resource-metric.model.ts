@@ -4,4 +4,5 @@ import { ScopeMetric } from './scope-metric.model'
 export interface ResourceMetric {
   resource?: Resource
   scopeMetrics: ScopeMetric[]
+  schemaUrl?: string
 }
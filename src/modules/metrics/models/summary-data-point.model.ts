@@ -3,8 +3,8 @@ import { ValueAtQuantile } from './value-at-quantile.model'
 
 export interface SummaryDataPoint {
   attributes?: Attribute[]
-  startTimeUnixNano?: number
-  timeUnixNano?: string
+  startTimeUnixNano?: bigint
+  timeUnixNano?: bigint
   count?: number
   sum?: number
   quantileValues?: ValueAtQuantile[]
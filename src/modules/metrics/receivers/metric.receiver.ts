@@ -0,0 +1,164 @@
+import { Injectable } from '@nestjs/common'
+
+import { MetricCollector } from '../collectors'
+import { MetricExportDto, MetricExportResponseDto } from '../dtos'
+import {
+  Exemplar,
+  ExponentialHistogramDataPoint,
+  HistogramDataPoint,
+  Metric,
+  NumberDataPoint,
+  SummaryDataPoint,
+} from '../models'
+import { TelemetrySignal } from '../../shared/enums'
+import { Fixed64 } from '../../shared/models'
+import { formatId, normalizeAttributes, normalizeScope, toArray, toBigInt, toInteger } from '../../shared/utils'
+import { ExportRequestCollector } from '../../transport/collectors'
+import { PartialSuccessFault } from '../../transport/models'
+import { AbstractExportReceiver } from '../../transport/receivers'
+import { FaultInjector, InFlightExportTracker, LatencySimulator } from '../../transport/services'
+
+/**
+ * Receives OTLP metric export requests, regardless of the transport they arrived on,
+ * and flattens them into enriched metrics stored by the `MetricCollector`.
+ *
+ * Data points are normalized on ingest, since OTLP/JSON encodes 64-bit integers as strings:
+ * timestamps become `bigint` nanoseconds, counts become a `number`, and integer values become a `number`,
+ * or a `bigint` if they are not safe integers.
+ */
+@Injectable()
+export class MetricReceiver extends AbstractExportReceiver<MetricExportDto, MetricExportResponseDto> {
+  protected readonly signal = TelemetrySignal.METRICS
+
+  constructor(
+    private readonly collector: MetricCollector,
+    exportRequestCollector: ExportRequestCollector,
+    faultInjector: FaultInjector,
+    latencySimulator: LatencySimulator,
+    inFlightTracker: InFlightExportTracker,
+  ) {
+    super(exportRequestCollector, faultInjector, latencySimulator, inFlightTracker)
+  }
+
+  protected ingest(data: MetricExportDto): void {
+    for (const resourceMetric of data.resourceMetrics) {
+      for (const scopeMetric of resourceMetric.scopeMetrics) {
+        if (!scopeMetric.metrics) {
+          continue
+        }
+
+        const scope = normalizeScope(scopeMetric.scope)
+        const enrichedMetrics: Metric[] = scopeMetric.metrics.map((metric) => ({
+          ...this.normalizeMetric(metric),
+          resourceAttributes: normalizeAttributes(resourceMetric.resource?.attributes),
+          resourceSchemaUrl: resourceMetric.schemaUrl || undefined,
+          scope,
+          scopeSchemaUrl: scopeMetric.schemaUrl || undefined,
+        }))
+
+        this.collector.collect(enrichedMetrics)
+      }
+    }
+  }
+
+  private normalizeMetric(metric: Metric): Metric {
+    const { gauge, sum, histogram, exponentialHistogram, summary } = metric
+
+    return {
+      ...metric,
+      gauge: gauge && {
+        ...gauge,
+        dataPoints: toArray(gauge.dataPoints).map((dp) => this.normalizeNumberDataPoint(dp)),
+      },
+      sum: sum && { ...sum, dataPoints: toArray(sum.dataPoints).map((dp) => this.normalizeNumberDataPoint(dp)) },
+      histogram: histogram && {
+        ...histogram,
+        dataPoints: toArray(histogram.dataPoints).map((dp) => this.normalizeHistogramDataPoint(dp)),
+      },
+      exponentialHistogram: exponentialHistogram && {
+        ...exponentialHistogram,
+        dataPoints: toArray(exponentialHistogram.dataPoints).map((dp) =>
+          this.normalizeExponentialHistogramDataPoint(dp),
+        ),
+      },
+      summary: summary && {
+        ...summary,
+        dataPoints: toArray(summary.dataPoints).map((dp) => this.normalizeSummaryDataPoint(dp)),
+      },
+    }
+  }
+
+  private normalizeNumberDataPoint(dataPoint: NumberDataPoint): NumberDataPoint {
+    return {
+      ...dataPoint,
+      attributes: normalizeAttributes(dataPoint.attributes),
+      startTimeUnixNano: toBigInt(dataPoint.startTimeUnixNano),
+      timeUnixNano: toBigInt(dataPoint.timeUnixNano),
+      asInt: dataPoint.asInt != undefined ? toInteger(dataPoint.asInt) : undefined,
+      exemplars: toArray(dataPoint.exemplars).map((exemplar) => this.normalizeExemplar(exemplar)),
+    }
+  }
+
+  private normalizeHistogramDataPoint(dataPoint: HistogramDataPoint): HistogramDataPoint {
+    return {
+      ...dataPoint,
+      attributes: normalizeAttributes(dataPoint.attributes),
+      startTimeUnixNano: toBigInt(dataPoint.startTimeUnixNano),
+      timeUnixNano: toBigInt(dataPoint.timeUnixNano),
+      count: this.toCount(dataPoint.count),
+      bucketCounts: toArray(dataPoint.bucketCounts).map((count) => this.toCount(count)),
+      exemplars: toArray(dataPoint.exemplars).map((exemplar) => this.normalizeExemplar(exemplar)),
+    }
+  }
+
+  private normalizeExponentialHistogramDataPoint(
+    dataPoint: ExponentialHistogramDataPoint,
+  ): ExponentialHistogramDataPoint {
+    const { positive, negative } = dataPoint
+
+    return {
+      ...dataPoint,
+      attributes: normalizeAttributes(dataPoint.attributes),
+      startTimeUnixNano: toBigInt(dataPoint.startTimeUnixNano),
+      timeUnixNano: toBigInt(dataPoint.timeUnixNano),
+      count: this.toCount(dataPoint.count),
+      zeroCount: this.toCount(dataPoint.zeroCount),
+      positive: positive && { ...positive, bucketCounts: toArray(positive.bucketCounts).map((c) => this.toCount(c)) },
+      negative: negative && { ...negative, bucketCounts: toArray(negative.bucketCounts).map((c) => this.toCount(c)) },
+      exemplars: toArray(dataPoint.exemplars).map((exemplar) => this.normalizeExemplar(exemplar)),
+    }
+  }
+
+  private normalizeSummaryDataPoint(dataPoint: SummaryDataPoint): SummaryDataPoint {
+    return {
+      ...dataPoint,
+      attributes: normalizeAttributes(dataPoint.attributes),
+      startTimeUnixNano: toBigInt(dataPoint.startTimeUnixNano),
+      timeUnixNano: toBigInt(dataPoint.timeUnixNano),
+      count: this.toCount(dataPoint.count),
+    }
+  }
+
+  private normalizeExemplar(exemplar: Exemplar): Exemplar {
+    return {
+      ...exemplar,
+      filteredAttributes: normalizeAttributes(exemplar.filteredAttributes),
+      timeUnixNano: toBigInt(exemplar.timeUnixNano),
+      asInt: exemplar.asInt != undefined ? toInteger(exemplar.asInt) : undefined,
+      spanId: formatId(exemplar.spanId) || undefined,
+      traceId: formatId(exemplar.traceId) || undefined,
+    }
+  }
+
+  /**
+   * Counts are unsigned 64-bit integers, but are kept as a `number` as they cannot realistically exceed
+   * `Number.MAX_SAFE_INTEGER`.
+   */
+  private toCount(count: Fixed64 | undefined): number {
+    return Number(toBigInt(count))
+  }
+
+  protected createPartialSuccessResponse(fault: PartialSuccessFault): MetricExportResponseDto {
+    return { partialSuccess: { rejectedDataPoints: fault.rejected, errorMessage: fault.errorMessage } }
+  }
+}
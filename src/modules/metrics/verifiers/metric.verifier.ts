@@ -1,10 +1,17 @@
 import { Inject, Injectable } from '@nestjs/common'
 
 import { MetricCollector } from '../collectors'
-import { BaseMetricVerifier } from '../assertions/base-metric.verifier'
 import { COLLECTOR_MODULE_OPTIONS } from '../../shared/tokens'
-import { CollectorOptions } from '../../shared/models'
-import { HttpServerDurationAssertion, HistogramAssertion } from '../assertions'
+import { AssertionVerifier, CollectorOptions, Mark, TimeWindow } from '../../shared/models'
+import { toTimeWindow } from '../../shared/utils'
+import {
+  HttpServerDurationAssertion,
+  HistogramAssertion,
+  MetricAssertion,
+  MetricAttributePolicyVerifier,
+  UniqueDataPointVerifier,
+} from '../assertions'
+import { Metric } from '../models'
 
 /**
  * Provides a fluent API for asserting the state of OpenTelemetry metrics.
@@ -54,7 +61,10 @@ import { HttpServerDurationAssertion, HistogramAssertion } from '../assertions'
  */
 @Injectable()
 export class MetricVerifier {
-  private readonly assertions: BaseMetricVerifier[] = []
+  private readonly assertions: AssertionVerifier<Metric>[] = []
+
+  /** When set, assertions only consider the telemetry of this time window. */
+  private window?: TimeWindow
 
   constructor(
     private readonly collector: MetricCollector,
@@ -145,13 +155,195 @@ export class MetricVerifier {
     return new HistogramAssertion(this, this.assertions)
   }
 
+  /**
+   * Asserts that a metric of any type is present.
+   *
+   * @returns A `MetricAssertion` to chain further assertions.
+   *
+   * @example
+   * ```typescript
+   * metricVerifier
+   *   .toHaveMetric()
+   *   .withName('process.cpu.time')
+   *   .assert()
+   * ```
+   */
+  toHaveMetric(): MetricAssertion {
+    return new MetricAssertion(this, this.assertions)
+  }
+
+  /**
+   * Asserts that no matching `http.server.duration` histogram is received within the observation window.
+   *
+   * @param observationWindowMs The time in milliseconds the absence must hold for.
+   * Default: the `observationWindow` of the collector options.
+   * @returns An `HttpServerDurationAssertion` to chain further assertions.
+   *
+   * @example
+   * ```typescript
+   * // Health checks must not be measured
+   * metricVerifier
+   *   .toNotHaveHttpServerDuration()
+   *   .withRoute('/health')
+   *   .assert()
+   * ```
+   */
+  toNotHaveHttpServerDuration(
+    observationWindowMs: number = this.options.observationWindow,
+  ): HttpServerDurationAssertion {
+    return new HttpServerDurationAssertion(this, this.assertions, observationWindowMs)
+  }
+
+  /**
+   * Asserts that no matching histogram is received within the observation window.
+   *
+   * @param observationWindowMs The time in milliseconds the absence must hold for.
+   * Default: the `observationWindow` of the collector options.
+   * @returns A `HistogramAssertion` to chain further assertions.
+   *
+   * @example
+   * ```typescript
+   * metricVerifier
+   *   .toNotHaveHistogram()
+   *   .withName('order.processing.duration')
+   *   .withAttribute('order.type', 'test')
+   *   .assert()
+   * ```
+   */
+  toNotHaveHistogram(observationWindowMs: number = this.options.observationWindow): HistogramAssertion {
+    return new HistogramAssertion(this, this.assertions, observationWindowMs)
+  }
+
+  /**
+   * Asserts that no matching metric of any type is received within the observation window.
+   * Unlike the other assertions, which pass as soon as a matching metric is present,
+   * this keeps checking every metric received until the window has elapsed.
+   *
+   * @param observationWindowMs The time in milliseconds the absence must hold for.
+   * Default: the `observationWindow` of the collector options.
+   * @returns A `MetricAssertion` to chain further assertions.
+   *
+   * @example
+   * ```typescript
+   * // The debug metric must not be exported in production mode
+   * metricVerifier
+   *   .toNotHaveMetric(10000)
+   *   .withName('debug.cache.entries')
+   *   .assert()
+   * ```
+   */
+  toNotHaveMetric(observationWindowMs: number = this.options.observationWindow): MetricAssertion {
+    return new MetricAssertion(this, this.assertions, observationWindowMs)
+  }
+
+  /**
+   * Asserts that no data point was received more than once, i.e. that no two collected data points share
+   * the same metric name, attributes, resource attributes and timestamps. Use this together with fault
+   * injection to verify that retried exports do not produce duplicate telemetry.
+   *
+   * @returns The `MetricVerifier` instance to chain further assertions.
+   *
+   * @example
+   * ```typescript
+   * await metricVerifier
+   *   .toHaveHistogram()
+   *   .withName('order.processing.duration')
+   *   .assert()
+   *   .toHaveNoDuplicateDataPoints()
+   *   .assertAll()
+   * ```
+   */
+  toHaveNoDuplicateDataPoints(): MetricVerifier {
+    const error = new Error()
+
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    Error.captureStackTrace(error, this.toHaveNoDuplicateDataPoints)
+
+    this.assertions.push(new UniqueDataPointVerifier(error.stack))
+
+    return this
+  }
+
+  /**
+   * Starts an assertion session, i.e. a verifier with its own queue of assertions.
+   * Use a session per test when tests share a collector, so that each `assertAll()` only verifies
+   * the metric assertions of its own test. Sessions verify the same collected metrics.
+   *
+   * @returns A new `MetricVerifier` with an empty queue of assertions.
+   *
+   * @example
+   * ```typescript
+   * await metricVerifier
+   *   .expect()
+   *   .toHaveHistogram()
+   *   .withName('order.processing.duration')
+   *   .assert()
+   *   .assertAll()
+   * ```
+   */
+  expect(): MetricVerifier {
+    return this.within(this.window)
+  }
+
+  /**
+   * Starts an assertion session that only considers the metrics of the time window since a mark.
+   * Use this when tests share a collector, so that they do not match the telemetry of earlier tests.
+   *
+   * @param mark The mark created with `Collector.mark()` where the window starts.
+   * @returns A new `MetricVerifier` with an empty queue of assertions.
+   *
+   * @example
+   * ```typescript
+   * const mark = collector.mark()
+   *
+   * // ... exercise the application
+   *
+   * await metricVerifier.since(mark).toHaveHistogram().withName('order.processing.duration').assert().assertAll()
+   * ```
+   */
+  since(mark: Mark): MetricVerifier {
+    return this.within(toTimeWindow(mark))
+  }
+
+  /**
+   * Starts an assertion session that only considers the metrics of the time window between two marks.
+   *
+   * @param from The mark created with `Collector.mark()` where the window starts.
+   * @param to The mark created with `Collector.mark()` where the window ends.
+   * @returns A new `MetricVerifier` with an empty queue of assertions.
+   * @throws Error If the end mark precedes the start mark.
+   *
+   * @example
+   * ```typescript
+   * const before = collector.mark()
+   * // ... exercise the application
+   * const after = collector.mark()
+   *
+   * await metricVerifier.between(before, after).toHaveHistogram().withName('order.processing.duration').assert().assertAll()
+   * ```
+   */
+  between(from: Mark, to: Mark): MetricVerifier {
+    return this.within(toTimeWindow(from, to))
+  }
+
+  /**
+   * Removes all assertions chained on this verifier, without verifying them.
+   * Sessions started with `expect()` keep their own assertions.
+   */
+  reset(): void {
+    this.assertions.length = 0
+  }
+
   /**
    * Executes all chained assertions.
    * This method will wait for the necessary metrics to be collected,
    * retrying until all assertions pass or a timeout is reached.
+   * The queue of assertions is emptied, so that the next `assertAll()` does not verify them again,
+   * whether they passed or not.
    *
    * @returns A `Promise` that resolves when all assertions pass.
    * @throws {AssertionError} If any assertion fails during verification.
+   * @throws {AssertionError} If collected metrics carry attributes forbidden by the `attributePolicy` option.
    * @throws {Error} If a timeout is reached before assertions can be evaluated.
    *
    * @example
@@ -199,10 +391,19 @@ export class MetricVerifier {
    * ```
    */
   async assertAll(): Promise<void> {
-    // Reactive approach: try assertions on each new data batch
-    await this.collector.waitForAssertions((metrics) => {
-      // Run all assertions - if any fail, this will throw
-      this.assertions.forEach((assertion) => assertion.verify(metrics))
-    }, this.options.timeout)
+    // Reactive approach: retry assertions on each new data batch,
+    // while assertions on the absence of data must hold for their whole observation window
+    await this.collector.verifyAssertions(this.assertions.splice(0), this.options.timeout, this.window)
+
+    // The attribute policy applies to everything collected by the time the assertions pass
+    if (this.options.attributePolicy) {
+      new MetricAttributePolicyVerifier(this.options.attributePolicy).verify(this.collector.retrieve(this.window))
+    }
+  }
+
+  private within(window?: TimeWindow): MetricVerifier {
+    const session = new MetricVerifier(this.collector, this.options)
+    session.window = window
+    return session
   }
 }
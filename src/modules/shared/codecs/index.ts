@@ -0,0 +1 @@
+export * from './otlp-protobuf.codec'
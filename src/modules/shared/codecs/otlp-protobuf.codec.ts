@@ -0,0 +1,121 @@
+import { join } from 'node:path'
+import { IConversionOptions, Root, Type } from 'protobufjs'
+
+/**
+ * The directory containing the vendored `.proto` definitions, relative to both `src` and `dist`.
+ */
+const PROTOS_DIRECTORY = join(__dirname, '../../../../protos')
+
+const OTLP_PROTO_FILES = [
+  'opentelemetry/proto/collector/trace/v1/trace_service.proto',
+  'opentelemetry/proto/collector/metrics/v1/metrics_service.proto',
+  'opentelemetry/proto/collector/logs/v1/logs_service.proto',
+  'google/rpc/status.proto',
+]
+
+const loadProtoRoot = (files: string[]): Root => {
+  const root = new Root()
+
+  root.resolvePath = (_origin, target) => join(PROTOS_DIRECTORY, target)
+
+  return root.loadSync(files)
+}
+
+/**
+ * A protobuf message type of the OTLP protocol, e.g. `opentelemetry.proto.collector.trace.v1.ExportTraceServiceRequest`
+ * or the `google.rpc.Status` returned by failed exports.
+ */
+export type ProtobufMessageType = Type
+
+export const OTLP_PROTO_ROOT = loadProtoRoot(OTLP_PROTO_FILES)
+
+/**
+ * Decodes 64-bit integers as strings and bytes as base64 strings, as OTLP/JSON does, since nanosecond timestamps
+ * exceed `Number.MAX_SAFE_INTEGER`. The receivers normalize them when ingesting the telemetry data.
+ */
+const CONVERSION_OPTIONS: IConversionOptions = {
+  longs: String,
+  enums: Number,
+  bytes: String,
+  defaults: true,
+  arrays: true,
+}
+
+/**
+ * Fields holding trace and span IDs, which OTLP/JSON encodes as hex strings rather than base64.
+ */
+const ID_FIELDS = new Set(['traceId', 'spanId', 'parentSpanId'])
+
+/**
+ * Returns a copy of the given plain object with the trace and span IDs converted by the given function.
+ */
+const convertIds = (value: unknown, convert: (id: string) => string): unknown => {
+  if (Array.isArray(value)) {
+    return value.map((item) => convertIds(item, convert))
+  }
+
+  if (typeof value !== 'object' || value === null || ArrayBuffer.isView(value)) {
+    return value
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      ID_FIELDS.has(key) && typeof item === 'string' ? convert(item) : convertIds(item, convert),
+    ]),
+  )
+}
+
+const base64ToHex = (id: string): string => Buffer.from(id, 'base64').toString('hex')
+
+const hexToBase64 = (id: string): string => Buffer.from(id, 'hex').toString('base64')
+
+/**
+ * Encodes and decodes the protobuf messages of a single OTLP collector service
+ * (e.g. `opentelemetry.proto.collector.trace.v1.TraceService`).
+ *
+ * Decoded messages are converted to plain objects that follow the same shape as the OTLP/JSON payloads,
+ * including hex-encoded trace and span IDs, so they can be handled by the same receivers regardless of the
+ * transport they arrived on.
+ *
+ * @template Request The plain object type of the export request.
+ * @template Response The plain object type of the export response.
+ *
+ * @example
+ * ```typescript
+ * const codec = new OtlpProtobufCodec<TraceExportDto, TraceExportResponseDto>(
+ *   'opentelemetry.proto.collector.trace.v1.TraceService',
+ *   OTLP_PROTO_ROOT.lookupType('opentelemetry.proto.collector.trace.v1.ExportTraceServiceRequest'),
+ *   OTLP_PROTO_ROOT.lookupType('opentelemetry.proto.collector.trace.v1.ExportTraceServiceResponse'),
+ * )
+ *
+ * const data = codec.decodeRequest(buffer)
+ * ```
+ */
+export class OtlpProtobufCodec<Request extends object, Response extends object> {
+  constructor(
+    readonly serviceName: string,
+    private readonly requestType: ProtobufMessageType,
+    private readonly responseType: ProtobufMessageType,
+  ) {}
+
+  decodeRequest(buffer: Uint8Array): Request {
+    const request = this.requestType.toObject(this.requestType.decode(buffer), CONVERSION_OPTIONS)
+
+    return convertIds(request, base64ToHex) as Request
+  }
+
+  encodeRequest(request: Request): Buffer {
+    const message = this.requestType.fromObject(convertIds(request, hexToBase64) as Record<string, unknown>)
+
+    return Buffer.from(this.requestType.encode(message).finish())
+  }
+
+  decodeResponse(buffer: Uint8Array): Response {
+    return this.responseType.toObject(this.responseType.decode(buffer), CONVERSION_OPTIONS) as Response
+  }
+
+  encodeResponse(response: Response): Buffer {
+    return Buffer.from(this.responseType.encode(this.responseType.fromObject(response)).finish())
+  }
+}
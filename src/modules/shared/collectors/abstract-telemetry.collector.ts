@@ -1,6 +1,9 @@
 import { AssertionError } from 'assert'
 import { Subject } from 'rxjs'
 
+import { AssertionVerifier, TimeWindow } from '../models'
+import { nextSequence } from '../utils'
+
 /**
  * Provides a base for collecting OpenTelemetry telemetry data (spans, metrics, etc.) for testing purposes.
  * It buffers telemetry data and allows for reactive assertions that are evaluated as data arrives,
@@ -23,13 +26,16 @@ import { Subject } from 'rxjs'
  * }, 30000)
  * ```
  */
-export abstract class AbstractTelemetryCollector<T> {
+export abstract class AbstractTelemetryCollector<T extends object> {
   /** Notifies subscribers when new telemetry data is collected. */
   private readonly updateSubject = new Subject<void>()
 
   /** A buffer of the collected telemetry data. */
   private telemetryData: T[] = []
 
+  /** The sequence number of the receipt of each item of telemetry data, to order it relative to marks. */
+  private readonly receiveSequences = new WeakMap<T, number>()
+
   /**
    * Adds telemetry data to the collector's buffer and notifies any active assertions.
    *
@@ -42,14 +48,18 @@ export abstract class AbstractTelemetryCollector<T> {
    * ```
    */
   collect(data: T[]): void {
+    const sequence = nextSequence()
+    data.forEach((item) => this.receiveSequences.set(item, sequence))
+
     this.telemetryData.push(...data)
     this.updateSubject.next()
   }
 
   /**
-   * Retrieves all telemetry data currently in the buffer.
+   * Retrieves the telemetry data currently in the buffer.
    *
-   * @returns An array of all collected telemetry data items.
+   * @param window When set, only the telemetry data of this time window is retrieved.
+   * @returns An array of the collected telemetry data items.
    *
    * @example
    * ```typescript
@@ -57,8 +67,28 @@ export abstract class AbstractTelemetryCollector<T> {
    * console.log(`Collected ${allSpans.length} spans`)
    * ```
    */
-  retrieve(): T[] {
-    return this.telemetryData
+  retrieve(window?: TimeWindow): T[] {
+    return this.filterByTimeWindow(this.telemetryData, window)
+  }
+
+  /**
+   * Checks whether an item of telemetry data belongs to a time window.
+   * By default, this is the case when the item was received within the window.
+   *
+   * @param item The collected telemetry data item.
+   * @param window The time window.
+   */
+  protected isWithinTimeWindow(item: T, window: TimeWindow): boolean {
+    const sequence = this.receiveSequences.get(item) ?? 0
+
+    return (
+      (window.from === undefined || sequence > window.from.sequence) &&
+      (window.to === undefined || sequence < window.to.sequence)
+    )
+  }
+
+  private filterByTimeWindow(data: T[], window?: TimeWindow): T[] {
+    return window ? data.filter((item) => this.isWithinTimeWindow(item, window)) : data
   }
 
   /**
@@ -84,6 +114,7 @@ export abstract class AbstractTelemetryCollector<T> {
    *
    * @param assertionFn A function that throws an `AssertionError` if the collected data does not meet expectations.
    * @param timeoutMs The maximum time to wait for the assertions to pass, in milliseconds.
+   * @param signal When aborted, stops waiting and rejects with the abort reason.
    * @returns A `Promise` that resolves with the collected data when the assertions pass.
    * @throws {AssertionError} If the assertions do not pass within the specified timeout.
    * @throws {Error} If a timeout occurs before any assertion attempts.
@@ -104,7 +135,7 @@ export abstract class AbstractTelemetryCollector<T> {
    * }, 15000)
    * ```
    */
-  async waitForAssertions(assertionFn: (data: T[]) => void, timeoutMs: number): Promise<T[]> {
+  async waitForAssertions(assertionFn: (data: T[]) => void, timeoutMs: number, signal?: AbortSignal): Promise<T[]> {
     let failedAssertion: AssertionError | null = null
 
     // Try assertions with current data first
@@ -119,12 +150,23 @@ export abstract class AbstractTelemetryCollector<T> {
     }
 
     return new Promise((resolve, reject) => {
+      const stop = (): void => {
+        subscription.unsubscribe()
+        clearTimeout(timeout)
+        signal?.removeEventListener('abort', abort)
+      }
+      const abort = (): void => {
+        stop()
+        const reason: unknown = signal?.reason
+        reject(reason instanceof Error ? reason : new Error(String(reason)))
+      }
+
       const subscription = this.updateSubject.subscribe(() => {
         // Try assertions with new data
         try {
           assertionFn(this.telemetryData)
           failedAssertion = null
-          subscription.unsubscribe()
+          stop()
           resolve(this.telemetryData)
         } catch (error) {
           if (error instanceof AssertionError) {
@@ -136,14 +178,111 @@ export abstract class AbstractTelemetryCollector<T> {
       })
 
       // Set up timeout fallback
-      setTimeout(() => {
-        subscription.unsubscribe()
+      const timeout = setTimeout(() => {
+        stop()
         if (failedAssertion) {
           reject(failedAssertion)
         } else {
           reject(new Error(`Assertion timeout after ${timeoutMs}ms. Current data count: ${this.telemetryData.length}`))
         }
       }, timeoutMs)
+
+      signal?.addEventListener('abort', abort, { once: true })
+    })
+  }
+
+  /**
+   * Observes the collected telemetry data for a period of time, requiring a set of assertions to hold throughout.
+   *
+   * This method runs the assertion function against the current data and again whenever new data arrives,
+   * failing as soon as the assertions no longer hold. Use this for assertions on the absence of data,
+   * which would otherwise pass immediately, before the data they should rule out had a chance to arrive.
+   *
+   * @param assertionFn A function that throws an `AssertionError` if the collected data does not meet expectations.
+   * @param windowMs The time to observe the collected data for, in milliseconds.
+   * @param signal When aborted, stops observing and rejects with the abort reason.
+   * @returns A `Promise` that resolves with the collected data once the window has elapsed.
+   * @throws {AssertionError} If the assertions stop holding within the window.
+   *
+   * @example
+   * ```typescript
+   * // Require that no health check span arrives within 2 seconds
+   * await collector.observeAssertions((spans) => {
+   *   assert(!spans.some(s => s.name === 'GET /health'), 'Expected no health check span')
+   * }, 2000)
+   * ```
+   */
+  async observeAssertions(assertionFn: (data: T[]) => void, windowMs: number, signal?: AbortSignal): Promise<T[]> {
+    assertionFn(this.telemetryData)
+
+    return new Promise((resolve, reject) => {
+      const stop = (): void => {
+        subscription.unsubscribe()
+        clearTimeout(timeout)
+        signal?.removeEventListener('abort', abort)
+      }
+      const abort = (): void => {
+        stop()
+        const reason: unknown = signal?.reason
+        reject(reason instanceof Error ? reason : new Error(String(reason)))
+      }
+
+      const subscription = this.updateSubject.subscribe(() => {
+        try {
+          assertionFn(this.telemetryData)
+        } catch (error) {
+          stop()
+          reject(error instanceof Error ? error : new Error(String(error)))
+        }
+      })
+
+      const timeout = setTimeout(() => {
+        stop()
+        resolve(this.telemetryData)
+      }, windowMs)
+
+      signal?.addEventListener('abort', abort, { once: true })
+    })
+  }
+
+  /**
+   * Verifies a set of registered assertions against the collected telemetry data.
+   *
+   * Assertions with an observation window must hold for the whole window and fail as soon as they are violated,
+   * while all other assertions are retried as new data arrives until they pass or the timeout is reached.
+   * As soon as one of them fails, the others stop waiting.
+   *
+   * @param assertions The assertions to verify.
+   * @param timeoutMs The maximum time to wait for the assertions to pass, in milliseconds.
+   * @param window When set, the assertions only consider the telemetry data of this time window.
+   * @returns A `Promise` that resolves when all assertions pass.
+   * @throws {AssertionError} If any assertion fails during verification.
+   * @throws {Error} If a timeout is reached before assertions can be evaluated.
+   */
+  async verifyAssertions(assertions: AssertionVerifier<T>[], timeoutMs: number, window?: TimeWindow): Promise<void> {
+    const expectations = assertions.filter((assertion) => assertion.observationWindowMs === undefined)
+    const invariants = assertions.filter((assertion) => assertion.observationWindowMs !== undefined)
+    const verify = (assertion: AssertionVerifier<T>, data: T[]) =>
+      assertion.verify(this.filterByTimeWindow(data, window))
+
+    const controller = new AbortController()
+
+    await Promise.all([
+      this.waitForAssertions(
+        (data) => expectations.forEach((assertion) => verify(assertion, data)),
+        timeoutMs,
+        controller.signal,
+      ),
+      ...invariants.map((assertion) =>
+        this.observeAssertions(
+          (data) => verify(assertion, data),
+          assertion.observationWindowMs ?? 0,
+          controller.signal,
+        ),
+      ),
+    ]).catch((error: unknown) => {
+      controller.abort(error)
+      throw error
     })
   }
 }
@@ -0,0 +1 @@
+export * from './telemetry-signal.enum'
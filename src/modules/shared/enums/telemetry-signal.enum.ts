@@ -0,0 +1,5 @@
+export enum TelemetrySignal {
+  TRACES = 'traces',
+  METRICS = 'metrics',
+  LOGS = 'logs',
+}
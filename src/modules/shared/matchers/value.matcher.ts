@@ -0,0 +1,109 @@
+/**
+ * Matches an expected value by a condition instead of by equality.
+ * Matchers are accepted by assertions wherever an exact value is expected, e.g. for attributes or names.
+ * Use the `match` factory to create them.
+ */
+export class ValueMatcher {
+  constructor(
+    readonly description: string,
+    private readonly predicate: (value: unknown) => boolean,
+  ) {}
+
+  matches(value: unknown): boolean {
+    return this.predicate(value)
+  }
+
+  /**
+   * Renders the matcher by its description when an assertion describes its expectations.
+   */
+  toJSON(): string {
+    return this.description
+  }
+
+  toString(): string {
+    return this.description
+  }
+}
+
+/**
+ * Creates value matchers for assertions on dynamic values, such as IDs, ports or durations.
+ *
+ * @example
+ * ```typescript
+ * await verifiers.spans
+ *   .toHaveSpan()
+ *   .withName(match.regex(/^GET \/api\/users/))
+ *   .withAttribute('http.target', match.regex(/^\/api\/users\/[0-9a-f-]{36}$/))
+ *   .withAttribute('net.host.port', match.range(1024, 65535))
+ *   .withAttribute('http.method', match.oneOf('GET', 'HEAD'))
+ *   .withAttribute('http.user_agent', match.anyString())
+ *   .assert()
+ *   .assertAll()
+ * ```
+ */
+export const match = {
+  /**
+   * Matches strings containing the pattern. Anchor the pattern to match the whole string.
+   */
+  regex(pattern: RegExp | string): ValueMatcher {
+    const regex = typeof pattern === 'string' ? new RegExp(pattern) : pattern
+
+    return new ValueMatcher(
+      `matching ${regex.toString()}`,
+      (value) => typeof value === 'string' && value.search(regex) >= 0,
+    )
+  },
+
+  /**
+   * Matches numbers between `min` and `max`, both inclusive. Integers received as `bigint` are compared by value.
+   */
+  range(min: number, max: number): ValueMatcher {
+    if (min > max) {
+      throw new Error(`The minimum of a range cannot exceed its maximum, got ${min} and ${max}`)
+    }
+
+    return new ValueMatcher(
+      `between ${min} and ${max}`,
+      (value) => (typeof value === 'number' || typeof value === 'bigint') && value >= min && value <= max,
+    )
+  },
+
+  /**
+   * Matches any of the given values.
+   */
+  oneOf(...values: (string | number | boolean)[]): ValueMatcher {
+    return new ValueMatcher(`one of ${values.map((value) => JSON.stringify(value)).join(', ')}`, (value) =>
+      values.some((expected) => expected === value),
+    )
+  },
+
+  /**
+   * Matches any string, including an empty one.
+   */
+  anyString(): ValueMatcher {
+    return new ValueMatcher('any string', (value) => typeof value === 'string')
+  },
+
+  /**
+   * Matches any integer or floating point number, including integers received as `bigint`.
+   */
+  anyNumber(): ValueMatcher {
+    return new ValueMatcher('any number', (value) => typeof value === 'number' || typeof value === 'bigint')
+  },
+
+  /**
+   * Matches `true` and `false`.
+   */
+  anyBoolean(): ValueMatcher {
+    return new ValueMatcher('any boolean', (value) => typeof value === 'boolean')
+  },
+
+  /**
+   * Matches values for which the predicate returns `true`.
+   *
+   * @param description Describes the predicate in assertion messages.
+   */
+  predicate<T = unknown>(predicate: (value: T) => boolean, description = 'matching a predicate'): ValueMatcher {
+    return new ValueMatcher(description, (value) => predicate(value as T))
+  },
+}
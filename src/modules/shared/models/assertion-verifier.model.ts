@@ -0,0 +1,18 @@
+/**
+ * Verifies a registered assertion against the collected telemetry data.
+ *
+ * @template T The type of telemetry data being verified (e.g., Span, Metric).
+ */
+export interface AssertionVerifier<T> {
+  /**
+   * The time in milliseconds during which the assertion must keep holding, for assertions on the absence of data.
+   * Such assertions are checked against every batch of data received within the window, instead of being retried
+   * until they pass. Not set for assertions that are expected to eventually pass.
+   */
+  readonly observationWindowMs?: number
+
+  /**
+   * @throws {AssertionError} If the collected telemetry data does not satisfy the assertion.
+   */
+  verify(data: T[]): void
+}
@@ -0,0 +1,23 @@
+import { ValueMatcher } from '../matchers'
+
+/**
+ * Attributes that must never be exported, e.g. to prove that no personal data or secrets leak into telemetry.
+ * Keys and values are checked at any depth of array and key-value list attribute values.
+ *
+ * @example
+ * ```typescript
+ * const policy: AttributePolicy = {
+ *   forbiddenKeys: ['http.request.header.authorization', /password/i],
+ *   forbiddenValues: [/[\w.+-]+@[\w-]+\.[\w.]+/, /\b(?:\d[ -]?){13,16}\b/],
+ * }
+ * ```
+ */
+export interface AttributePolicy {
+  /** Attribute keys that must not be present, either exactly or matching a regular expression. */
+  forbiddenKeys?: (string | RegExp)[]
+  /**
+   * Attribute values that must not be present. Regular expressions are searched for in string values,
+   * while matchers are applied to every value.
+   */
+  forbiddenValues?: (RegExp | ValueMatcher)[]
+}
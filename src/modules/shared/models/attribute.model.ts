@@ -6,7 +6,7 @@ export interface Attribute {
 export interface AttributeValue {
   stringValue?: string | null
   boolValue?: boolean | null
-  intValue?: number | null
+  intValue?: number | bigint | null
   doubleValue?: number | null
   arrayValue?: AttributeArrayValue
   kvlistValue?: AttributeKeyValueList
@@ -18,5 +18,18 @@ export interface AttributeArrayValue {
 }
 
 export interface AttributeKeyValueList {
-  values: AttributeValue[]
+  values: Attribute[]
 }
+
+/**
+ * An attribute value as a plain JavaScript value.
+ * Arrays map to `arrayValue`, objects to `kvlistValue`, byte arrays to `bytesValue` and bigints to `intValue`.
+ */
+export type PlainAttributeValue =
+  | string
+  | number
+  | bigint
+  | boolean
+  | Uint8Array
+  | PlainAttributeValue[]
+  | { [key: string]: PlainAttributeValue }
@@ -0,0 +1,19 @@
+/**
+ * The number of items an assertion expects to match.
+ * Set `exactly` for a fixed number, or `atLeast` and/or `atMost` for a range.
+ *
+ * @example
+ * ```typescript
+ * const exactlyOne: Cardinality = { exactly: 1 }
+ * const someRetries: Cardinality = { atLeast: 2, atMost: 5 }
+ * const noMoreThanThree: Cardinality = { atMost: 3 }
+ * ```
+ */
+export interface Cardinality {
+  /** The exact number of matching items. Cannot be combined with `atLeast` or `atMost`. */
+  exactly?: number
+  /** The minimum number of matching items, inclusive. */
+  atLeast?: number
+  /** The maximum number of matching items, inclusive. */
+  atMost?: number
+}
@@ -1,14 +1,20 @@
+import { AttributePolicy } from './attribute-policy.model'
+import { ExportLatency } from './export-latency.model'
+import { TelemetrySignal } from '../enums'
+
 /**
  * Configuration options for the test collector.
  *
  * These options control how the mock OTLP collector behaves during testing,
- * including which port it listens on and how long to wait for assertions to pass.
+ * including which ports it listens on and how long to wait for assertions to pass.
  *
  * @example
  * ```typescript
  * const options: CollectorOptions = {
- *   port: 4317,        // Standard OTLP gRPC port
- *   timeout: 30000     // 30 second timeout for assertions
+ *   port: 4318,        // Standard OTLP HTTP port
+ *   grpcPort: 4317,    // Standard OTLP gRPC port
+ *   timeout: 30000,    // 30 second timeout for assertions
+ *   observationWindow: 1000 // Absence assertions must hold for 1 second
  * }
  *
  * const collector = new Collector(options)
@@ -16,8 +22,9 @@
  */
 export interface CollectorOptions {
   /**
-   * The port for the mock OTLP collector to listen on.
+   * The port for the mock OTLP/HTTP collector to listen on.
    * This should match the port configured in your application's OTLP exporter.
+   * Use `0` to listen on an ephemeral port, which is reported by `Collector.endpoints` once started.
    *
    * @default 4317
    *
@@ -31,10 +38,97 @@ export interface CollectorOptions {
    *
    * // Use custom port to avoid conflicts
    * { port: 5555 }
+   *
+   * // Let the OS pick a free port, e.g. to run test files in parallel
+   * { port: 0 }
    * ```
    */
   port: number
 
+  /**
+   * The port for the mock OTLP/gRPC collector to listen on.
+   * When not set, the gRPC receiver is disabled and only OTLP/HTTP is served.
+   * Use `0` to listen on an ephemeral port, which is reported by `Collector.endpoints` once started.
+   *
+   * The gRPC receiver serves the `TraceService/Export`, `MetricsService/Export` and `LogsService/Export` methods
+   * and feeds the same verifiers as the HTTP receiver.
+   *
+   * @example
+   * ```typescript
+   * // Serve OTLP/HTTP on 4318 and OTLP/gRPC on the standard gRPC port
+   * { port: 4318, grpcPort: 4317 }
+   * ```
+   */
+  grpcPort?: number
+
+  /**
+   * Whether to serve OTLP/HTTP and OTLP/gRPC.
+   * Disable this when all telemetry is exported in-process through `Collector.exporters`,
+   * so that the collector does not occupy any port.
+   *
+   * @default true
+   *
+   * @example
+   * ```typescript
+   * // Only receive telemetry from in-process exporters
+   * { listen: false }
+   * ```
+   */
+  listen?: boolean
+
+  /**
+   * The latency added to the responses of export requests, per signal.
+   * Use this to simulate a slow backend, e.g. to reproduce exporter timeouts or a full `BatchSpanProcessor` queue.
+   * The latency can also be changed at runtime through `Collector.latency`.
+   *
+   * @example
+   * ```typescript
+   * // Respond to trace exports after 2 to 2.5 seconds
+   * { latency: { [TelemetrySignal.TRACES]: { delayMs: 2000, jitterMs: 500 } } }
+   * ```
+   */
+  latency?: Partial<Record<TelemetrySignal, ExportLatency>>
+
+  /**
+   * Attributes that must never be exported. When set, `assertAll()` of every verifier also checks all collected
+   * spans, span events and links, metric data points and exemplars, log records, and their instrumentation scopes
+   * and resources against the policy, and fails with the offending items.
+   *
+   * @example
+   * ```typescript
+   * {
+   *   attributePolicy: {
+   *     forbiddenKeys: ['http.request.header.authorization', 'db.statement'],
+   *     forbiddenValues: [/[\w.+-]+@[\w-]+\.[\w.]+/], // Email addresses
+   *   }
+   * }
+   * ```
+   */
+  attributePolicy?: AttributePolicy
+
+  /**
+   * The directory trace snapshots are stored in, relative to the current working directory.
+   *
+   * @default '__trace_snapshots__'
+   */
+  snapshotDirectory?: string
+
+  /**
+   * Whether `toMatchTraceSnapshot` overwrites the stored snapshots with the collected traces instead of comparing
+   * against them. Enable this to refresh the snapshots, e.g. after upgrading instrumentation packages.
+   * Snapshots that do not exist yet are written as well, except in CI (the `CI` environment variable is set),
+   * where they fail the assertion unless this option is enabled.
+   *
+   * @default false
+   *
+   * @example
+   * ```typescript
+   * // UPDATE_TRACE_SNAPSHOTS=true npx vitest run
+   * { updateSnapshots: process.env.UPDATE_TRACE_SNAPSHOTS === 'true' }
+   * ```
+   */
+  updateSnapshots?: boolean
+
   /**
    * The maximum time in milliseconds to wait for assertions to pass.
    * If assertions do not pass within this time, the test will fail.
@@ -54,4 +148,22 @@ export interface CollectorOptions {
    * ```
    */
   timeout: number
+
+  /**
+   * The time in milliseconds during which assertions on the absence of data (e.g. `toNotHaveSpan()`) must hold.
+   * Telemetry is exported asynchronously, so such assertions are only meaningful once the exporter
+   * had a chance to send the data they rule out. Choose a window longer than the export interval of your application.
+   *
+   * @default 1000
+   *
+   * @example
+   * ```typescript
+   * // The application exports spans at least every 500 milliseconds
+   * { observationWindow: 1000 }
+   *
+   * // The application exports metrics every 5 seconds
+   * { observationWindow: 6000 }
+   * ```
+   */
+  observationWindow: number
 }
@@ -0,0 +1,19 @@
+/**
+ * The outcome of checking a single criterion of an assertion against a telemetry item,
+ * used to explain why the closest items did not match.
+ */
+export interface CriterionResult {
+  /** What was checked, e.g. `name` or an attribute key. */
+  criterion: string
+  /** Why the item does not satisfy the criterion, e.g. `expected 200 got 404`. Not set when it does. */
+  mismatch?: string
+}
+
+/**
+ * A telemetry item that did not match an assertion, with the results of all criteria checked against it.
+ */
+export interface MatchCandidate {
+  /** A short description of the item, e.g. the name and kind of a span. */
+  summary: string
+  results: CriterionResult[]
+}
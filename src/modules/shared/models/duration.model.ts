@@ -0,0 +1,28 @@
+/**
+ * A duration in milliseconds, or a string with a unit of `ns`, `us`, `ms`, `s`, `m` or `h`.
+ *
+ * @example
+ * ```typescript
+ * const timeout: Duration = 200
+ * const budget: Duration = '1.5s'
+ * ```
+ */
+export type Duration = number | string
+
+/**
+ * The exclusive bounds of a duration. At least one bound is required.
+ *
+ * @template T The type of the bounds, `bigint` once converted to nanoseconds.
+ *
+ * @example
+ * ```typescript
+ * const fast: DurationBounds = { lessThan: '200ms' }
+ * const realWork: DurationBounds = { greaterThan: '5ms', lessThan: '2s' }
+ * ```
+ */
+export interface DurationBounds<T = Duration> {
+  /** The duration must be shorter than this. */
+  lessThan?: T
+  /** The duration must be longer than this. */
+  greaterThan?: T
+}
@@ -0,0 +1,20 @@
+import { ValueMatcher } from '../matchers'
+import { AttributeValue } from './attribute.model'
+import { InstrumentationScope } from './instrumentation-scope.model'
+
+/**
+ * A value expected by an assertion, either exactly or by a matcher.
+ */
+export type Expected<T> = T | ValueMatcher
+
+export interface ExpectedAttribute {
+  key: string
+  value: Expected<AttributeValue>
+}
+
+/**
+ * An expected instrumentation scope, where attribute values may be matchers.
+ */
+export interface ExpectedInstrumentationScope extends Omit<InstrumentationScope, 'attributes'> {
+  attributes?: ExpectedAttribute[]
+}
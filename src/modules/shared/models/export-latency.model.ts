@@ -0,0 +1,15 @@
+/**
+ * The latency added to the responses of export requests, used to simulate a slow collector.
+ *
+ * @example
+ * ```typescript
+ * // Respond after 200 to 300 milliseconds
+ * const latency: ExportLatency = { delayMs: 200, jitterMs: 100 }
+ * ```
+ */
+export interface ExportLatency {
+  /** The fixed delay in milliseconds before the collector responds. */
+  delayMs: number
+  /** The upper bound in milliseconds of a random delay added on top of `delayMs`. Default: `0`. */
+  jitterMs?: number
+}
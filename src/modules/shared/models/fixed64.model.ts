@@ -3,4 +3,8 @@ interface LongBits {
   high: number
 }
 
-export type Fixed64 = LongBits | string | number
+/**
+ * A 64-bit integer as encoded by an exporter: a decimal string (OTLP/JSON), the low and high bits of a long,
+ * or a number. Received 64-bit integers are normalized to `bigint` timestamps or to `number | bigint` values.
+ */
+export type Fixed64 = LongBits | string | number | bigint
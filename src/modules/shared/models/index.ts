@@ -1,7 +1,15 @@
 export * from './any-value.model'
+export * from './assertion-verifier.model'
+export * from './attribute-policy.model'
 export * from './attribute.model'
+export * from './cardinality.model'
 export * from './collector-options.model'
+export * from './criterion-result.model'
+export * from './duration.model'
+export * from './expected-value.model'
+export * from './export-latency.model'
 export * from './fixed64.model'
 export * from './key-value.model'
+export * from './mark.model'
 export * from './resource.model'
 export * from './instrumentation-scope.model'
@@ -0,0 +1,19 @@
+/**
+ * A checkpoint in the timeline of a collector, created with `Collector.mark()`.
+ * Verifiers restricted to a window between checkpoints only consider the telemetry of that window.
+ */
+export interface Mark {
+  /** The time the checkpoint was created, in nanoseconds since the Unix epoch. */
+  readonly timeUnixNano: bigint
+  /** Orders the checkpoint relative to the receipt of telemetry, which may happen within the same millisecond. */
+  readonly sequence: number
+}
+
+/**
+ * A window between two checkpoints. The start is inclusive and the end exclusive.
+ * The window is unbounded on the sides that are not set.
+ */
+export interface TimeWindow {
+  from?: Mark
+  to?: Mark
+}
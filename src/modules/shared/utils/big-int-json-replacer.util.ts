@@ -0,0 +1,7 @@
+/**
+ * A `JSON.stringify` replacer that serializes `bigint` values, such as nanosecond timestamps,
+ * as decimal strings like OTLP/JSON does, since they cannot be serialized otherwise.
+ */
+export const bigIntJsonReplacer = (_key: string, value: unknown): unknown => {
+  return typeof value === 'bigint' ? value.toString() : value
+}
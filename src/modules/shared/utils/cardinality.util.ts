@@ -0,0 +1,53 @@
+import { Cardinality } from '../models'
+
+/**
+ * Converts a count or a cardinality into a validated cardinality.
+ *
+ * @throws Error If the cardinality has no bounds, negative bounds, or a minimum above its maximum.
+ */
+export const toCardinality = (cardinality: Cardinality | number): Cardinality => {
+  const result = typeof cardinality === 'number' ? { exactly: cardinality } : cardinality
+  const { exactly, atLeast, atMost } = result
+  const bounds = [exactly, atLeast, atMost].filter((bound) => bound !== undefined)
+
+  if (bounds.length === 0) {
+    throw new Error('A cardinality requires `exactly`, `atLeast` or `atMost`')
+  }
+  if (exactly !== undefined && bounds.length > 1) {
+    throw new Error('A cardinality cannot combine `exactly` with `atLeast` or `atMost`')
+  }
+  if (bounds.some((bound) => !Number.isInteger(bound) || bound < 0)) {
+    throw new Error(`The bounds of a cardinality must be non-negative integers, got ${JSON.stringify(result)}`)
+  }
+  if (atLeast !== undefined && atMost !== undefined && atLeast > atMost) {
+    throw new Error(`The minimum of a cardinality cannot exceed its maximum, got ${JSON.stringify(result)}`)
+  }
+
+  return result
+}
+
+/**
+ * Describes a cardinality for assertion messages (e.g. `between 2 and 5`).
+ */
+export const formatCardinality = (cardinality: Cardinality): string => {
+  const { exactly, atLeast, atMost } = cardinality
+
+  if (exactly !== undefined) return `exactly ${exactly}`
+  if (atLeast !== undefined && atMost !== undefined) return `between ${atLeast} and ${atMost}`
+  if (atLeast !== undefined) return `at least ${atLeast}`
+
+  return `at most ${atMost}`
+}
+
+/**
+ * Describes the bound of a cardinality violated by a count, or returns `undefined` if the count satisfies it.
+ */
+export const getCardinalityViolation = (count: number, cardinality: Cardinality): string | undefined => {
+  const { exactly, atLeast, atMost } = cardinality
+
+  if (exactly !== undefined && count !== exactly) return `expected exactly ${exactly}`
+  if (atLeast !== undefined && count < atLeast) return `below the minimum of ${atLeast}`
+  if (atMost !== undefined && count > atMost) return `above the maximum of ${atMost}`
+
+  return undefined
+}
@@ -0,0 +1,31 @@
+import { AttributeValue, PlainAttributeValue } from '../models'
+
+/**
+ * Converts a plain JavaScript value to an attribute value, recursing into arrays and objects.
+ * Integers are converted to `intValue` and other numbers to `doubleValue`.
+ *
+ * @throws Error If the value, or a value nested in it, is of an unsupported type.
+ */
+export const createAttributeValue = (value: PlainAttributeValue): AttributeValue => {
+  if (typeof value === 'string') {
+    return { stringValue: value }
+  } else if (typeof value === 'number') {
+    return Number.isInteger(value) ? { intValue: value } : { doubleValue: value }
+  } else if (typeof value === 'bigint') {
+    return { intValue: value }
+  } else if (typeof value === 'boolean') {
+    return { boolValue: value }
+  } else if (value instanceof Uint8Array) {
+    return { bytesValue: value }
+  } else if (Array.isArray(value)) {
+    return { arrayValue: { values: value.map(createAttributeValue) } }
+  } else if (typeof value === 'object') {
+    return {
+      kvlistValue: {
+        values: Object.entries(value).map(([key, nestedValue]) => ({ key, value: createAttributeValue(nestedValue) })),
+      },
+    }
+  }
+
+  throw new Error(`Unsupported attribute type: ${typeof value}`)
+}
@@ -0,0 +1,68 @@
+import { Attribute, Expected, ExpectedAttribute, ExpectedInstrumentationScope, InstrumentationScope } from '../models'
+import { ValueMatcher } from '../matchers'
+import { formatAttributeValue } from './format-attribute-value.util'
+import { hasAttribute } from './has-attribute.util'
+import { hasScope } from './has-scope.util'
+import { matchesValue } from './matches-value.util'
+
+/**
+ * Describes an expected value for mismatch descriptions, quoting strings and describing matchers.
+ */
+export const formatExpected = <T>(expected: Expected<T>, format: (value: T) => string = JSON.stringify): string =>
+  expected instanceof ValueMatcher ? expected.description : format(expected)
+
+/**
+ * Describes why a value does not match the expected value (e.g. `expected "GET" got "POST"`),
+ * or returns `undefined` if it matches.
+ */
+export const describeValueMismatch = <T>(
+  actual: T | undefined,
+  expected: Expected<T>,
+  format: (value: T) => string = JSON.stringify,
+): string | undefined => {
+  if (actual !== undefined && matchesValue(actual, expected)) return undefined
+
+  return `expected ${formatExpected(expected, format)} got ${actual === undefined ? 'nothing' : format(actual)}`
+}
+
+/**
+ * Describes why the attributes do not contain the expected attribute (e.g. `expected 200 got 404` or `missing`),
+ * or returns `undefined` if they do.
+ */
+export const describeAttributeMismatch = (
+  attributes: Attribute[],
+  expectedAttribute: ExpectedAttribute,
+): string | undefined => {
+  if (hasAttribute(attributes, expectedAttribute)) return undefined
+
+  const actual = attributes.find((attribute) => attribute.key === expectedAttribute.key)
+
+  return actual
+    ? `expected ${formatAttributeValue(expectedAttribute.value)} got ${formatAttributeValue(actual.value)}`
+    : 'missing'
+}
+
+/**
+ * Describes why an instrumentation scope does not match the expected scope
+ * (e.g. `expected @opentelemetry/instrumentation-http@0.202.0 got @opentelemetry/instrumentation-undici`
+ * or `attribute team expected orders got payments`), or returns `undefined` if it matches.
+ */
+export const describeScopeMismatch = (
+  scope: InstrumentationScope | undefined,
+  expectedScope: ExpectedInstrumentationScope,
+): string | undefined => {
+  if (hasScope(scope, expectedScope)) return undefined
+
+  const format = ({ name, version }: ExpectedInstrumentationScope) => (version ? `${name}@${version}` : name)
+
+  if (!scope) return `expected ${format(expectedScope) || 'a scope'} got nothing`
+
+  const expectedAttribute = (expectedScope.attributes ?? []).find(
+    (attribute) => !hasAttribute(scope.attributes ?? [], attribute),
+  )
+  if (expectedAttribute && hasScope(scope, { ...expectedScope, attributes: [] })) {
+    return `attribute ${expectedAttribute.key} ${describeAttributeMismatch(scope.attributes ?? [], expectedAttribute)}`
+  }
+
+  return `expected ${format(expectedScope)} got ${format(scope)}`
+}
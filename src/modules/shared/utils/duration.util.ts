@@ -0,0 +1,57 @@
+import { Duration, DurationBounds } from '../models'
+
+const NANOSECONDS_PER_UNIT: Record<string, number> = {
+  ns: 1,
+  us: 1e3,
+  µs: 1e3,
+  ms: 1e6,
+  s: 1e9,
+  m: 60e9,
+  h: 3600e9,
+}
+
+/**
+ * Converts a duration in milliseconds or with a unit (e.g. `200ms`, `1.5s`) to nanoseconds.
+ *
+ * @throws Error If the duration is negative or not a number with a known unit.
+ */
+export const toNanoseconds = (duration: Duration): bigint => {
+  let nanoseconds = NaN
+
+  if (typeof duration === 'number') {
+    nanoseconds = duration * NANOSECONDS_PER_UNIT.ms
+  } else {
+    const parts = /^(\d+(?:\.\d+)?)\s*(ns|us|µs|ms|s|m|h)$/.exec(duration)
+    if (parts) nanoseconds = Number(parts[1]) * NANOSECONDS_PER_UNIT[parts[2]]
+  }
+
+  if (!Number.isFinite(nanoseconds) || nanoseconds < 0) {
+    throw new Error(`Invalid duration ${JSON.stringify(duration)}, expected milliseconds or e.g. "200ms" or "1.5s"`)
+  }
+
+  return BigInt(Math.round(nanoseconds))
+}
+
+/**
+ * Converts duration bounds to nanoseconds and validates them.
+ *
+ * @throws Error If the bounds are missing, invalid, or leave no duration in between.
+ */
+export const toDurationBounds = (bounds: DurationBounds): DurationBounds<bigint> => {
+  const lessThan = bounds.lessThan === undefined ? undefined : toNanoseconds(bounds.lessThan)
+  const greaterThan = bounds.greaterThan === undefined ? undefined : toNanoseconds(bounds.greaterThan)
+
+  if (lessThan === undefined && greaterThan === undefined) {
+    throw new Error('Duration bounds require `lessThan` or `greaterThan`')
+  }
+  if (lessThan !== undefined && greaterThan !== undefined && greaterThan >= lessThan) {
+    throw new Error(`The lower bound of a duration must be below its upper bound, got ${JSON.stringify(bounds)}`)
+  }
+
+  return { lessThan, greaterThan }
+}
+
+/**
+ * Describes a duration in nanoseconds for assertion messages (e.g. `1.5ms`).
+ */
+export const formatDuration = (nanoseconds: bigint): string => `${Number(nanoseconds) / 1e6}ms`
@@ -0,0 +1,49 @@
+import { Attribute, AttributePolicy, AttributeValue } from '../models'
+import { ValueMatcher } from '../matchers'
+import { toPlainValue } from './to-plain-value.util'
+
+const isForbiddenKey = (key: string, policy: AttributePolicy): boolean =>
+  (policy.forbiddenKeys ?? []).some((forbiddenKey) =>
+    forbiddenKey instanceof RegExp ? key.search(forbiddenKey) !== -1 : key === forbiddenKey,
+  )
+
+const findForbiddenValue = (value: AttributeValue, policy: AttributePolicy): RegExp | ValueMatcher | undefined => {
+  if (value.arrayValue) {
+    return value.arrayValue.values.map((item) => findForbiddenValue(item, policy)).find(Boolean)
+  }
+  if (value.kvlistValue) {
+    return value.kvlistValue.values.map((attribute) => findForbiddenValue(attribute.value, policy)).find(Boolean)
+  }
+
+  const plainValue = toPlainValue(value)
+
+  return (policy.forbiddenValues ?? []).find((forbiddenValue) =>
+    forbiddenValue instanceof RegExp
+      ? typeof plainValue === 'string' && plainValue.search(forbiddenValue) !== -1
+      : forbiddenValue.matches(plainValue),
+  )
+}
+
+/**
+ * Describes the attributes forbidden by a policy, by key or by value, recursing into key-value lists.
+ * Nested keys are reported as dotted paths.
+ */
+export const findAttributePolicyViolations = (
+  attributes: Attribute[],
+  policy: AttributePolicy,
+  parentPath?: string,
+): string[] =>
+  attributes.flatMap(({ key, value }) => {
+    const path = parentPath ? `${parentPath}.${key}` : key
+
+    if (isForbiddenKey(key, policy)) {
+      return [`attribute "${path}" is forbidden`]
+    }
+    if (value.kvlistValue) {
+      return findAttributePolicyViolations(value.kvlistValue.values, policy, path)
+    }
+
+    const forbiddenValue = findForbiddenValue(value, policy)
+
+    return forbiddenValue ? [`attribute "${path}" has a value forbidden by ${String(forbiddenValue)}`] : []
+  })
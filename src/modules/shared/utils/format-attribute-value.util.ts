@@ -1,9 +1,34 @@
-import { AttributeValue } from '../models'
+import { AttributeValue, Expected } from '../models'
+import { ValueMatcher } from '../matchers'
 
-export const formatAttributeValue = (attributeValue: AttributeValue): string => {
-  if (attributeValue.stringValue) return attributeValue.stringValue
-  if (attributeValue.intValue != undefined) return attributeValue.intValue.toString()
+const formatNestedValue = (attributeValue: AttributeValue): string => {
+  return attributeValue.stringValue != undefined
+    ? JSON.stringify(attributeValue.stringValue)
+    : formatAttributeValue(attributeValue)
+}
+
+/**
+ * Formats an attribute value, or the description of a matcher, for assertion messages.
+ * Strings nested in arrays and key-value lists are quoted, bytes are formatted as hex.
+ */
+export const formatAttributeValue = (attributeValue: Expected<AttributeValue>): string => {
+  if (attributeValue instanceof ValueMatcher) return attributeValue.description
+  if (attributeValue.stringValue != undefined) return attributeValue.stringValue
   if (attributeValue.boolValue != undefined) return attributeValue.boolValue.toString()
+  if (attributeValue.intValue != undefined) return attributeValue.intValue.toString()
+  if (attributeValue.doubleValue != undefined) return attributeValue.doubleValue.toString()
+  if (attributeValue.bytesValue != undefined) {
+    return `0x${Buffer.from(attributeValue.bytesValue).toString('hex')}`
+  }
+  if (attributeValue.arrayValue) {
+    return `[${attributeValue.arrayValue.values.map(formatNestedValue).join(', ')}]`
+  }
+  if (attributeValue.kvlistValue) {
+    const entries = attributeValue.kvlistValue.values.map(
+      (attribute) => `${attribute.key}: ${formatNestedValue(attribute.value)}`,
+    )
+    return `{ ${entries.join(', ')} }`
+  }
 
   return 'unknown'
 }
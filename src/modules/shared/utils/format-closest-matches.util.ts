@@ -0,0 +1,29 @@
+import { MatchCandidate } from '../models'
+
+/**
+ * Describes the candidates satisfying the most criteria of an assertion, with the outcome of every criterion
+ * (e.g. `name ✓, http.status_code expected 200 got 404, http.target missing`).
+ * The description is plain text, so that it stays readable in terminals as well as in JUnit XML reports.
+ *
+ * @param candidates The items that did not match the assertion.
+ * @param limit The maximum number of candidates to describe.
+ */
+export const formatClosestMatches = (candidates: MatchCandidate[], limit = 3): string => {
+  const countSatisfied = (candidate: MatchCandidate) => candidate.results.filter((result) => !result.mismatch).length
+  const closest = [...candidates].sort((a, b) => countSatisfied(b) - countSatisfied(a)).slice(0, limit)
+
+  if (closest.length === 0) return ''
+
+  const lines = closest.map((candidate, index) => {
+    const results = candidate.results.map(({ criterion, mismatch }) =>
+      mismatch ? `${criterion} ${mismatch}` : `${criterion} ✓`,
+    )
+
+    return (
+      `  ${index + 1}. ${candidate.summary}, ${countSatisfied(candidate)} of ${candidate.results.length} criteria: ` +
+      results.join(', ')
+    )
+  })
+
+  return `\nClosest matches:\n${lines.join('\n')}`
+}
@@ -0,0 +1,10 @@
+/**
+ * Formats a trace or span ID as a lowercase hex string, regardless of whether it was
+ * received as a hex string (OTLP/JSON) or as raw bytes (OTLP/protobuf).
+ */
+export const formatId = (id: string | Uint8Array | null | undefined): string => {
+  if (!id) return ''
+  if (typeof id === 'string') return id.toLowerCase()
+
+  return Buffer.from(id).toString('hex')
+}
@@ -0,0 +1,42 @@
+import { Attribute, AttributeValue, ExpectedAttribute } from '../models'
+import { hasAttributeValue } from './has-attribute-value.util'
+
+const resolveValuePath = (value: AttributeValue, path: string): AttributeValue[] => {
+  if (value.kvlistValue) {
+    return resolveAttributePath(value.kvlistValue.values, path)
+  }
+  if (value.arrayValue) {
+    const [index, ...rest] = path.split('.')
+    const element = /^\d+$/.test(index) ? value.arrayValue.values.at(Number(index)) : undefined
+
+    if (!element) return []
+
+    return rest.length > 0 ? resolveValuePath(element, rest.join('.')) : [element]
+  }
+
+  return []
+}
+
+/**
+ * Resolves the values at a dotted path into nested key-value lists and arrays.
+ * Since keys may contain dots themselves, every key that the path starts with is followed.
+ */
+export const resolveAttributePath = (attributes: Attribute[], path: string): AttributeValue[] => {
+  return attributes.flatMap((attribute) => {
+    if (attribute.key === path) return [attribute.value]
+    if (!path.startsWith(`${attribute.key}.`)) return []
+
+    return resolveValuePath(attribute.value, path.slice(attribute.key.length + 1))
+  })
+}
+
+/**
+ * Checks whether the value at the path of the expected attribute matches, e.g. `config.retry.max`
+ * for the `max` key of the `retry` key-value list in the `config` attribute.
+ * Array elements are addressed by their index, e.g. `messaging.batch.0.id`.
+ */
+export const hasAttributePath = (attributes: Attribute[], expectedAttribute: ExpectedAttribute): boolean => {
+  return resolveAttributePath(attributes, expectedAttribute.key).some((value) =>
+    hasAttributeValue(value, expectedAttribute.value),
+  )
+}
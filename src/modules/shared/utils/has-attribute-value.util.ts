@@ -1,14 +1,54 @@
-import { AttributeValue } from '../models'
+import { Attribute, AttributeValue, Expected } from '../models'
+import { ValueMatcher } from '../matchers'
+import { toPlainValue } from './to-plain-value.util'
 
-export const hasAttributeValue = (actual: AttributeValue, expected: AttributeValue): boolean => {
-  if (actual.stringValue && expected.stringValue) {
-    return actual.stringValue === expected.stringValue
+const hasArrayValue = (actual: AttributeValue[], expected: AttributeValue[]): boolean => {
+  return actual.length === expected.length && expected.every((value, index) => hasAttributeValue(actual[index], value))
+}
+
+const hasKeyValueList = (actual: Attribute[], expected: Attribute[]): boolean => {
+  return (
+    actual.length === expected.length &&
+    expected.every((expectedAttribute) =>
+      actual.some(
+        (attribute) =>
+          attribute.key === expectedAttribute.key && hasAttributeValue(attribute.value, expectedAttribute.value),
+      ),
+    )
+  )
+}
+
+/**
+ * Compares an attribute value with an expected value or matcher.
+ * Values of different types never match, except integers and doubles, which are compared by their numeric value,
+ * whether an integer is a `number` or a `bigint`.
+ * Arrays and key-value lists match if they hold the same values, where the order of key-value pairs is ignored.
+ * Matchers are applied to the plain JavaScript value, e.g. an array for `arrayValue`.
+ */
+export const hasAttributeValue = (actual: AttributeValue, expected: Expected<AttributeValue>): boolean => {
+  if (expected instanceof ValueMatcher) {
+    return expected.matches(toPlainValue(actual))
   }
-  if (actual.intValue !== undefined && expected.intValue !== undefined) {
-    return actual.intValue === expected.intValue
+  if (expected.stringValue != undefined) {
+    return actual.stringValue === expected.stringValue
   }
-  if (actual.boolValue !== undefined && expected.boolValue !== undefined) {
+  if (expected.boolValue != undefined) {
     return actual.boolValue === expected.boolValue
   }
+  if (expected.intValue != undefined || expected.doubleValue != undefined) {
+    const actualNumber = actual.intValue ?? actual.doubleValue
+    // Loose equality compares a bigint and a number by their numeric value
+    return actualNumber != undefined && actualNumber == (expected.intValue ?? expected.doubleValue)
+  }
+  if (expected.bytesValue != undefined) {
+    return actual.bytesValue != undefined && Buffer.from(actual.bytesValue).equals(expected.bytesValue)
+  }
+  if (expected.arrayValue) {
+    return !!actual.arrayValue && hasArrayValue(actual.arrayValue.values, expected.arrayValue.values)
+  }
+  if (expected.kvlistValue) {
+    return !!actual.kvlistValue && hasKeyValueList(actual.kvlistValue.values, expected.kvlistValue.values)
+  }
+
   return false
 }
@@ -1,7 +1,7 @@
-import { Attribute } from '../models'
+import { Attribute, ExpectedAttribute } from '../models'
 import { hasAttributeValue } from './has-attribute-value.util'
 
-export const hasAttribute = (attributes: Attribute[], expectedAttribute: Attribute): boolean => {
+export const hasAttribute = (attributes: Attribute[], expectedAttribute: ExpectedAttribute): boolean => {
   return attributes.some(
     (attribute) =>
       attribute.key === expectedAttribute.key && hasAttributeValue(attribute.value, expectedAttribute.value),
@@ -0,0 +1,15 @@
+import { Attribute, ExpectedAttribute } from '../models'
+
+/**
+ * Checks that every attribute is expected, either by its key or as the root of an expected attribute path.
+ */
+export const hasOnlyAttributes = (
+  attributes: Attribute[],
+  expectedAttributes: ExpectedAttribute[] = [],
+  expectedPaths: ExpectedAttribute[] = [],
+): boolean =>
+  attributes.every(
+    ({ key }) =>
+      expectedAttributes.some((expected) => expected.key === key) ||
+      expectedPaths.some((expected) => expected.key === key || expected.key.startsWith(`${key}.`)),
+  )
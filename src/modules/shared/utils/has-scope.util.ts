@@ -0,0 +1,21 @@
+import { ExpectedInstrumentationScope, InstrumentationScope } from '../models'
+import { hasAttribute } from './has-attribute.util'
+
+export const hasScope = (
+  scope: InstrumentationScope | undefined,
+  expectedScope: ExpectedInstrumentationScope,
+): boolean => {
+  if (!scope) {
+    return false
+  }
+  if (expectedScope.name && scope.name !== expectedScope.name) {
+    return false
+  }
+  if (expectedScope.version !== undefined && scope.version !== expectedScope.version) {
+    return false
+  }
+
+  return (expectedScope.attributes ?? []).every((expectedAttribute) =>
+    hasAttribute(scope.attributes ?? [], expectedAttribute),
+  )
+}
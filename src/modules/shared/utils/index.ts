@@ -1,3 +1,23 @@
+export * from './big-int-json-replacer.util'
+export * from './cardinality.util'
+export * from './create-attribute-value.util'
+export * from './describe-mismatch.util'
+export * from './duration.util'
+export * from './find-attribute-policy-violations.util'
 export * from './format-attribute-value.util'
+export * from './format-closest-matches.util'
+export * from './format-id.util'
+export * from './has-attribute-path.util'
 export * from './has-attribute-value.util'
 export * from './has-attribute.util'
+export * from './has-only-attributes.util'
+export * from './has-scope.util'
+export * from './is-ci.util'
+export * from './matches-value.util'
+export * from './normalize-attributes.util'
+export * from './normalize-scope.util'
+export * from './time-window.util'
+export * from './to-array.util'
+export * from './to-big-int.util'
+export * from './to-bytes.util'
+export * from './to-plain-value.util'
@@ -0,0 +1,5 @@
+/**
+ * Checks whether the process runs in a continuous integration environment,
+ * as indicated by the `CI` environment variable most CI providers set.
+ */
+export const isCi = (): boolean => !['', '0', 'false'].includes((process.env.CI ?? '').toLowerCase())
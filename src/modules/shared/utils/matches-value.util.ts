@@ -0,0 +1,6 @@
+import { Expected } from '../models'
+import { ValueMatcher } from '../matchers'
+
+export const matchesValue = <T>(actual: T, expected: Expected<T>): boolean => {
+  return expected instanceof ValueMatcher ? expected.matches(actual) : actual === expected
+}
@@ -0,0 +1,36 @@
+import { Attribute, AttributeValue } from '../models'
+import { toBytes } from './to-bytes.util'
+import { toArray } from './to-array.util'
+import { toInteger } from './to-big-int.util'
+
+/**
+ * Normalizes a received attribute value: integers become a `number`, or a `bigint` if they are not safe integers,
+ * base64 encoded bytes become a byte array, and nested arrays and key-value lists are normalized recursively.
+ * A missing value becomes an empty one.
+ */
+export const normalizeAttributeValue = (attributeValue: AttributeValue | null | undefined): AttributeValue => {
+  if (!attributeValue) {
+    return {}
+  }
+  if (attributeValue.intValue != undefined) {
+    return { intValue: toInteger(attributeValue.intValue) }
+  }
+  if (attributeValue.bytesValue != undefined) {
+    return { bytesValue: toBytes(attributeValue.bytesValue) }
+  }
+  if (attributeValue.arrayValue) {
+    return { arrayValue: { values: toArray(attributeValue.arrayValue.values).map(normalizeAttributeValue) } }
+  }
+  if (attributeValue.kvlistValue) {
+    return { kvlistValue: { values: normalizeAttributes(attributeValue.kvlistValue.values) } }
+  }
+
+  return attributeValue
+}
+
+export const normalizeAttributes = (attributes: Attribute[] | null | undefined): Attribute[] => {
+  return toArray(attributes).map((attribute) => ({
+    key: attribute.key,
+    value: normalizeAttributeValue(attribute.value),
+  }))
+}
@@ -0,0 +1,6 @@
+import { InstrumentationScope } from '../models'
+import { normalizeAttributes } from './normalize-attributes.util'
+
+export const normalizeScope = (scope: InstrumentationScope | null | undefined): InstrumentationScope | undefined => {
+  return scope ? { ...scope, attributes: normalizeAttributes(scope.attributes) } : undefined
+}
@@ -0,0 +1,28 @@
+import { Mark, TimeWindow } from '../models'
+
+let lastSequence = 0
+
+/**
+ * Returns a number greater than all numbers returned before, to order marks and the receipt of telemetry.
+ */
+export const nextSequence = (): number => ++lastSequence
+
+/**
+ * Creates a checkpoint at the current time.
+ * Its time has the millisecond resolution of the wall clock, which the OpenTelemetry SDK also uses
+ * for the start time of spans. The high-resolution clock of `performance` drifts apart from the wall clock over time.
+ */
+export const createMark = (): Mark => ({ timeUnixNano: BigInt(Date.now()) * 1_000_000n, sequence: nextSequence() })
+
+/**
+ * Creates the time window from a mark up to another mark, or without an end.
+ *
+ * @throws Error If the end mark precedes the start mark.
+ */
+export const toTimeWindow = (from: Mark, to?: Mark): TimeWindow => {
+  if (to && to.sequence < from.sequence) {
+    throw new Error('Invalid time window, the end mark precedes the start mark')
+  }
+
+  return { from, to }
+}
@@ -0,0 +1,6 @@
+/**
+ * Returns the values of a repeated field, which OTLP/JSON payloads may omit when it is empty.
+ */
+export const toArray = <T>(values: T[] | null | undefined): T[] => {
+  return values ?? []
+}
@@ -0,0 +1,23 @@
+import { Fixed64 } from '../models'
+
+/**
+ * Converts a 64-bit integer to a `bigint`, regardless of how it was encoded.
+ * A missing value is converted to `0n`, which OTLP uses for unknown timestamps.
+ */
+export const toBigInt = (value: Fixed64 | null | undefined): bigint => {
+  if (value == undefined) return 0n
+  if (typeof value === 'bigint') return value
+  if (typeof value === 'string') return BigInt(value)
+  if (typeof value === 'number') return BigInt(Math.trunc(value))
+
+  return (BigInt(value.high >>> 0) << 32n) | BigInt(value.low >>> 0)
+}
+
+/**
+ * Converts a 64-bit integer to a `number` if it is a safe integer, or to a `bigint` otherwise.
+ */
+export const toInteger = (value: Fixed64): number | bigint => {
+  const integer = toBigInt(value)
+
+  return integer >= Number.MIN_SAFE_INTEGER && integer <= Number.MAX_SAFE_INTEGER ? Number(integer) : integer
+}
@@ -0,0 +1,7 @@
+/**
+ * Converts a bytes value to a byte array, regardless of whether it was received as a base64 string (OTLP/JSON)
+ * or as raw bytes (OTLP/protobuf).
+ */
+export const toBytes = (bytes: Uint8Array | string): Uint8Array => {
+  return typeof bytes === 'string' ? Buffer.from(bytes, 'base64') : bytes
+}
@@ -0,0 +1,25 @@
+import { AttributeValue, PlainAttributeValue } from '../models'
+
+/**
+ * Converts an attribute value to a plain JavaScript value, recursing into arrays and key-value lists.
+ * Returns `undefined` for an empty attribute value.
+ */
+export const toPlainValue = (attributeValue: AttributeValue): PlainAttributeValue | undefined => {
+  if (attributeValue.stringValue != undefined) return attributeValue.stringValue
+  if (attributeValue.boolValue != undefined) return attributeValue.boolValue
+  if (attributeValue.intValue != undefined) return attributeValue.intValue
+  if (attributeValue.doubleValue != undefined) return attributeValue.doubleValue
+  if (attributeValue.bytesValue != undefined) return attributeValue.bytesValue
+  if (attributeValue.arrayValue) {
+    return attributeValue.arrayValue.values.map((value) => toPlainValue(value) ?? '')
+  }
+  if (attributeValue.kvlistValue) {
+    const result: Record<string, PlainAttributeValue> = {}
+    attributeValue.kvlistValue.values.forEach((attribute) => {
+      result[attribute.key] = toPlainValue(attribute.value) ?? ''
+    })
+    return result
+  }
+
+  return undefined
+}
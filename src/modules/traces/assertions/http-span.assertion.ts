@@ -5,6 +5,7 @@ import {
 } from '@opentelemetry/semantic-conventions/incubating'
 
 import { SpanAssertion } from './span.assertion'
+import { ValueMatcher } from '../../shared/matchers'
 
 /**
  * A specialized `SpanAssertion` for verifying HTTP spans.
@@ -84,7 +85,7 @@ export class HttpSpanAssertion extends SpanAssertion {
    * Sets the expected HTTP method for the span.
    * This is a convenience for `withAttribute('http.method', method)`.
    */
-  withMethod(method: string): this {
+  withMethod(method: string | ValueMatcher): this {
     return this.withAttribute(ATTR_HTTP_METHOD, method)
   }
 
@@ -92,7 +93,7 @@ export class HttpSpanAssertion extends SpanAssertion {
    * Sets the expected HTTP status code for the span.
    * This is a convenience for `withAttribute('http.status_code', statusCode)`.
    */
-  withHttpStatus(statusCode: number): this {
+  withHttpStatus(statusCode: number | ValueMatcher): this {
     return this.withAttribute(ATTR_HTTP_STATUS_CODE, statusCode)
   }
 
@@ -101,7 +102,7 @@ export class HttpSpanAssertion extends SpanAssertion {
    * The URL should typically include the path and query parameters.
    * This is a convenience for `withAttribute('http.target', url)`.
    */
-  withUrl(url: string): this {
+  withUrl(url: string | ValueMatcher): this {
     return this.withAttribute(ATTR_HTTP_TARGET, url)
   }
 }
@@ -1,3 +1,7 @@
 export * from './http-span.assertion'
 export * from './span.assertion'
 export * from './span.assertion-verifier'
+export * from './span-attribute-policy.assertion-verifier'
+export * from './trace-scoped.assertion-verifier'
+export * from './trace-snapshot.assertion-verifier'
+export * from './unique-span.assertion-verifier'
@@ -0,0 +1,44 @@
+import * as assert from 'assert'
+
+import { Span } from '../models'
+import { AssertionVerifier, AttributePolicy } from '../../shared/models'
+import { findAttributePolicyViolations } from '../../shared/utils'
+
+export class SpanAttributePolicyAssertionVerifier implements AssertionVerifier<Span> {
+  constructor(private readonly policy: AttributePolicy) {}
+
+  verify(spans: Span[]): void {
+    const violations = new Set<string>()
+
+    for (const span of spans) {
+      const location = `span "${span.name}" (${span.traceId}/${span.spanId})`
+
+      findAttributePolicyViolations(span.attributes, this.policy).forEach((violation) =>
+        violations.add(`${location}: ${violation}`),
+      )
+      span.events.forEach((event) =>
+        findAttributePolicyViolations(event.attributes, this.policy).forEach((violation) =>
+          violations.add(`event "${event.name}" of ${location}: ${violation}`),
+        ),
+      )
+      span.links.forEach((link) =>
+        findAttributePolicyViolations(link.attributes, this.policy).forEach((violation) =>
+          violations.add(`link to ${link.traceId}/${link.spanId} of ${location}: ${violation}`),
+        ),
+      )
+      // Spans of the same scope or resource share its attributes, so each violation is reported once
+      findAttributePolicyViolations(span.scope?.attributes ?? [], this.policy).forEach((violation) =>
+        violations.add(`scope "${span.scope?.name}": ${violation}`),
+      )
+      findAttributePolicyViolations(span.resourceAttributes ?? [], this.policy).forEach((violation) =>
+        violations.add(`resource: ${violation}`),
+      )
+    }
+
+    assert.ok(
+      violations.size === 0,
+      `Expected no spans with attributes forbidden by the attribute policy, found ${violations.size} violations:\n` +
+        [...violations].map((violation) => `  - ${violation}`).join('\n'),
+    )
+  }
+}
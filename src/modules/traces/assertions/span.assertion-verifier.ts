@@ -1,26 +1,53 @@
 import * as assert from 'assert'
 
-import { Span } from '../models'
-import { SpanKind } from '../enums'
-import { formatAttributeValue, hasAttribute } from '../../shared/utils'
+import { Event, EventSchema, Link, LinkSchema, Span, SpanSchema } from '../models'
+import { SpanKind, SpanStatusCode } from '../enums'
+import { Cardinality, CriterionResult } from '../../shared/models'
+import {
+  describeAttributeMismatch,
+  describeScopeMismatch,
+  describeValueMismatch,
+  formatAttributeValue,
+  formatCardinality,
+  formatClosestMatches,
+  formatDuration,
+  formatExpected,
+  getCardinalityViolation,
+  hasAttribute,
+  hasAttributePath,
+  hasOnlyAttributes,
+  matchesValue,
+  resolveAttributePath,
+} from '../../shared/utils'
+
+interface Criterion {
+  criterion: string
+  /** Returns why the span does not satisfy the criterion, or `undefined` if it does. */
+  check: () => string | undefined
+}
 
 export class SpanAssertionVerifier {
   constructor(
-    private readonly schema: Partial<Span>,
+    private readonly schema: SpanSchema,
     private readonly semanticAttributes: string[],
-    private readonly expectedCount: number,
+    private readonly cardinality: Cardinality,
     private readonly originalStack?: string,
+    readonly observationWindowMs?: number,
   ) {}
 
   verify(spans: Span[]): void {
-    const matchingSpans = spans.filter((span) => this.matches(span))
+    const matchingSpans = spans.filter((span) => this.matches(span, spans))
 
     try {
-      assert.strictEqual(
-        matchingSpans.length,
-        this.expectedCount,
-        `Expected ${this.expectedCount} spans matching "${this.getDescription()}", found ${matchingSpans.length}\n` +
-          `Matching spans: ${matchingSpans.map((s) => this.getSpanSummary(s)).join(', ')}`,
+      const violation = getCardinalityViolation(matchingSpans.length, this.cardinality)
+      assert.ok(
+        !violation,
+        `Expected ${formatCardinality(this.cardinality)} spans matching "${this.getDescription()}", ` +
+          `found ${matchingSpans.length} (${violation})\n` +
+          `Matching spans: ${matchingSpans.map((s) => this.getSpanSummary(s)).join(', ')}` +
+          (matchingSpans.length < (this.cardinality.exactly ?? this.cardinality.atLeast ?? 0)
+            ? this.getClosestMatches(spans, matchingSpans)
+            : ''),
       )
     } catch (error) {
       if (error instanceof Error && this.originalStack) {
@@ -30,28 +57,107 @@ export class SpanAssertionVerifier {
     }
   }
 
+  /**
+   * Describes the spans satisfying the most criteria among those that do not match, to explain near misses.
+   */
+  private getClosestMatches(spans: Span[], matchingSpans: Span[]): string {
+    const candidates = spans
+      .filter((span) => !matchingSpans.includes(span))
+      .map((span) => ({
+        summary: this.getSpanSummary(span),
+        results: this.getCriteria(span, spans).map(
+          ({ criterion, check }): CriterionResult => ({ criterion, mismatch: check() }),
+        ),
+      }))
+
+    return formatClosestMatches(candidates)
+  }
+
   private getDescription(): string {
-    const parts: Record<string, unknown> = { ...this.schema }
+    const parts = this.describeSchema(this.schema)
+
+    if (this.semanticAttributes.length > 0) {
+      parts.semanticAttributes = this.semanticAttributes.join(', ')
+    }
 
-    if (this.schema.attributes && this.schema.attributes.length > 0) {
+    return JSON.stringify(parts, null, 2)
+  }
+
+  private describeSchema(schema: SpanSchema): Record<string, unknown> {
+    const parts: Record<string, unknown> = { ...schema }
+
+    if (schema.attributes && schema.attributes.length > 0) {
       const attributesObj: Record<string, unknown> = {}
-      this.schema.attributes.forEach((attribute) => {
+      schema.attributes.forEach((attribute) => {
         attributesObj[attribute.key] = formatAttributeValue(attribute.value)
       })
       parts.attributes = attributesObj
     }
-    if (this.schema.resourceAttributes && this.schema.resourceAttributes.length > 0) {
+    if (schema.attributePaths && schema.attributePaths.length > 0) {
+      const attributePathsObj: Record<string, unknown> = {}
+      schema.attributePaths.forEach((attribute) => {
+        attributePathsObj[attribute.key] = formatAttributeValue(attribute.value)
+      })
+      parts.attributePaths = attributePathsObj
+    }
+    if (schema.resourceAttributes && schema.resourceAttributes.length > 0) {
       const resourceAttributesObj: Record<string, unknown> = {}
-      this.schema.resourceAttributes.forEach((attribute) => {
+      schema.resourceAttributes.forEach((attribute) => {
         resourceAttributesObj[attribute.key] = formatAttributeValue(attribute.value)
       })
       parts.resourceAttributes = resourceAttributesObj
     }
-    if (this.semanticAttributes.length > 0) {
-      parts.semanticAttributes = this.semanticAttributes.join(', ')
+    if (schema.scope) {
+      const scopeAttributesObj: Record<string, unknown> = {}
+      schema.scope.attributes?.forEach((attribute) => {
+        scopeAttributesObj[attribute.key] = formatAttributeValue(attribute.value)
+      })
+      parts.scope = { ...schema.scope, attributes: schema.scope.attributes && scopeAttributesObj }
+    }
+    if (schema.events) {
+      parts.events = schema.events.map((event) => ({
+        name: event.name,
+        attributes: event.attributes?.length
+          ? Object.fromEntries(
+              event.attributes.map((attribute) => [attribute.key, formatAttributeValue(attribute.value)]),
+            )
+          : undefined,
+      }))
+    }
+    if (schema.eventCounts) {
+      parts.eventCounts = schema.eventCounts.map((eventCount) => ({
+        name: eventCount.name,
+        count: formatCardinality(eventCount.cardinality),
+      }))
+    }
+    if (schema.links) {
+      parts.links = schema.links.map((link) => ({
+        traceId: link.traceId,
+        spanId: link.spanId,
+        target: link.target && this.describeSchema(link.target),
+        attributes:
+          link.attributes &&
+          Object.fromEntries(
+            link.attributes.map((attribute) => [attribute.key, formatAttributeValue(attribute.value)]),
+          ),
+      }))
     }
+    if (schema.linkCount) parts.linkCount = formatCardinality(schema.linkCount)
+    if (schema.duration) {
+      parts.duration = {
+        lessThan: schema.duration.lessThan === undefined ? undefined : formatDuration(schema.duration.lessThan),
+        greaterThan:
+          schema.duration.greaterThan === undefined ? undefined : formatDuration(schema.duration.greaterThan),
+      }
+    }
+    if (schema.before) parts.before = schema.before.map((other) => this.describeSchema(other))
+    if (schema.overlapping) parts.overlapping = schema.overlapping.map((other) => this.describeSchema(other))
+    if (schema.containers) parts.containers = schema.containers.map((other) => this.describeSchema(other))
+    if (schema.parent) parts.parent = this.describeSchema(schema.parent)
+    if (schema.children) parts.children = schema.children.map((child) => this.describeSchema(child))
+    if (schema.ancestors) parts.ancestors = schema.ancestors.map((ancestor) => this.describeSchema(ancestor))
 
-    return JSON.stringify(parts, null, 2)
+    return parts
   }
 
   private getSpanSummary(span: Span): string {
@@ -64,33 +170,366 @@ export class SpanAssertionVerifier {
     return `"${span.name}" (${SpanKind[span.kind]}) [${attributes}]`
   }
 
-  private matches(span: Span): boolean {
-    if (this.schema.name && span.name !== this.schema.name) return false
-    if (this.schema.kind && span.kind !== this.schema.kind) return false
-    if (this.schema.status && span.status.code !== this.schema.status.code) return false
+  /**
+   * Checks whether a span matches the assertion, regardless of how many spans are expected to match.
+   */
+  matches(span: Span, spans: Span[]): boolean {
+    return this.getCriteria(span, spans).every(({ check }) => check() === undefined)
+  }
+
+  private getCriteria(span: Span, spans: Span[]): Criterion[] {
+    // Check semantic attributes, unless an expected value already requires them
+    const expectedKeys = (this.schema.attributes ?? []).map((attribute) => attribute.key)
+    const semanticCriteria = this.semanticAttributes
+      .filter((key) => !expectedKeys.includes(key))
+      .map((key) => ({
+        criterion: key,
+        check: () => (span.attributes.some((attribute) => attribute.key === key) ? undefined : 'missing'),
+      }))
+
+    return [...semanticCriteria, ...this.getSchemaCriteria(span, spans, this.schema)]
+  }
+
+  private matchesSchema(span: Span, spans: Span[], schema: SpanSchema): boolean {
+    return this.getSchemaCriteria(span, spans, schema).every(({ check }) => check() === undefined)
+  }
+
+  /**
+   * Lists the criteria of a schema for a span. Each criterion is only checked on demand,
+   * so that matching can stop at the first criterion that is not satisfied.
+   */
+  private getSchemaCriteria(span: Span, spans: Span[], schema: SpanSchema): Criterion[] {
+    const criteria: Criterion[] = []
+    const add = (criterion: string, check: () => string | undefined) => criteria.push({ criterion, check })
+    const { name, kind, status, scope, duration } = schema
+
+    if (name) add('name', () => describeValueMismatch(span.name, name))
+    if (kind !== undefined) add('kind', () => describeValueMismatch(span.kind, kind, (value) => SpanKind[value]))
+    if (status?.code !== undefined) {
+      const code = status.code
+      add('status code', () => describeValueMismatch(span.status.code, code, (value) => SpanStatusCode[value]))
+    }
+    if (status?.message !== undefined) {
+      const message = status.message
+      add('status message', () => describeValueMismatch(span.status.message ?? '', message))
+    }
+    if (scope) {
+      add('scope', () => describeScopeMismatch(span.scope, scope))
+    }
+    if (schema.scopeSchemaUrl) {
+      const scopeSchemaUrl = schema.scopeSchemaUrl
+      add('scope schema URL', () => describeValueMismatch(span.scopeSchemaUrl, scopeSchemaUrl))
+    }
+    if (schema.resourceSchemaUrl) {
+      const resourceSchemaUrl = schema.resourceSchemaUrl
+      add('resource schema URL', () => describeValueMismatch(span.resourceSchemaUrl, resourceSchemaUrl))
+    }
 
     // Check attributes
-    if (this.schema.attributes) {
-      for (const expectedAttr of this.schema.attributes) {
-        if (!hasAttribute(span.attributes, expectedAttr)) return false
-      }
+    for (const expectedAttr of schema.attributes ?? []) {
+      add(expectedAttr.key, () => describeAttributeMismatch(span.attributes, expectedAttr))
+    }
+
+    // Check values nested in attributes
+    for (const expectedAttr of schema.attributePaths ?? []) {
+      add(expectedAttr.key, () => {
+        if (hasAttributePath(span.attributes, expectedAttr)) return undefined
+
+        const actual = resolveAttributePath(span.attributes, expectedAttr.key)
+
+        return actual.length > 0
+          ? `expected ${formatAttributeValue(expectedAttr.value)} got ${actual.map(formatAttributeValue).join(' or ')}`
+          : 'missing'
+      })
+    }
+
+    // Check attributes that must not be present
+    if (schema.onlyAttributes) {
+      add('only expected attributes', () => {
+        const unexpected = span.attributes.filter(
+          (attribute) => !hasOnlyAttributes([attribute], schema.attributes, schema.attributePaths),
+        )
+
+        return unexpected.length > 0
+          ? `unexpected ${unexpected.map((attribute) => attribute.key).join(', ')}`
+          : undefined
+      })
+    }
+    for (const key of schema.absentAttributes ?? []) {
+      add(`without ${key}`, () => (span.attributes.some((attribute) => attribute.key === key) ? 'present' : undefined))
     }
 
     // Check resource attributes
-    if (this.schema.resourceAttributes) {
-      for (const expectedAttr of this.schema.resourceAttributes) {
-        if (!hasAttribute(span.resourceAttributes ?? [], expectedAttr)) return false
-      }
+    for (const expectedAttr of schema.resourceAttributes ?? []) {
+      add(`resource ${expectedAttr.key}`, () => describeAttributeMismatch(span.resourceAttributes ?? [], expectedAttr))
     }
 
-    // Check semantic attributes
-    if (this.semanticAttributes.length > 0) {
-      for (const expectedAttr of this.semanticAttributes) {
-        const matches = span.attributes.some((attr) => attr.key === expectedAttr)
-        if (!matches) return false
+    // Check events
+    for (const expectedCount of schema.eventCounts ?? []) {
+      const eventName = expectedCount.name
+      add(eventName === undefined ? 'event count' : `${formatExpected(eventName)} event count`, () => {
+        const count = span.events.filter(
+          (event) => eventName === undefined || matchesValue(event.name, eventName),
+        ).length
+
+        return getCardinalityViolation(count, expectedCount.cardinality)
+          ? `expected ${formatCardinality(expectedCount.cardinality)} got ${count}`
+          : undefined
+      })
+    }
+    if (schema.events) {
+      const expectedEvents = schema.events
+      add(schema.orderedEvents ? 'events in order' : 'events', () =>
+        this.describeEventsMismatch(span, expectedEvents, schema.orderedEvents),
+      )
+    }
+
+    // Check links
+    if (schema.linkCount) {
+      const linkCount = schema.linkCount
+      add('link count', () =>
+        getCardinalityViolation(span.links.length, linkCount)
+          ? `expected ${formatCardinality(linkCount)} got ${span.links.length}`
+          : undefined,
+      )
+    }
+    if (schema.links) {
+      const expectedLinks = schema.links
+      add('links', () => {
+        const matchesLink = (link: Link, expectedLink: LinkSchema) => this.matchesLink(link, spans, expectedLink)
+
+        if (this.matchesDistinct(span.links, expectedLinks, matchesLink)) return undefined
+
+        const missing = expectedLinks.filter(
+          (expectedLink) => !span.links.some((link) => matchesLink(link, expectedLink)),
+        )
+
+        return missing.length > 0
+          ? `missing ${missing.length} of ${expectedLinks.length} expected links`
+          : 'fewer matching links than expected'
+      })
+    }
+
+    // Check timing
+    if (duration) {
+      add('duration', () => {
+        const actual = span.endTimeUnixNano - span.startTimeUnixNano
+        const tooLong = duration.lessThan !== undefined && actual >= duration.lessThan
+        const tooShort = duration.greaterThan !== undefined && actual <= duration.greaterThan
+
+        if (!tooLong && !tooShort) return undefined
+
+        const bounds = [
+          duration.greaterThan !== undefined && `more than ${formatDuration(duration.greaterThan)}`,
+          duration.lessThan !== undefined && `less than ${formatDuration(duration.lessThan)}`,
+        ].filter(Boolean)
+
+        return `expected ${bounds.join(' and ')} got ${formatDuration(actual)}`
+      })
+    }
+    for (const expectedSpan of schema.before ?? []) {
+      add(`happens before ${this.formatSchemaName(expectedSpan)}`, () =>
+        this.describeTemporalMismatch(
+          span,
+          spans,
+          expectedSpan,
+          (other) => span.endTimeUnixNano <= other.startTimeUnixNano,
+        ),
+      )
+    }
+    for (const expectedSpan of schema.overlapping ?? []) {
+      add(`overlaps ${this.formatSchemaName(expectedSpan)}`, () =>
+        this.describeTemporalMismatch(
+          span,
+          spans,
+          expectedSpan,
+          (other) => span.startTimeUnixNano < other.endTimeUnixNano && other.startTimeUnixNano < span.endTimeUnixNano,
+        ),
+      )
+    }
+    for (const expectedSpan of schema.containers ?? []) {
+      add(`contained in ${this.formatSchemaName(expectedSpan)}`, () =>
+        this.describeTemporalMismatch(
+          span,
+          spans,
+          expectedSpan,
+          (other) => other.startTimeUnixNano <= span.startTimeUnixNano && span.endTimeUnixNano <= other.endTimeUnixNano,
+        ),
+      )
+    }
+
+    // Check relationships within the trace
+    if (schema.root) {
+      add('root', () => (span.parentSpanId ? `has parent ${span.parentSpanId}` : undefined))
+    }
+    if (schema.parentSpanId) {
+      const parentSpanId = schema.parentSpanId
+      add('parent span ID', () => describeValueMismatch(span.parentSpanId || undefined, parentSpanId))
+    }
+    if (schema.parent) {
+      const expectedParent = schema.parent
+      add(`parent ${this.formatSchemaName(expectedParent)}`, () => {
+        const parent = this.findParent(span, spans)
+        if (!parent) return span.parentSpanId ? `parent ${span.parentSpanId} not collected` : 'no parent'
+
+        return this.matchesSchema(parent, spans, expectedParent) ? undefined : `got "${parent.name}"`
+      })
+    }
+    for (const expectedAncestor of schema.ancestors ?? []) {
+      add(`ancestor ${this.formatSchemaName(expectedAncestor)}`, () =>
+        this.findAncestors(span, spans).some((ancestor) => this.matchesSchema(ancestor, spans, expectedAncestor))
+          ? undefined
+          : 'missing',
+      )
+    }
+    if (schema.children) {
+      const expectedChildren = schema.children
+      add('children', () => {
+        const children = this.findChildren(span, spans)
+
+        return this.matchesDistinct(children, expectedChildren, (child, expectedChild) =>
+          this.matchesSchema(child, spans, expectedChild),
+        )
+          ? undefined
+          : `expected ${expectedChildren.map((child) => this.formatSchemaName(child)).join(', ')} ` +
+              `got ${children.map((child) => `"${child.name}"`).join(', ') || 'none'}`
+      })
+    }
+
+    return criteria
+  }
+
+  private describeEventsMismatch(span: Span, expectedEvents: EventSchema[], ordered?: boolean): string | undefined {
+    if (this.matchesEvents(span, expectedEvents, ordered)) return undefined
+
+    const events = span.events.filter((event) => this.isWithinSpan(event, span))
+    const missing = expectedEvents.filter(
+      (expectedEvent) => !events.some((event) => this.matchesEvent(event, expectedEvent)),
+    )
+
+    if (missing.length > 0) {
+      return `missing ${missing.map((expectedEvent) => formatExpected(expectedEvent.name)).join(', ')}`
+    }
+
+    return ordered ? 'recorded in a different order' : 'fewer matching events than expected'
+  }
+
+  private describeTemporalMismatch(
+    span: Span,
+    spans: Span[],
+    expectedSpan: SpanSchema,
+    isRelated: (other: Span) => boolean,
+  ): string | undefined {
+    const others = spans.filter((other) => other !== span && this.matchesSchema(other, spans, expectedSpan))
+
+    if (others.length === 0) return 'no such span'
+
+    return others.some(isRelated) ? undefined : 'timing differs'
+  }
+
+  private formatSchemaName(schema: SpanSchema): string {
+    return schema.name ? formatExpected(schema.name) : 'span'
+  }
+
+  private matchesEvents(span: Span, expectedEvents: EventSchema[], ordered?: boolean): boolean {
+    const events = span.events
+      .filter((event) => this.isWithinSpan(event, span))
+      .sort((a, b) => (a.timeUnixNano < b.timeUnixNano ? -1 : a.timeUnixNano > b.timeUnixNano ? 1 : 0))
+    const matchesEvent = (event: Event, expectedEvent: EventSchema) => this.matchesEvent(event, expectedEvent)
+
+    if (!ordered) {
+      return this.matchesDistinct(events, expectedEvents, matchesEvent)
+    }
+
+    // Matching each expected event to the earliest matching event after the previous one finds an
+    // ordered match whenever there is one
+    let index = 0
+    for (const expectedEvent of expectedEvents) {
+      while (index < events.length && !matchesEvent(events[index], expectedEvent)) index++
+      if (index === events.length) return false
+      index++
+    }
+
+    return true
+  }
+
+  private matchesEvent(event: Event, expectedEvent: EventSchema): boolean {
+    return (
+      matchesValue(event.name, expectedEvent.name) &&
+      (expectedEvent.attributes ?? []).every((expectedAttr) => hasAttribute(event.attributes, expectedAttr))
+    )
+  }
+
+  private matchesLink(link: Link, spans: Span[], expectedLink: LinkSchema): boolean {
+    if (expectedLink.traceId && link.traceId !== expectedLink.traceId) return false
+    if (expectedLink.spanId && link.spanId !== expectedLink.spanId) return false
+    if (expectedLink.attributes) {
+      for (const expectedAttr of expectedLink.attributes) {
+        if (!hasAttribute(link.attributes, expectedAttr)) return false
       }
     }
+    if (expectedLink.target) {
+      // The linked span may belong to another trace
+      const target = spans.find((span) => span.traceId === link.traceId && span.spanId === link.spanId)
+      if (!target || !this.matchesSchema(target, spans, expectedLink.target)) return false
+    }
 
     return true
   }
+
+  private isWithinSpan(event: Event, span: Span): boolean {
+    // Spans that have not ended have no end time to compare with
+    return (
+      event.timeUnixNano >= span.startTimeUnixNano &&
+      (span.endTimeUnixNano === 0n || event.timeUnixNano <= span.endTimeUnixNano)
+    )
+  }
+
+  /**
+   * Checks whether every expected item is matched by a different candidate, backtracking when a candidate
+   * matches more than one expected item.
+   */
+  private matchesDistinct<T, E>(
+    candidates: T[],
+    expectedItems: E[],
+    matches: (candidate: T, expected: E) => boolean,
+    assigned = new Set<T>(),
+  ): boolean {
+    if (expectedItems.length === 0) return true
+
+    const [expected, ...remainingItems] = expectedItems
+
+    return candidates.some((candidate) => {
+      if (assigned.has(candidate) || !matches(candidate, expected)) return false
+
+      assigned.add(candidate)
+      const matched = this.matchesDistinct(candidates, remainingItems, matches, assigned)
+      assigned.delete(candidate)
+
+      return matched
+    })
+  }
+
+  private findParent(span: Span, spans: Span[]): Span | undefined {
+    if (!span.parentSpanId) return undefined
+
+    return spans.find((candidate) => candidate.traceId === span.traceId && candidate.spanId === span.parentSpanId)
+  }
+
+  private findChildren(span: Span, spans: Span[]): Span[] {
+    return spans.filter((candidate) => candidate.traceId === span.traceId && candidate.parentSpanId === span.spanId)
+  }
+
+  private findAncestors(span: Span, spans: Span[]): Span[] {
+    const ancestors: Span[] = []
+    let parent = this.findParent(span, spans)
+
+    // Guards against malformed traces where the parent chain loops
+    while (parent && parent !== span && !ancestors.includes(parent)) {
+      ancestors.push(parent)
+      parent = this.findParent(parent, spans)
+    }
+
+    return ancestors
+  }
 }
@@ -1,8 +1,17 @@
 import { SpanAssertionVerifier } from './span.assertion-verifier'
 import { SpanVerifier } from '../verifiers'
-import { SpanKind } from '../enums'
-import { SpanStatus, Span } from '../models'
-import { AttributeValue } from '../../shared/models'
+import { SpanKind, SpanStatusCode } from '../enums'
+import { ExceptionSchema, LinkSchema, SpanReference, SpanSchema, SpanStatusSchema, Span } from '../models'
+import {
+  AssertionVerifier,
+  AttributeValue,
+  Cardinality,
+  DurationBounds,
+  Expected,
+  PlainAttributeValue,
+} from '../../shared/models'
+import { match, ValueMatcher } from '../../shared/matchers'
+import { createAttributeValue, toCardinality, toDurationBounds } from '../../shared/utils'
 
 /**
  * Provides a fluent API for building assertions to verify the properties of OpenTelemetry spans.
@@ -63,19 +72,45 @@ import { AttributeValue } from '../../shared/models'
  */
 export class SpanAssertion {
   protected semanticAttributes: string[] = []
-  private readonly schema: Partial<Span> = {}
+  private readonly schema: SpanSchema = {}
+  private cardinality: Cardinality
 
   constructor(
     private readonly verifier: SpanVerifier,
-    private readonly assertions: SpanAssertionVerifier[],
-    private readonly expectedCount: number,
-  ) {}
+    private readonly assertions: AssertionVerifier<Span>[],
+    expectedCount: number,
+    private readonly observationWindowMs?: number,
+  ) {
+    this.cardinality = { exactly: expectedCount }
+  }
+
+  /**
+   * Sets how many spans are expected to match, replacing the count the assertion was created with.
+   * Use a range when the exact number of spans is not deterministic,
+   * e.g. when auto-instrumentation may emit additional middleware spans.
+   *
+   * @param cardinality The expected number of matching spans, or a range of it.
+   * @returns The `SpanAssertion` instance for chaining.
+   * @throws Error If the cardinality has no bounds or inconsistent bounds.
+   *
+   * @example
+   * ```typescript
+   * assertion.times(3)
+   * assertion.times({ atLeast: 2, atMost: 5 })
+   * assertion.times({ atLeast: 1 })
+   * ```
+   */
+  times(cardinality: Cardinality | number): this {
+    this.cardinality = toCardinality(cardinality)
+
+    return this
+  }
 
   /**
    * Sets the expected name of the span.
    * Span names should be concise, descriptive, and have low cardinality (e.g., avoid using IDs).
    *
-   * @param name The expected span name.
+   * @param name The expected span name, or a matcher for it.
    * @returns The `SpanAssertion` instance for chaining.
    *
    * @example
@@ -100,8 +135,14 @@ export class SpanAssertion {
    * assertion.withName('send-notification')
    * assertion.withName('process-payment')
    * ```
+   *
+   * @example
+   * Dynamic names:
+   * ```typescript
+   * assertion.withName(match.regex(/^HTTP (GET|HEAD)$/))
+   * ```
    */
-  withName(name: string): this {
+  withName(name: string | ValueMatcher): this {
     this.schema.name = name
 
     return this
@@ -150,7 +191,7 @@ export class SpanAssertion {
    * Sets the expected status of the span.
    * The status indicates whether the operation was successful (`OK`), failed (`ERROR`), or is not set (`UNSET`).
    *
-   * @param status The expected span status.
+   * @param status The expected span status. The message may be a matcher and is ignored when not set.
    * @returns The `SpanAssertion` instance for chaining.
    *
    * @example
@@ -176,19 +217,47 @@ export class SpanAssertion {
    *   message: 'HTTP 500 Internal Server Error'
    * })
    * ```
+   *
+   * @example
+   * Dynamic error messages:
+   * ```typescript
+   * assertion.withStatus({
+   *   code: SpanStatusCode.ERROR,
+   *   message: match.regex(/^Order [0-9]+ not found$/)
+   * })
+   * ```
    */
-  withStatus(status: SpanStatus): this {
+  withStatus(status: SpanStatusSchema): this {
     this.schema.status = status
 
     return this
   }
 
+  /**
+   * Sets the expected status message of the span, keeping any expected status code.
+   *
+   * @param message The exact message, a regular expression it must match, or a matcher for it.
+   * @returns The `SpanAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion.withStatusMessage('Insufficient inventory')
+   * assertion.withStatusMessage(/timed out after \d+ms/)
+   * assertion.withStatus({ code: SpanStatusCode.ERROR }).withStatusMessage(match.anyString())
+   * ```
+   */
+  withStatusMessage(message: string | RegExp | ValueMatcher): this {
+    this.schema.status = { ...this.schema.status, message: message instanceof RegExp ? match.regex(message) : message }
+
+    return this
+  }
+
   /**
    * Sets an expected attribute for the span.
    * Attributes provide additional details about the operation, such as `http.method` or `db.system`.
    *
    * @param key The attribute key.
-   * @param value The expected attribute value.
+   * @param value The expected attribute value, or a matcher for it.
    * @returns The `SpanAssertion` instance for chaining.
    *
    * @example
@@ -211,8 +280,25 @@ export class SpanAssertion {
    * Custom business attributes:
    * ```typescript
    * assertion.withAttribute('user.id', '12345')
+   * ```
+   *
+   * @example
+   * Dynamic values:
+   * ```typescript
+   * assertion.withAttribute('http.target', match.regex(/^\/api\/users\/[0-9a-f-]{36}$/))
+   * assertion.withAttribute('net.peer.port', match.range(1024, 65535))
+   * assertion.withAttribute('http.user_agent', match.anyString())
+   * ```
+   *
+   * @example
+   * Array and nested values:
+   * ```typescript
+   * assertion.withAttribute('http.request.header.accept', ['application/json'])
+   * assertion.withAttribute('messaging.batch.ids', ['a1', 'b2', 'c3'])
+   * assertion.withAttribute('config', { retry: { max: 3 } })
+   * ```
    */
-  withAttribute(key: string, value: string | number | boolean): this {
+  withAttribute(key: string, value: PlainAttributeValue | ValueMatcher): this {
     if (!this.schema.attributes) {
       this.schema.attributes = []
     }
@@ -228,7 +314,7 @@ export class SpanAssertion {
    * object where keys are attribute names and values are the expected attribute values.
    * This is useful for defining a set of required attributes for a span.
    *
-   * @param attributes - A record of attribute keys and their expected values
+   * @param attributes - A record of attribute keys and their expected values or matchers
    * @returns This assertion instance for method chaining
    *
    * @example
@@ -261,7 +347,7 @@ export class SpanAssertion {
    * })
    * ```
    */
-  withAttributes(attributes: Record<string, string | number | boolean>): this {
+  withAttributes(attributes: Record<string, PlainAttributeValue | ValueMatcher>): this {
     if (!this.schema.attributes) {
       this.schema.attributes = []
     }
@@ -272,6 +358,75 @@ export class SpanAssertion {
     return this
   }
 
+  /**
+   * Sets the complete set of expected attributes of the span. Unlike `withAttributes`, the span must not carry
+   * any other attribute, except those expected with `withAttribute` or `withAttributePath`.
+   *
+   * @param attributes A record of attribute keys and their expected values or matchers.
+   * @returns The `SpanAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion.withOnlyAttributes({
+   *   'db.system': 'postgresql',
+   *   'db.operation': 'SELECT',
+   * })
+   * ```
+   */
+  withOnlyAttributes(attributes: Record<string, PlainAttributeValue | ValueMatcher>): this {
+    this.schema.onlyAttributes = true
+
+    return this.withAttributes(attributes)
+  }
+
+  /**
+   * Expects the span not to carry an attribute with the given key, whatever its value.
+   *
+   * @param key The key of the forbidden attribute.
+   * @returns The `SpanAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion.withoutAttribute('http.request.header.authorization')
+   * ```
+   */
+  withoutAttribute(key: string): this {
+    if (!this.schema.absentAttributes) {
+      this.schema.absentAttributes = []
+    }
+
+    this.schema.absentAttributes.push(key)
+
+    return this
+  }
+
+  /**
+   * Sets an expected value at a path into a nested attribute value.
+   * The path consists of the attribute key followed by the keys of nested key-value lists,
+   * or the indexes of array elements, separated by dots.
+   *
+   * @param path The dotted path to the value (e.g., `config.retry.max`).
+   * @param value The expected value, or a matcher for it.
+   * @returns The `SpanAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * // Matches the `config` attribute { retry: { max: 3 } }
+   * assertion.withAttributePath('config.retry.max', 3)
+   *
+   * // Matches the first element of the `messaging.batch` attribute
+   * assertion.withAttributePath('messaging.batch.0.id', match.anyString())
+   * ```
+   */
+  withAttributePath(path: string, value: PlainAttributeValue | ValueMatcher): this {
+    if (!this.schema.attributePaths) {
+      this.schema.attributePaths = []
+    }
+    this.schema.attributePaths.push({ key: path, value: this.toAttributeValue(value) })
+
+    return this
+  }
+
   /**
    * Specifies an expected resource attribute for verification.
    *
@@ -288,7 +443,7 @@ export class SpanAssertion {
    * - `cloud.provider`
    *
    * @param key - The resource attribute key
-   * @param value - The expected resource attribute value
+   * @param value - The expected resource attribute value, or a matcher for it
    * @returns This assertion instance for method chaining
    *
    * @example
@@ -312,7 +467,7 @@ export class SpanAssertion {
    * assertion.withResourceAttribute('telemetry.sdk.language', 'nodejs')
    * ```
    */
-  withResourceAttribute(key: string, value: string | number | boolean): this {
+  withResourceAttribute(key: string, value: PlainAttributeValue | ValueMatcher): this {
     if (!this.schema.resourceAttributes) {
       this.schema.resourceAttributes = []
     }
@@ -331,7 +486,7 @@ export class SpanAssertion {
    * This is useful for ensuring that all spans from a service contain the
    * correct set of identifying resource attributes.
    *
-   * @param attributes - A record of resource attribute keys and their expected values
+   * @param attributes - A record of resource attribute keys and their expected values or matchers
    * @returns This assertion instance for method chaining
    *
    * @example
@@ -363,7 +518,7 @@ export class SpanAssertion {
    * })
    * ```
    */
-  withResourceAttributes(attributes: Record<string, string | number | boolean>): this {
+  withResourceAttributes(attributes: Record<string, PlainAttributeValue | ValueMatcher>): this {
     if (!this.schema.resourceAttributes) {
       this.schema.resourceAttributes = []
     }
@@ -377,6 +532,497 @@ export class SpanAssertion {
     return this
   }
 
+  /**
+   * Sets the expected instrumentation scope of the span, i.e. the instrumentation library that produced it.
+   *
+   * @param name The expected scope name (e.g. `@opentelemetry/instrumentation-http`).
+   * @param version The expected scope version. Any version matches when not set.
+   * @returns The `SpanAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion.withScope('@opentelemetry/instrumentation-http')
+   * assertion.withScope('@opentelemetry/instrumentation-http', '0.202.0')
+   * ```
+   */
+  withScope(name: string, version?: string): this {
+    this.schema.scope = { ...this.schema.scope, name, version }
+
+    return this
+  }
+
+  /**
+   * Sets an expected attribute of the instrumentation scope that produced the span.
+   *
+   * @param key The scope attribute key.
+   * @param value The expected scope attribute value, or a matcher for it.
+   * @returns The `SpanAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion.withScope('checkout-tracer').withScopeAttribute('team', 'payments')
+   * assertion.withScopeAttribute('library.language', match.oneOf('nodejs', 'browser'))
+   * ```
+   */
+  withScopeAttribute(key: string, value: PlainAttributeValue | ValueMatcher): this {
+    if (!this.schema.scope) {
+      this.schema.scope = { name: '' }
+    }
+    if (!this.schema.scope.attributes) {
+      this.schema.scope.attributes = []
+    }
+    this.schema.scope.attributes.push({ key, value: this.toAttributeValue(value) })
+
+    return this
+  }
+
+  /**
+   * Sets the expected schema URL of the instrumentation scope that produced the span.
+   * The schema URL identifies the version of the semantic conventions the span attributes follow.
+   *
+   * @param schemaUrl The expected schema URL.
+   * @returns The `SpanAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion.withSchemaUrl('https://opentelemetry.io/schemas/1.34.0')
+   * ```
+   */
+  withSchemaUrl(schemaUrl: string): this {
+    this.schema.scopeSchemaUrl = schemaUrl
+
+    return this
+  }
+
+  /**
+   * Sets the expected schema URL of the resource that produced the span.
+   * The schema URL identifies the version of the semantic conventions the resource attributes follow.
+   *
+   * @param schemaUrl The expected schema URL.
+   * @returns The `SpanAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion.withResourceSchemaUrl('https://opentelemetry.io/schemas/1.34.0')
+   * ```
+   */
+  withResourceSchemaUrl(schemaUrl: string): this {
+    this.schema.resourceSchemaUrl = schemaUrl
+
+    return this
+  }
+
+  /**
+   * Adds an expected event of the span. Each expected event must be matched by a different event,
+   * which must have been recorded between the start and the end of the span.
+   *
+   * @param name The expected event name, or a matcher for it.
+   * @param attributes The expected event attributes. Other attributes of the event are ignored.
+   * @returns The `SpanAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion
+   *   .withEvent('cache.miss', { 'cache.key': 'user:42' })
+   *   .withEvent(match.regex(/^retry/))
+   * ```
+   */
+  withEvent(name: string | ValueMatcher, attributes?: Record<string, PlainAttributeValue | ValueMatcher>): this {
+    if (!this.schema.events) {
+      this.schema.events = []
+    }
+
+    this.schema.events.push({
+      name,
+      attributes:
+        attributes && Object.entries(attributes).map(([key, value]) => ({ key, value: this.toAttributeValue(value) })),
+    })
+
+    return this
+  }
+
+  /**
+   * Sets how many events the span is expected to have.
+   *
+   * @param cardinality The expected number of events, or a range of it.
+   * @param name Only counts the events with this name, or matching this matcher, when set.
+   * @returns The `SpanAssertion` instance for chaining.
+   * @throws Error If the cardinality has no bounds or inconsistent bounds.
+   *
+   * @example
+   * ```typescript
+   * assertion.withEventCount(0, 'exception')
+   * assertion.withEventCount({ atMost: 3 }, match.regex(/^retry/))
+   * ```
+   */
+  withEventCount(cardinality: Cardinality | number, name?: string | ValueMatcher): this {
+    if (!this.schema.eventCounts) {
+      this.schema.eventCounts = []
+    }
+
+    this.schema.eventCounts.push({ name, cardinality: toCardinality(cardinality) })
+
+    return this
+  }
+
+  /**
+   * Requires the expected events to have been recorded in the order they were added with `withEvent`
+   * or `withException`. Other events may be recorded in between.
+   *
+   * @returns The `SpanAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion
+   *   .withEvent('payment.authorized')
+   *   .withEvent('payment.captured')
+   *   .withOrderedEvents()
+   * ```
+   */
+  withOrderedEvents(): this {
+    this.schema.orderedEvents = true
+
+    return this
+  }
+
+  /**
+   * Adds an expected `exception` event, as recorded by `span.recordException()`.
+   * The properties map to the `exception.type`, `exception.message` and `exception.stacktrace`
+   * attributes of the exception semantic conventions. Properties that are not set are not checked.
+   *
+   * @param exception The expected exception properties.
+   * @returns The `SpanAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion
+   *   .withStatus({ code: SpanStatusCode.ERROR })
+   *   .withException({
+   *     type: 'NotFoundException',
+   *     message: match.regex(/order \d+ not found/),
+   *     stacktrace: match.anyString(),
+   *   })
+   * ```
+   */
+  withException(exception: ExceptionSchema = {}): this {
+    const attributes: Record<string, string | ValueMatcher> = {}
+
+    if (exception.type !== undefined) attributes['exception.type'] = exception.type
+    if (exception.message !== undefined) attributes['exception.message'] = exception.message
+    if (exception.stacktrace !== undefined) attributes['exception.stacktrace'] = exception.stacktrace
+
+    return this.withEvent('exception', attributes)
+  }
+
+  /**
+   * Adds an expected link of the span. Each expected link must be matched by a different link.
+   * The linked span is either identified by its IDs, or defined like any other span assertion,
+   * in which case the link must point to a collected span matching it, which may belong to another trace.
+   *
+   * @param target The IDs of the linked span, or a function defining the expected linked span.
+   * When not set, any link matches, which can be refined with `withLinkAttribute`.
+   * @returns The `SpanAssertion` instance for chaining.
+   *
+   * @example
+   * Linking to a span created in the test:
+   * ```typescript
+   * assertion.withName('process-batch').withLink(producerSpan.spanContext())
+   * ```
+   *
+   * @example
+   * Linking to a collected producer span:
+   * ```typescript
+   * assertion
+   *   .withName('orders receive')
+   *   .withKind(SpanKind.CONSUMER)
+   *   .withLink((producer) => producer.withName('orders publish').withKind(SpanKind.PRODUCER))
+   * ```
+   */
+  withLink(target?: SpanReference | ((span: SpanAssertion) => SpanAssertion)): this {
+    if (!this.schema.links) {
+      this.schema.links = []
+    }
+
+    const link: LinkSchema =
+      typeof target === 'function'
+        ? { target: this.buildRelatedSchema(target) }
+        : { traceId: target?.traceId.toLowerCase(), spanId: target?.spanId.toLowerCase() }
+
+    this.schema.links.push(link)
+
+    return this
+  }
+
+  /**
+   * Sets an expected attribute of the link most recently added with `withLink`.
+   * When no link was added yet, this adds a link that only needs to have this attribute.
+   *
+   * @param key The link attribute key.
+   * @param value The expected attribute value, or a matcher for it.
+   * @returns The `SpanAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion
+   *   .withLink(producerSpan.spanContext())
+   *   .withLinkAttribute('messaging.batch.index', 3)
+   * ```
+   */
+  withLinkAttribute(key: string, value: PlainAttributeValue | ValueMatcher): this {
+    if (!this.schema.links || this.schema.links.length === 0) {
+      this.schema.links = [{}]
+    }
+
+    const link = this.schema.links[this.schema.links.length - 1]
+
+    if (!link.attributes) {
+      link.attributes = []
+    }
+
+    link.attributes.push({ key, value: this.toAttributeValue(value) })
+
+    return this
+  }
+
+  /**
+   * Sets how many links the span is expected to have.
+   *
+   * @param cardinality The expected number of links, or a range of it.
+   * @returns The `SpanAssertion` instance for chaining.
+   * @throws Error If the cardinality has no bounds or inconsistent bounds.
+   *
+   * @example
+   * ```typescript
+   * // One link per message in the batch
+   * assertion.withName('process-batch').withLinkCount(10)
+   * ```
+   */
+  withLinkCount(cardinality: Cardinality | number): this {
+    this.schema.linkCount = toCardinality(cardinality)
+
+    return this
+  }
+
+  /**
+   * Sets the bounds of the span duration, i.e. the time between its start and its end.
+   * Durations are in milliseconds, or strings with a unit of `ns`, `us`, `ms`, `s`, `m` or `h`.
+   *
+   * @param bounds The exclusive bounds of the duration.
+   * @returns The `SpanAssertion` instance for chaining.
+   * @throws Error If the bounds are missing or invalid.
+   *
+   * @example
+   * ```typescript
+   * assertion.withName('GET /health').withDuration({ lessThan: '200ms' })
+   *
+   * // The instrumentation records real work
+   * assertion.withName('pg.query:SELECT').withDuration({ greaterThan: 0 })
+   * ```
+   */
+  withDuration(bounds: DurationBounds): this {
+    this.schema.duration = toDurationBounds(bounds)
+
+    return this
+  }
+
+  /**
+   * Requires the span to have ended before another span matching the given assertion started.
+   * The other span may belong to any trace.
+   *
+   * @param build Defines the span that must start after this span has ended.
+   * @returns The `SpanAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * // Retries run sequentially
+   * assertion
+   *   .withName('charge')
+   *   .withAttribute('retry.attempt', 1)
+   *   .happensBefore((next) => next.withName('charge').withAttribute('retry.attempt', 2))
+   * ```
+   */
+  happensBefore(build: (span: SpanAssertion) => SpanAssertion): this {
+    if (!this.schema.before) {
+      this.schema.before = []
+    }
+
+    this.schema.before.push(this.buildRelatedSchema(build))
+
+    return this
+  }
+
+  /**
+   * Requires the span to overlap in time with another span matching the given assertion,
+   * e.g. to verify that operations run concurrently.
+   *
+   * @param build Defines the span that must overlap with this span.
+   * @returns The `SpanAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion
+   *   .withName('fetch-inventory')
+   *   .overlaps((other) => other.withName('fetch-prices'))
+   * ```
+   */
+  overlaps(build: (span: SpanAssertion) => SpanAssertion): this {
+    if (!this.schema.overlapping) {
+      this.schema.overlapping = []
+    }
+
+    this.schema.overlapping.push(this.buildRelatedSchema(build))
+
+    return this
+  }
+
+  /**
+   * Requires the span to lie within the time range of another span matching the given assertion,
+   * i.e. to start no earlier and end no later than it.
+   *
+   * @param build Defines the span that must contain this span.
+   * @returns The `SpanAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion
+   *   .withName('redis-GET')
+   *   .isContainedIn((parent) => parent.withName('GET /redis').withKind(SpanKind.SERVER))
+   * ```
+   */
+  isContainedIn(build: (span: SpanAssertion) => SpanAssertion): this {
+    if (!this.schema.containers) {
+      this.schema.containers = []
+    }
+
+    this.schema.containers.push(this.buildRelatedSchema(build))
+
+    return this
+  }
+
+  /**
+   * Expects the span to describe a failed operation, following the error semantic conventions:
+   * the status code is `ERROR`, the `error.type` attribute is set and an exception was recorded.
+   * An expected status message is kept, so this can be combined with `withStatusMessage`.
+   *
+   * @param type The expected `error.type`, or a matcher for it. Any error type matches when not set.
+   * @returns The `SpanAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion.withName('GET /orders/:id').withError()
+   * assertion.withName('charge').withError('PaymentDeclinedError').withStatusMessage(/declined/)
+   * ```
+   */
+  withError(type: string | ValueMatcher = match.anyString()): this {
+    this.schema.status = { ...this.schema.status, code: SpanStatusCode.ERROR }
+
+    return this.withAttribute('error.type', type).withException()
+  }
+
+  /**
+   * Requires the span to be the root of its trace, i.e. to have no parent span.
+   *
+   * @returns The `SpanAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion.withName('GET /orders').withKind(SpanKind.SERVER).isRoot()
+   * ```
+   */
+  isRoot(): this {
+    this.schema.root = true
+
+    return this
+  }
+
+  /**
+   * Sets the expected parent span ID of the span. Unlike `withParent`, the parent span does not need to be collected,
+   * e.g. when it belongs to the client that propagated the trace context to the application.
+   *
+   * @param spanId The expected parent span ID, as a hex string.
+   * @returns The `SpanAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * const { spans, parentSpanId } = await collector.request('http://localhost:3000/api/users')
+   *
+   * await spans.toHaveSpan().withKind(SpanKind.SERVER).withParentSpanId(parentSpanId).assert().assertAll()
+   * ```
+   */
+  withParentSpanId(spanId: string): this {
+    this.schema.parentSpanId = spanId.toLowerCase()
+
+    return this
+  }
+
+  /**
+   * Sets the expected parent of the span, i.e. the span in the same trace whose ID is its parent span ID.
+   *
+   * @param build Defines the expected parent span on the given assertion.
+   * @returns The `SpanAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion
+   *   .withName('redis-GET')
+   *   .withParent((parent) => parent.withName('GET /redis').withKind(SpanKind.SERVER))
+   * ```
+   */
+  withParent(build: (parent: SpanAssertion) => SpanAssertion): this {
+    this.schema.parent = this.buildRelatedSchema(build)
+
+    return this
+  }
+
+  /**
+   * Adds an expected child of the span. Each expected child must be matched by a different child span,
+   * so the same child can be expected more than once to require multiple matching children.
+   *
+   * @param build Defines the expected child span on the given assertion.
+   * @returns The `SpanAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion
+   *   .withName('GET /redis')
+   *   .withChild((child) => child.withName('redis-GET'))
+   *   .withChild((child) => child.withName('redis-SET'))
+   * ```
+   */
+  withChild(build: (child: SpanAssertion) => SpanAssertion): this {
+    if (!this.schema.children) {
+      this.schema.children = []
+    }
+
+    this.schema.children.push(this.buildRelatedSchema(build))
+
+    return this
+  }
+
+  /**
+   * Adds an expected ancestor of the span, i.e. a span anywhere up its parent chain.
+   *
+   * @param build Defines the expected ancestor span on the given assertion.
+   * @returns The `SpanAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * // The query runs on behalf of the incoming request, however deep it is nested
+   * assertion
+   *   .withName('pg.query:SELECT')
+   *   .withAncestor((ancestor) => ancestor.withKind(SpanKind.SERVER).withName('GET /users'))
+   * ```
+   */
+  withAncestor(build: (ancestor: SpanAssertion) => SpanAssertion): this {
+    if (!this.schema.ancestors) {
+      this.schema.ancestors = []
+    }
+
+    this.schema.ancestors.push(this.buildRelatedSchema(build))
+
+    return this
+  }
+
   /**
    * Finalizes the span assertion and adds it to the verification queue.
    *
@@ -444,7 +1090,13 @@ export class SpanAssertion {
     const originalStack = error.stack
 
     this.assertions.push(
-      new SpanAssertionVerifier(this.schema, this.semanticAttributes, this.expectedCount, originalStack),
+      new SpanAssertionVerifier(
+        this.schema,
+        this.semanticAttributes,
+        this.cardinality,
+        originalStack,
+        this.observationWindowMs,
+      ),
     )
 
     return this.verifier
@@ -456,25 +1108,33 @@ export class SpanAssertion {
    * Internal utility method that handles type conversion for attribute values
    * to match the OpenTelemetry data model specification.
    *
-   * @param value - The value to convert
+   * @param value - The value to convert. Matchers are returned as is.
    * @returns OpenTelemetry-compatible AttributeValue
    * @throws {Error} When the value type is not supported
    *
    * @private
    */
-  private toAttributeValue(value: string | number | boolean): AttributeValue {
-    if (typeof value === 'string') {
-      return { stringValue: value }
-    } else if (typeof value === 'number') {
-      if (Number.isInteger(value)) {
-        return { intValue: value }
-      } else {
-        return { doubleValue: value }
-      }
-    } else if (typeof value === 'boolean') {
-      return { boolValue: value }
-    } else {
-      throw new Error(`Unsupported attribute type: ${typeof value}`)
-    }
+  private toAttributeValue(value: PlainAttributeValue): AttributeValue
+  private toAttributeValue(value: PlainAttributeValue | ValueMatcher): Expected<AttributeValue>
+  private toAttributeValue(value: PlainAttributeValue | ValueMatcher): Expected<AttributeValue> {
+    return value instanceof ValueMatcher ? value : createAttributeValue(value)
+  }
+
+  /**
+   * Returns the expected properties of the span, e.g. to match spans without registering the assertion.
+   *
+   * @internal
+   */
+  getSchema(): SpanSchema {
+    return this.schema
+  }
+
+  /**
+   * Builds the schema of a related span on a detached assertion, which is never registered on its own.
+   *
+   * @private
+   */
+  private buildRelatedSchema(build: (assertion: SpanAssertion) => SpanAssertion): SpanSchema {
+    return build(new SpanAssertion(this.verifier, [], 1)).getSchema()
   }
 }
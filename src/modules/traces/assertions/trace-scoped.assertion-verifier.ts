@@ -0,0 +1,20 @@
+import { Span } from '../models'
+import { AssertionVerifier } from '../../shared/models'
+
+/**
+ * Verifies an assertion against the spans of a single trace, ignoring the spans of all other traces.
+ */
+export class TraceScopedAssertionVerifier implements AssertionVerifier<Span> {
+  readonly observationWindowMs?: number
+
+  constructor(
+    private readonly traceId: string,
+    private readonly assertion: AssertionVerifier<Span>,
+  ) {
+    this.observationWindowMs = assertion.observationWindowMs
+  }
+
+  verify(spans: Span[]): void {
+    this.assertion.verify(spans.filter((span) => span.traceId === this.traceId))
+  }
+}
@@ -0,0 +1,163 @@
+import * as assert from 'assert'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { dirname } from 'path'
+
+import { SpanAssertionVerifier } from './span.assertion-verifier'
+import { Span, SpanSnapshot } from '../models'
+import { SpanKind, SpanStatusCode } from '../enums'
+import { AssertionVerifier, Attribute, PlainAttributeValue } from '../../shared/models'
+import { bigIntJsonReplacer, toPlainValue } from '../../shared/utils'
+
+const HOST_ATTRIBUTE_KEYS = new Set([
+  'client.address',
+  'host.name',
+  'http.client_ip',
+  'http.host',
+  'net.host.ip',
+  'net.host.name',
+  'net.peer.ip',
+  'net.peer.name',
+  'network.local.address',
+  'network.peer.address',
+  'server.address',
+])
+const PORT_ATTRIBUTE_KEY = /(^|\.)port$/
+const DURATION_ATTRIBUTE_KEY = /(^|[._])duration$/
+const TIMESTAMP_ATTRIBUTE_KEY = /(^|[._])(time|timestamp)$/
+const TRACE_ID = /\b[0-9a-f]{32}\b/gi
+const SPAN_ID = /\b[0-9a-f]{16}\b/gi
+const URL_AUTHORITY = /\/\/[^/:?#\s]+(:\d+)?/g
+
+export class TraceSnapshotAssertionVerifier implements AssertionVerifier<Span> {
+  /**
+   * @param root Matches the span the snapshot starts from.
+   * @param snapshotPath The path of the snapshot file.
+   * @param update Whether to overwrite the snapshot file instead of comparing against it.
+   * @param writeMissing Whether to write the snapshot file when it does not exist, instead of failing.
+   * @param maskAttributes Keys of additional attributes to mask.
+   */
+  constructor(
+    private readonly name: string,
+    private readonly root: SpanAssertionVerifier,
+    private readonly snapshotPath: string,
+    private readonly update: boolean,
+    private readonly writeMissing: boolean,
+    private readonly maskAttributes: string[],
+    private readonly originalStack?: string,
+  ) {}
+
+  verify(spans: Span[]): void {
+    try {
+      const roots = spans.filter((span) => this.root.matches(span, spans))
+      assert.ok(
+        roots.length === 1,
+        `Expected exactly 1 span matching the root of trace snapshot "${this.name}", found ${roots.length}` +
+          (roots.length > 1
+            ? `: ${roots.map((root) => `"${root.name}" (${root.traceId}/${root.spanId})`).join(', ')}`
+            : ''),
+      )
+
+      // Child spans usually end, and are therefore exported, before their parent,
+      // so the subtree below a collected root span is complete
+      const snapshot = this.toJson(this.toSnapshot(roots[0], spans))
+      const exists = existsSync(this.snapshotPath)
+
+      if (this.update || !exists) {
+        assert.ok(
+          exists || this.writeMissing,
+          `Trace snapshot "${this.name}" is missing (${this.snapshotPath}). ` +
+            'New snapshots are not written in CI, write it locally or enable the `updateSnapshots` option',
+        )
+        mkdirSync(dirname(this.snapshotPath), { recursive: true })
+        writeFileSync(this.snapshotPath, `${JSON.stringify(snapshot, null, 2)}\n`)
+        return
+      }
+
+      try {
+        assert.deepStrictEqual(snapshot, JSON.parse(readFileSync(this.snapshotPath, 'utf8')))
+      } catch (error) {
+        if (error instanceof assert.AssertionError) {
+          error.message = `Trace snapshot "${this.name}" (${this.snapshotPath}) does not match:\n${error.message}`
+        }
+        throw error
+      }
+    } catch (error) {
+      if (error instanceof Error && this.originalStack) {
+        error.stack = this.originalStack
+      }
+      throw error
+    }
+  }
+
+  private toSnapshot(span: Span, spans: Span[], ancestors = new Set<Span>()): SpanSnapshot {
+    // Guards against malformed traces where the parent chain loops
+    const path = new Set(ancestors).add(span)
+    const children = spans
+      .filter((child) => child.traceId === span.traceId && child.parentSpanId === span.spanId && !path.has(child))
+      .map((child) => this.toSnapshot(child, spans, path))
+      .sort((a, b) => JSON.stringify(a).localeCompare(JSON.stringify(b)))
+    const events = [...span.events].sort((a, b) =>
+      a.timeUnixNano < b.timeUnixNano ? -1 : a.timeUnixNano > b.timeUnixNano ? 1 : 0,
+    )
+
+    return {
+      name: span.name,
+      kind: SpanKind[span.kind],
+      scope: span.scope?.name,
+      status: { code: SpanStatusCode[span.status.code], message: span.status.message || undefined },
+      attributes: this.toSnapshotAttributes(span.attributes),
+      events:
+        events.length > 0
+          ? events.map((event) => ({ name: event.name, attributes: this.toSnapshotAttributes(event.attributes) }))
+          : undefined,
+      links:
+        span.links.length > 0
+          ? span.links.map((link) => ({ attributes: this.toSnapshotAttributes(link.attributes) }))
+          : undefined,
+      children: children.length > 0 ? children : undefined,
+    }
+  }
+
+  private toSnapshotAttributes(attributes: Attribute[]): Record<string, unknown> {
+    const result: Record<string, unknown> = {}
+
+    for (const { key, value } of [...attributes].sort((a, b) => a.key.localeCompare(b.key))) {
+      result[key] = this.maskValue(key, toPlainValue(value))
+    }
+
+    return result
+  }
+
+  private maskValue(key: string, value: PlainAttributeValue | undefined): unknown {
+    if (this.maskAttributes.includes(key)) return '<masked>'
+    if (HOST_ATTRIBUTE_KEYS.has(key)) return '<host>'
+    if (PORT_ATTRIBUTE_KEY.test(key)) return '<port>'
+    if (DURATION_ATTRIBUTE_KEY.test(key)) return '<duration>'
+    if (TIMESTAMP_ATTRIBUTE_KEY.test(key)) return '<timestamp>'
+
+    return this.maskNestedValue(value)
+  }
+
+  private maskNestedValue(value: PlainAttributeValue | undefined): unknown {
+    if (typeof value === 'string') {
+      return value
+        .replace(TRACE_ID, '<trace-id>')
+        .replace(SPAN_ID, '<span-id>')
+        .replace(URL_AUTHORITY, (_, port?: string) => (port ? '//<host>:<port>' : '//<host>'))
+    }
+    if (value instanceof Uint8Array) return `0x${Buffer.from(value).toString('hex')}`
+    if (Array.isArray(value)) return value.map((item) => this.maskNestedValue(item))
+    if (typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.maskValue(key, item)]))
+    }
+
+    return value
+  }
+
+  /**
+   * Converts a snapshot to its JSON representation, so that it compares equal to a stored snapshot.
+   */
+  private toJson(snapshot: SpanSnapshot): unknown {
+    return JSON.parse(JSON.stringify(snapshot, bigIntJsonReplacer))
+  }
+}
@@ -0,0 +1,31 @@
+import * as assert from 'assert'
+
+import { Span } from '../models'
+import { AssertionVerifier } from '../../shared/models'
+
+export class UniqueSpanAssertionVerifier implements AssertionVerifier<Span> {
+  constructor(private readonly originalStack?: string) {}
+
+  verify(spans: Span[]): void {
+    const spansById = new Map<string, Span[]>()
+    for (const span of spans) {
+      const id = `${span.traceId}/${span.spanId}`
+      spansById.set(id, [...(spansById.get(id) ?? []), span])
+    }
+
+    const duplicates = [...spansById.entries()].filter(([, sameIdSpans]) => sameIdSpans.length > 1)
+
+    try {
+      assert.ok(
+        duplicates.length === 0,
+        `Expected no duplicate spans, found ${duplicates.length} spans received more than once: ` +
+          duplicates.map(([id, sameIdSpans]) => `"${sameIdSpans[0].name}" (${id}) x${sameIdSpans.length}`).join(', '),
+      )
+    } catch (error) {
+      if (error instanceof Error && this.originalStack) {
+        error.stack = this.originalStack
+      }
+      throw error
+    }
+  }
+}
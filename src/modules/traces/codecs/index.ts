@@ -0,0 +1 @@
+export * from './trace-service.codec'
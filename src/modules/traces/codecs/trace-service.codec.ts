@@ -0,0 +1,8 @@
+import { OTLP_PROTO_ROOT, OtlpProtobufCodec } from '../../shared/codecs'
+import { TraceExportDto, TraceExportResponseDto } from '../dtos'
+
+export const TRACE_SERVICE_CODEC = new OtlpProtobufCodec<TraceExportDto, TraceExportResponseDto>(
+  'opentelemetry.proto.collector.trace.v1.TraceService',
+  OTLP_PROTO_ROOT.lookupType('opentelemetry.proto.collector.trace.v1.ExportTraceServiceRequest'),
+  OTLP_PROTO_ROOT.lookupType('opentelemetry.proto.collector.trace.v1.ExportTraceServiceResponse'),
+)
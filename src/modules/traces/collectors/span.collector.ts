@@ -1,7 +1,30 @@
 import { Injectable } from '@nestjs/common'
 
 import { AbstractTelemetryCollector } from '../../shared/collectors'
+import { Mark, TimeWindow } from '../../shared/models'
 import { Span } from '../models/span.model'
 
 @Injectable()
-export class SpanCollector extends AbstractTelemetryCollector<Span> {}
+export class SpanCollector extends AbstractTelemetryCollector<Span> {
+  /**
+   * Places spans in time windows by their start time rather than the time they were received,
+   * since batching span processors may export a span long after it ended.
+   */
+  protected isWithinTimeWindow(span: Span, window: TimeWindow): boolean {
+    return (
+      (window.from === undefined || this.startedAfter(span, window.from)) &&
+      (window.to === undefined || !this.startedAfter(span, window.to))
+    )
+  }
+
+  /**
+   * Checks whether a span started after a mark. Marks have the millisecond resolution of the wall clock,
+   * so spans started within the millisecond of a mark are ordered by the time they were received instead.
+   */
+  private startedAfter(span: Span, mark: Mark): boolean {
+    const startMillis = span.startTimeUnixNano / 1_000_000n
+    const markMillis = mark.timeUnixNano / 1_000_000n
+
+    return startMillis === markMillis ? super.isWithinTimeWindow(span, { from: mark }) : startMillis > markMillis
+  }
+}
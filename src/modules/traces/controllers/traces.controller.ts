@@ -1,32 +1,28 @@
-import { Controller, Post, Body, Get } from '@nestjs/common'
+import { Controller, Post, Body, Get, UseInterceptors } from '@nestjs/common'
 
 import { SpanCollector } from '../collectors'
 import { TraceExportDto, TraceExportResponseDto } from '../dtos'
 import { Span } from '../models/span.model'
+import { TraceReceiver } from '../receivers'
+import { TRACE_SERVICE_CODEC } from '../codecs'
+import { OtlpContentNegotiationInterceptor } from '../../transport/interceptors'
+import { HttpExportMetadata } from '../../transport/decorators'
+import { ExportRequestMetadata } from '../../transport/models'
 
 @Controller()
 export class TracesController {
-  constructor(private readonly collector: SpanCollector) {}
+  constructor(
+    private readonly collector: SpanCollector,
+    private readonly receiver: TraceReceiver,
+  ) {}
 
   @Post('v1/traces')
-  handleTraces(@Body() data: TraceExportDto): TraceExportResponseDto {
-    for (const resourceSpan of data.resourceSpans) {
-      const resourceAttributes = resourceSpan.resource?.attributes || []
-      for (const scopeSpan of resourceSpan.scopeSpans) {
-        if (!scopeSpan.spans) {
-          continue
-        }
-
-        const enrichedSpans: Span[] = scopeSpan.spans.map((span) => ({
-          ...span,
-          resourceAttributes,
-        }))
-
-        this.collector.collect(enrichedSpans)
-      }
-    }
-
-    return {}
+  @UseInterceptors(new OtlpContentNegotiationInterceptor(TRACE_SERVICE_CODEC))
+  handleTraces(
+    @Body() data: TraceExportDto,
+    @HttpExportMetadata() metadata: ExportRequestMetadata,
+  ): Promise<TraceExportResponseDto> {
+    return this.receiver.receive(data, metadata)
   }
 
   @Get('traces')
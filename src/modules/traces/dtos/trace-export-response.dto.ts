@@ -3,6 +3,6 @@ export interface TraceExportResponseDto {
 }
 
 interface ExportTracePartialSuccess {
-  rejectedSpans?: number
+  rejectedSpans?: number | string
   errorMessage?: string
 }
@@ -1,7 +1,11 @@
+/**
+ * The kind of a span, with the values of the OTLP `Span.SpanKind` enum received from exporters.
+ */
 export enum SpanKind {
-  INTERNAL = 0,
-  SERVER = 1,
-  CLIENT = 2,
-  PRODUCER = 3,
-  CONSUMER = 4,
+  UNSPECIFIED = 0,
+  INTERNAL = 1,
+  SERVER = 2,
+  CLIENT = 3,
+  PRODUCER = 4,
+  CONSUMER = 5,
 }
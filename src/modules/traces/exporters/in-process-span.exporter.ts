@@ -0,0 +1,28 @@
+import { Injectable } from '@nestjs/common'
+import { ReadableSpan, SpanExporter } from '@opentelemetry/sdk-trace-base'
+import { JsonTraceSerializer } from '@opentelemetry/otlp-transformer'
+
+import { TraceExportDto } from '../dtos'
+import { TraceReceiver } from '../receivers'
+import { AbstractInProcessExporter } from '../../transport/exporters'
+
+/**
+ * A `SpanExporter` that passes finished spans straight to the collector, without a network round trip.
+ * Use it with `SimpleSpanProcessor` to make spans available to `verifiers.spans` as soon as they end.
+ *
+ * @example
+ * ```typescript
+ * const provider = new BasicTracerProvider({
+ *   spanProcessors: [new SimpleSpanProcessor(collector.exporters.spans)],
+ * })
+ * ```
+ */
+@Injectable()
+export class InProcessSpanExporter
+  extends AbstractInProcessExporter<ReadableSpan[], TraceExportDto>
+  implements SpanExporter
+{
+  constructor(receiver: TraceReceiver) {
+    super(receiver, JsonTraceSerializer)
+  }
+}
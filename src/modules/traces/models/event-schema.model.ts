@@ -0,0 +1,30 @@
+import { Cardinality, Expected, ExpectedAttribute } from '../../shared/models'
+
+/**
+ * The expected properties of a span event, where the name and attribute values may be matchers.
+ */
+export interface EventSchema {
+  name: Expected<string>
+  attributes?: ExpectedAttribute[]
+}
+
+/**
+ * The expected number of span events, optionally only counting events with a matching name.
+ */
+export interface EventCountSchema {
+  name?: Expected<string>
+  cardinality: Cardinality
+}
+
+/**
+ * The expected properties of an exception recorded on a span, following the exception semantic conventions.
+ * Properties that are not set are not checked.
+ */
+export interface ExceptionSchema {
+  /** The expected `exception.type`, e.g. the class name of the error. */
+  type?: Expected<string>
+  /** The expected `exception.message`. */
+  message?: Expected<string>
+  /** The expected `exception.stacktrace`, e.g. `match.anyString()` to require one. */
+  stacktrace?: Expected<string>
+}
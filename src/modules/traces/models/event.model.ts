@@ -1,7 +1,7 @@
-import { Attribute, Fixed64 } from '../../shared/models'
+import { Attribute } from '../../shared/models'
 
 export interface Event {
-  timeUnixNano: Fixed64
+  timeUnixNano: bigint
   name: string
   attributes: Attribute[]
   droppedAttributesCount: number
@@ -1,4 +1,13 @@
+export * from './event-schema.model'
+export * from './event.model'
+export * from './link-schema.model'
+export * from './link.model'
 export * from './resource-span.model'
 export * from './scope-spans.model'
+export * from './span-schema.model'
+export * from './span-snapshot.model'
 export * from './span-status.model'
+export * from './span-tree.model'
 export * from './span.model'
+export * from './trace-context.model'
+export * from './trace-snapshot-options.model'
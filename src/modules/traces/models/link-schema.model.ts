@@ -0,0 +1,21 @@
+import { ExpectedAttribute } from '../../shared/models'
+import { SpanSchema } from './span-schema.model'
+
+/**
+ * Identifies a span by its trace ID and span ID, e.g. the `SpanContext` of a span created with the SDK.
+ */
+export interface SpanReference {
+  traceId: string
+  spanId: string
+}
+
+/**
+ * The expected properties of a span link. The linked span is either identified by its IDs,
+ * or by the properties of a collected span the link must point to.
+ */
+export interface LinkSchema {
+  traceId?: string
+  spanId?: string
+  target?: SpanSchema
+  attributes?: ExpectedAttribute[]
+}
@@ -1,8 +1,8 @@
 import { Attribute } from '../../shared/models'
 
 export interface Link {
-  traceId: string | Uint8Array
-  spanId: string | Uint8Array
+  traceId: string
+  spanId: string
   traceState?: string
   attributes: Attribute[]
   droppedAttributesCount: number
@@ -0,0 +1,85 @@
+import {
+  Cardinality,
+  DurationBounds,
+  Expected,
+  ExpectedAttribute,
+  ExpectedInstrumentationScope,
+} from '../../shared/models'
+import { EventCountSchema, EventSchema } from './event-schema.model'
+import { LinkSchema } from './link-schema.model'
+import { Span } from './span.model'
+import { SpanStatus } from './span-status.model'
+
+/**
+ * The expected properties of a span, where names, status messages and attribute values may be matchers.
+ */
+export interface SpanSchema
+  extends Partial<Omit<Span, 'name' | 'status' | 'attributes' | 'resourceAttributes' | 'scope' | 'events' | 'links'>> {
+  name?: Expected<string>
+  status?: SpanStatusSchema
+  attributes?: ExpectedAttribute[]
+  /**
+   * Expected values at dotted paths into nested attribute values, keyed by the path.
+   */
+  attributePaths?: ExpectedAttribute[]
+  /**
+   * Whether attributes other than the expected attributes and the roots of the expected attribute paths are forbidden.
+   */
+  onlyAttributes?: boolean
+  /**
+   * Keys of attributes that must not be present.
+   */
+  absentAttributes?: string[]
+  resourceAttributes?: ExpectedAttribute[]
+  scope?: ExpectedInstrumentationScope
+  /**
+   * The expected events. Each must be matched by a different event recorded within the span's duration.
+   */
+  events?: EventSchema[]
+  /**
+   * Whether the expected events must have been recorded in the order they are listed.
+   */
+  orderedEvents?: boolean
+  eventCounts?: EventCountSchema[]
+  /**
+   * The expected links. Each must be matched by a different link.
+   */
+  links?: LinkSchema[]
+  linkCount?: Cardinality
+  /**
+   * The bounds of the span duration in nanoseconds.
+   */
+  duration?: DurationBounds<bigint>
+  /**
+   * Spans that must start after the span has ended.
+   */
+  before?: SpanSchema[]
+  /**
+   * Spans whose time range must overlap with the span.
+   */
+  overlapping?: SpanSchema[]
+  /**
+   * Spans that must have started before and ended after the span.
+   */
+  containers?: SpanSchema[]
+  /**
+   * Whether the span must be the root of its trace, i.e. have no parent span.
+   */
+  root?: boolean
+  /**
+   * The expected parent span.
+   */
+  parent?: SpanSchema
+  /**
+   * The expected child spans. Each must be matched by a different child span.
+   */
+  children?: SpanSchema[]
+  /**
+   * The expected spans anywhere up the parent chain.
+   */
+  ancestors?: SpanSchema[]
+}
+
+export interface SpanStatusSchema extends Partial<Omit<SpanStatus, 'message'>> {
+  message?: Expected<string>
+}
@@ -0,0 +1,14 @@
+/**
+ * The serialized form of a span and its descendants in a trace snapshot.
+ * Values that vary between runs are masked, and children are sorted by their content to be independent of timing.
+ */
+export interface SpanSnapshot {
+  name: string
+  kind: string
+  scope?: string
+  status: { code: string; message?: string }
+  attributes: Record<string, unknown>
+  events?: { name: string; attributes: Record<string, unknown> }[]
+  links?: { attributes: Record<string, unknown> }[]
+  children?: SpanSnapshot[]
+}
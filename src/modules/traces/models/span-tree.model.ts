@@ -0,0 +1,16 @@
+import { Expected, PlainAttributeValue } from '../../shared/models'
+import { ValueMatcher } from '../../shared/matchers'
+import { SpanKind } from '../enums'
+import { SpanStatusSchema } from './span-schema.model'
+
+/**
+ * A declarative description of a subtree of spans within a single trace.
+ * Each child must be matched by a different child span of the span matching its parent node.
+ */
+export interface SpanTree {
+  name?: Expected<string>
+  kind?: SpanKind
+  status?: SpanStatusSchema
+  attributes?: Record<string, PlainAttributeValue | ValueMatcher>
+  children?: SpanTree[]
+}
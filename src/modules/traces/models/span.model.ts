@@ -1,18 +1,18 @@
-import { Attribute, Fixed64 } from '../../shared/models'
+import { Attribute, InstrumentationScope } from '../../shared/models'
 import { Event } from './event.model'
 import { Link } from './link.model'
 import { SpanKind } from '../enums'
 import { SpanStatus } from './span-status.model'
 
 export interface Span {
-  traceId: string | Uint8Array
-  spanId: string | Uint8Array
+  traceId: string
+  spanId: string
   traceState?: string | null
-  parentSpanId?: string | Uint8Array
+  parentSpanId?: string
   name: string
   kind: SpanKind
-  startTimeUnixNano: Fixed64
-  endTimeUnixNano: Fixed64
+  startTimeUnixNano: bigint
+  endTimeUnixNano: bigint
   attributes: Attribute[]
   droppedAttributesCount: number
   events: Event[]
@@ -21,4 +21,7 @@ export interface Span {
   droppedLinksCount: number
   status: SpanStatus
   resourceAttributes?: Attribute[]
+  resourceSchemaUrl?: string
+  scope?: InstrumentationScope
+  scopeSchemaUrl?: string
 }
@@ -0,0 +1,13 @@
+/**
+ * A W3C trace context, to propagate to the application under test.
+ *
+ * @see https://www.w3.org/TR/trace-context/
+ */
+export interface TraceContext {
+  /** The trace ID, as a lowercase hex string of 32 characters. */
+  traceId: string
+  /** The ID of the span the application should parent its spans to, as a lowercase hex string of 16 characters. */
+  spanId: string
+  /** The value of the `traceparent` header, with the sampled flag set. */
+  traceparent: string
+}
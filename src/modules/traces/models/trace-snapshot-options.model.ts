@@ -0,0 +1,16 @@
+import { SpanAssertion } from '../assertions'
+
+/**
+ * Selects the subtree of a trace to snapshot and how to mask its values.
+ */
+export interface TraceSnapshotOptions {
+  /**
+   * Defines the span the snapshot starts from. All spans below it in the same trace are included.
+   */
+  root: (span: SpanAssertion) => SpanAssertion
+  /**
+   * Keys of attributes whose values vary between runs and are masked in addition to
+   * IDs, timestamps, durations, ports and host names.
+   */
+  maskAttributes?: string[]
+}
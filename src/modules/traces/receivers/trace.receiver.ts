@@ -0,0 +1,87 @@
+import { Injectable } from '@nestjs/common'
+
+import { SpanCollector } from '../collectors'
+import { TraceExportDto, TraceExportResponseDto } from '../dtos'
+import { Event, Link, Span } from '../models'
+import { TelemetrySignal } from '../../shared/enums'
+import { formatId, normalizeAttributes, normalizeScope, toArray, toBigInt } from '../../shared/utils'
+import { ExportRequestCollector } from '../../transport/collectors'
+import { PartialSuccessFault } from '../../transport/models'
+import { AbstractExportReceiver } from '../../transport/receivers'
+import { FaultInjector, InFlightExportTracker, LatencySimulator } from '../../transport/services'
+
+/**
+ * Receives OTLP trace export requests, regardless of the transport they arrived on,
+ * and flattens them into enriched spans stored by the `SpanCollector`.
+ *
+ * Spans are normalized on ingest, since OTLP/JSON encodes 64-bit integers as strings and IDs as hex,
+ * while OTLP/protobuf carries IDs as bytes: IDs become lowercase hex strings, timestamps become `bigint`
+ * nanoseconds and integer attribute values become a `number`, or a `bigint` if they are not safe integers.
+ */
+@Injectable()
+export class TraceReceiver extends AbstractExportReceiver<TraceExportDto, TraceExportResponseDto> {
+  protected readonly signal = TelemetrySignal.TRACES
+
+  constructor(
+    private readonly collector: SpanCollector,
+    exportRequestCollector: ExportRequestCollector,
+    faultInjector: FaultInjector,
+    latencySimulator: LatencySimulator,
+    inFlightTracker: InFlightExportTracker,
+  ) {
+    super(exportRequestCollector, faultInjector, latencySimulator, inFlightTracker)
+  }
+
+  protected ingest(data: TraceExportDto): void {
+    for (const resourceSpan of data.resourceSpans) {
+      const resourceAttributes = normalizeAttributes(resourceSpan.resource?.attributes)
+      for (const scopeSpan of resourceSpan.scopeSpans) {
+        if (!scopeSpan.spans) {
+          continue
+        }
+
+        const scope = normalizeScope(scopeSpan.scope)
+        const enrichedSpans: Span[] = scopeSpan.spans.map((span) => ({
+          ...this.normalizeSpan(span),
+          resourceAttributes,
+          resourceSchemaUrl: resourceSpan.schemaUrl || undefined,
+          scope,
+          scopeSchemaUrl: scopeSpan.schemaUrl || undefined,
+        }))
+
+        this.collector.collect(enrichedSpans)
+      }
+    }
+  }
+
+  private normalizeSpan(span: Span): Span {
+    return {
+      ...span,
+      traceId: formatId(span.traceId),
+      spanId: formatId(span.spanId),
+      parentSpanId: formatId(span.parentSpanId) || undefined,
+      startTimeUnixNano: toBigInt(span.startTimeUnixNano),
+      endTimeUnixNano: toBigInt(span.endTimeUnixNano),
+      attributes: normalizeAttributes(span.attributes),
+      events: toArray(span.events).map((event) => this.normalizeEvent(event)),
+      links: toArray(span.links).map((link) => this.normalizeLink(link)),
+    }
+  }
+
+  private normalizeEvent(event: Event): Event {
+    return { ...event, timeUnixNano: toBigInt(event.timeUnixNano), attributes: normalizeAttributes(event.attributes) }
+  }
+
+  private normalizeLink(link: Link): Link {
+    return {
+      ...link,
+      traceId: formatId(link.traceId),
+      spanId: formatId(link.spanId),
+      attributes: normalizeAttributes(link.attributes),
+    }
+  }
+
+  protected createPartialSuccessResponse(fault: PartialSuccessFault): TraceExportResponseDto {
+    return { partialSuccess: { rejectedSpans: fault.rejected, errorMessage: fault.errorMessage } }
+  }
+}
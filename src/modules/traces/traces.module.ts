@@ -3,12 +3,14 @@ import { Module, Global } from '@nestjs/common'
 import { SpanCollector } from './collectors'
 import { TracesController } from './controllers'
 import { SpanVerifier } from './verifiers'
+import { TraceReceiver } from './receivers'
+import { InProcessSpanExporter } from './exporters'
 
 @Global()
 @Module({
   imports: [],
   controllers: [TracesController],
-  providers: [SpanCollector, SpanVerifier],
-  exports: [SpanVerifier],
+  providers: [SpanCollector, SpanVerifier, TraceReceiver, InProcessSpanExporter],
+  exports: [SpanVerifier, TraceReceiver, InProcessSpanExporter],
 })
 export class TracesModule {}
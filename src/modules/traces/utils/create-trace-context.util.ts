@@ -0,0 +1,14 @@
+import { randomBytes } from 'crypto'
+
+import { TraceContext } from '../models'
+
+/**
+ * Creates a random, sampled W3C trace context.
+ */
+export const createTraceContext = (): TraceContext => {
+  // All-zero IDs are invalid, which random bytes make practically impossible
+  const traceId = randomBytes(16).toString('hex')
+  const spanId = randomBytes(8).toString('hex')
+
+  return { traceId, spanId, traceparent: `00-${traceId}-${spanId}-01` }
+}
@@ -0,0 +1 @@
+export * from './create-trace-context.util'
@@ -1,9 +1,21 @@
 import { Inject, Injectable } from '@nestjs/common'
+import { join, resolve } from 'path'
 
 import { SpanCollector } from '../collectors'
-import { HttpSpanAssertion, SpanAssertion, SpanAssertionVerifier } from '../assertions'
-import { CollectorOptions } from '../../shared/models'
+import {
+  HttpSpanAssertion,
+  SpanAssertion,
+  SpanAssertionVerifier,
+  SpanAttributePolicyAssertionVerifier,
+  TraceScopedAssertionVerifier,
+  TraceSnapshotAssertionVerifier,
+  UniqueSpanAssertionVerifier,
+} from '../assertions'
+import { Span, SpanSchema, SpanTree, TraceSnapshotOptions } from '../models'
+import { AssertionVerifier, CollectorOptions, Mark, TimeWindow } from '../../shared/models'
+import { ValueMatcher } from '../../shared/matchers'
 import { COLLECTOR_MODULE_OPTIONS } from '../../shared/tokens'
+import { createAttributeValue, isCi, toTimeWindow } from '../../shared/utils'
 
 /**
  * Provides a fluent API for asserting the state of OpenTelemetry spans.
@@ -34,6 +46,17 @@ import { COLLECTOR_MODULE_OPTIONS } from '../../shared/tokens'
  * ```
  *
  * @example
+ * Testing a non-deterministic number of spans:
+ * ```typescript
+ * await verifiers.spans
+ *   .toHaveSpan()
+ *   .withName('middleware - query')
+ *   .times({ atLeast: 1, atMost: 3 })
+ *   .assert()
+ *   .assertAll()
+ * ```
+ *
+ * @example
  * Testing multiple spans:
  * ```typescript
  * await verifiers.spans
@@ -49,7 +72,13 @@ import { COLLECTOR_MODULE_OPTIONS } from '../../shared/tokens'
 @Injectable()
 export class SpanVerifier {
   private readonly options: CollectorOptions
-  private readonly assertions: SpanAssertionVerifier[] = []
+  private readonly assertions: AssertionVerifier<Span>[] = []
+
+  /** When set, assertions only consider the telemetry of this time window. */
+  private window?: TimeWindow
+
+  /** When set, assertions only consider the spans of this trace. */
+  private traceId?: string
 
   constructor(
     private readonly collector: SpanCollector,
@@ -100,6 +129,28 @@ export class SpanVerifier {
     return new HttpSpanAssertion(this, this.assertions, count)
   }
 
+  /**
+   * Asserts that no matching HTTP span is received within the observation window.
+   * Unlike `toHaveHttpSpanWithCount(0)`, which passes as soon as no matching span is present,
+   * this keeps checking every span received until the window has elapsed.
+   *
+   * @param observationWindowMs The time in milliseconds the absence must hold for.
+   * Default: the `observationWindow` of the collector options.
+   * @returns An `HttpSpanAssertion` to chain further assertions.
+   *
+   * @example
+   * ```typescript
+   * // Health checks must not be traced
+   * spanVerifier
+   *   .toNotHaveHttpSpan()
+   *   .withUrl('/health')
+   *   .assert()
+   * ```
+   */
+  toNotHaveHttpSpan(observationWindowMs: number = this.options.observationWindow): HttpSpanAssertion {
+    return new HttpSpanAssertion(this, this.assertions, 0, observationWindowMs)
+  }
+
   /**
    * Asserts that at least one span is present.
    * This is a convenience for `toHaveSpanWithCount(1)`.
@@ -140,13 +191,240 @@ export class SpanVerifier {
     return new SpanAssertion(this, this.assertions, count)
   }
 
+  /**
+   * Asserts that no matching span is received within the observation window.
+   * Unlike `toHaveSpanWithCount(0)`, which passes as soon as no matching span is present,
+   * this keeps checking every span received until the window has elapsed.
+   *
+   * @param observationWindowMs The time in milliseconds the absence must hold for.
+   * Default: the `observationWindow` of the collector options.
+   * @returns A `SpanAssertion` to chain further assertions.
+   *
+   * @example
+   * ```typescript
+   * // A filtered route must not produce any span within 2 seconds
+   * spanVerifier
+   *   .toNotHaveSpan(2000)
+   *   .withAttribute('http.route', '/internal/metrics')
+   *   .assert()
+   * ```
+   */
+  toNotHaveSpan(observationWindowMs: number = this.options.observationWindow): SpanAssertion {
+    return new SpanAssertion(this, this.assertions, 0, observationWindowMs)
+  }
+
+  /**
+   * Asserts that a subtree of spans matching the given tree is present within a single trace.
+   * The root of the tree may match any span, while each child must be matched by a different
+   * child span of the span matching its parent node.
+   *
+   * @param tree The expected subtree of spans.
+   * @returns The `SpanVerifier` instance to chain further assertions.
+   *
+   * @example
+   * ```typescript
+   * await spanVerifier
+   *   .toHaveTrace({
+   *     name: 'GET /redis',
+   *     kind: SpanKind.SERVER,
+   *     children: [
+   *       { name: 'redis-GET', attributes: { 'db.system': 'redis' } },
+   *       { name: 'redis-SET', children: [] },
+   *     ],
+   *   })
+   *   .assertAll()
+   * ```
+   */
+  toHaveTrace(tree: SpanTree): SpanVerifier {
+    const error = new Error()
+
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    Error.captureStackTrace(error, this.toHaveTrace)
+
+    this.assertions.push(new SpanAssertionVerifier(this.toSpanSchema(tree), [], { atLeast: 1 }, error.stack))
+
+    return this
+  }
+
+  /**
+   * Asserts that a subtree of a trace matches a stored snapshot, to catch changes in spans and attributes
+   * nobody wrote an assertion for. The subtree is serialized in a stable order, with trace and span IDs,
+   * timestamps, durations, ports and host names masked.
+   *
+   * The snapshot is stored as `<name>.json` in the `snapshotDirectory` of the collector options.
+   * It is written when it does not exist yet, unless running in CI (the `CI` environment variable is set),
+   * and overwritten when the `updateSnapshots` option is enabled.
+   * The root must match exactly one span, so narrow it down, or use `forTrace`, when a test produces several.
+   *
+   * @param name The name of the snapshot, unique within the snapshot directory.
+   * @param options Selects the root span of the snapshot and additional attributes to mask.
+   * @returns The `SpanVerifier` instance to chain further assertions.
+   *
+   * @example
+   * ```typescript
+   * await spanVerifier
+   *   .toMatchTraceSnapshot('get-redis', {
+   *     root: (span) => span.withName('GET /redis').withKind(SpanKind.SERVER),
+   *     maskAttributes: ['http.user_agent'],
+   *   })
+   *   .assertAll()
+   * ```
+   */
+  toMatchTraceSnapshot(name: string, options: TraceSnapshotOptions): SpanVerifier {
+    const error = new Error()
+
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    Error.captureStackTrace(error, this.toMatchTraceSnapshot)
+
+    const root = new SpanAssertionVerifier(options.root(new SpanAssertion(this, [], 1)).getSchema(), [], {
+      atLeast: 1,
+    })
+    const snapshotPath = join(
+      resolve(this.options.snapshotDirectory ?? '__trace_snapshots__'),
+      `${name.replace(/[^\w.-]+/g, '-')}.json`,
+    )
+
+    this.assertions.push(
+      new TraceSnapshotAssertionVerifier(
+        name,
+        root,
+        snapshotPath,
+        this.options.updateSnapshots ?? false,
+        !isCi(),
+        options.maskAttributes ?? [],
+        error.stack,
+      ),
+    )
+
+    return this
+  }
+
+  /**
+   * Asserts that no span was received more than once, i.e. that no two collected spans share the same
+   * trace ID and span ID. Use this together with fault injection to verify that retried exports
+   * do not produce duplicate telemetry.
+   *
+   * @returns The `SpanVerifier` instance to chain further assertions.
+   *
+   * @example
+   * ```typescript
+   * await spanVerifier
+   *   .toHaveSpan()
+   *   .withName('checkout')
+   *   .assert()
+   *   .toHaveNoDuplicateSpans()
+   *   .assertAll()
+   * ```
+   */
+  toHaveNoDuplicateSpans(): SpanVerifier {
+    const error = new Error()
+
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    Error.captureStackTrace(error, this.toHaveNoDuplicateSpans)
+
+    this.assertions.push(new UniqueSpanAssertionVerifier(error.stack))
+
+    return this
+  }
+
+  /**
+   * Starts an assertion session, i.e. a verifier with its own queue of assertions.
+   * The assertions chained on a session are verified by its `assertAll()` only, so tests sharing a collector
+   * do not re-run the assertions of earlier tests. The session verifies the same collected spans.
+   *
+   * @returns A new `SpanVerifier` with an empty queue of assertions.
+   *
+   * @example
+   * ```typescript
+   * await spanVerifier
+   *   .expect()
+   *   .toHaveSpan()
+   *   .withName('checkout')
+   *   .assert()
+   *   .assertAll()
+   * ```
+   */
+  expect(): SpanVerifier {
+    return this.within(this.window)
+  }
+
+  /**
+   * Starts an assertion session that only considers the spans of the time window since a mark.
+   * Use this when tests share a collector, so that they do not match the telemetry of earlier tests.
+   *
+   * @param mark The mark created with `Collector.mark()` where the window starts.
+   * @returns A new `SpanVerifier` with an empty queue of assertions.
+   *
+   * @example
+   * ```typescript
+   * const mark = collector.mark()
+   *
+   * // ... exercise the application
+   *
+   * await spanVerifier.since(mark).toHaveSpan().withName('checkout').assert().assertAll()
+   * ```
+   */
+  since(mark: Mark): SpanVerifier {
+    return this.within(toTimeWindow(mark))
+  }
+
+  /**
+   * Starts an assertion session that only considers the spans of the time window between two marks.
+   *
+   * @param from The mark created with `Collector.mark()` where the window starts.
+   * @param to The mark created with `Collector.mark()` where the window ends.
+   * @returns A new `SpanVerifier` with an empty queue of assertions.
+   * @throws Error If the end mark precedes the start mark.
+   *
+   * @example
+   * ```typescript
+   * const before = collector.mark()
+   * // ... exercise the application
+   * const after = collector.mark()
+   *
+   * await spanVerifier.between(before, after).toHaveSpan().withName('checkout').assert().assertAll()
+   * ```
+   */
+  between(from: Mark, to: Mark): SpanVerifier {
+    return this.within(toTimeWindow(from, to))
+  }
+
+  /**
+   * Starts an assertion session that only considers the spans of a single trace,
+   * so that concurrent or background traffic cannot satisfy its assertions.
+   *
+   * @param traceId The trace ID, as a hex string.
+   * @returns A new `SpanVerifier` with an empty queue of assertions.
+   *
+   * @example
+   * ```typescript
+   * await spanVerifier.forTrace('4bf92f3577b34da6a3ce929d0e0e4736').toHaveSpan().withName('checkout').assert().assertAll()
+   * ```
+   */
+  forTrace(traceId: string): SpanVerifier {
+    const session = this.expect()
+    session.traceId = traceId.toLowerCase()
+    return session
+  }
+
+  /**
+   * Removes all assertions chained on this verifier, without verifying them.
+   * Sessions started with `expect()` keep their own assertions.
+   */
+  reset(): void {
+    this.assertions.length = 0
+  }
+
   /**
    * Executes all chained assertions.
    * This method will wait for the necessary spans to be collected,
    * retrying until all assertions pass or a timeout is reached.
+   * The queue of assertions is emptied, so that the next `assertAll()` does not verify them again,
+   * whether they passed or not.
    *
    * @returns A `Promise` that resolves when all assertions pass.
    * @throws {AssertionError} If any assertion fails during verification.
+   * @throws {AssertionError} If collected spans carry attributes forbidden by the `attributePolicy` option.
    * @throws {Error} If a timeout is reached before assertions can be evaluated.
    *
    * @example
@@ -178,10 +456,41 @@ export class SpanVerifier {
    * ```
    */
   async assertAll(): Promise<void> {
-    // Reactive approach: try assertions on each new data batch
-    await this.collector.waitForAssertions((spans) => {
-      // Run all assertions - if any fail, this will throw
-      this.assertions.forEach((assertion) => assertion.verify(spans))
-    }, this.options.timeout)
+    // Reactive approach: retry assertions on each new data batch,
+    // while assertions on the absence of data must hold for their whole observation window
+    const assertions = this.assertions.splice(0).map((assertion) => this.scopeToTrace(assertion))
+    await this.collector.verifyAssertions(assertions, this.options.timeout, this.window)
+
+    // The attribute policy applies to everything collected by the time the assertions pass
+    if (this.options.attributePolicy) {
+      const policyVerifier = new SpanAttributePolicyAssertionVerifier(this.options.attributePolicy)
+      this.scopeToTrace(policyVerifier).verify(this.collector.retrieve(this.window))
+    }
+  }
+
+  private toSpanSchema(tree: SpanTree): SpanSchema {
+    return {
+      name: tree.name,
+      kind: tree.kind,
+      status: tree.status,
+      attributes:
+        tree.attributes &&
+        Object.entries(tree.attributes).map(([key, value]) => ({
+          key,
+          value: value instanceof ValueMatcher ? value : createAttributeValue(value),
+        })),
+      children: tree.children?.map((child) => this.toSpanSchema(child)),
+    }
+  }
+
+  private within(window?: TimeWindow): SpanVerifier {
+    const session = new SpanVerifier(this.collector, this.options)
+    session.window = window
+    session.traceId = this.traceId
+    return session
+  }
+
+  private scopeToTrace(assertion: AssertionVerifier<Span>): AssertionVerifier<Span> {
+    return this.traceId ? new TraceScopedAssertionVerifier(this.traceId, assertion) : assertion
   }
 }
@@ -0,0 +1,45 @@
+import * as assert from 'assert'
+
+import { ExportRequest } from '../models'
+
+export class ExportRequestAssertionVerifier {
+  constructor(
+    private readonly schema: Partial<ExportRequest>,
+    private readonly expectedCount: number,
+    private readonly originalStack?: string,
+    readonly observationWindowMs?: number,
+  ) {}
+
+  verify(exportRequests: ExportRequest[]): void {
+    const matchingRequests = exportRequests.filter((exportRequest) => this.matches(exportRequest))
+
+    try {
+      assert.strictEqual(
+        matchingRequests.length,
+        this.expectedCount,
+        `Expected ${this.expectedCount} export requests matching "${JSON.stringify(this.schema, null, 2)}", found ${matchingRequests.length}\n` +
+          `Received export requests: ${exportRequests.map((r) => this.getExportRequestSummary(r)).join(', ')}`,
+      )
+    } catch (error) {
+      if (error instanceof Error && this.originalStack) {
+        error.stack = this.originalStack
+      }
+      throw error
+    }
+  }
+
+  private getExportRequestSummary(exportRequest: ExportRequest): string {
+    const details = [exportRequest.transport, exportRequest.contentType, exportRequest.contentEncoding]
+
+    return `${exportRequest.signal} (${details.filter(Boolean).join(', ')})`
+  }
+
+  private matches(exportRequest: ExportRequest): boolean {
+    if (this.schema.signal && exportRequest.signal !== this.schema.signal) return false
+    if (this.schema.transport && exportRequest.transport !== this.schema.transport) return false
+    if (this.schema.contentType && exportRequest.contentType !== this.schema.contentType) return false
+    if (this.schema.contentEncoding && exportRequest.contentEncoding !== this.schema.contentEncoding) return false
+
+    return true
+  }
+}
@@ -0,0 +1,105 @@
+import { ExportRequestAssertionVerifier } from './export-request.assertion-verifier'
+import { ExportRequestVerifier } from '../verifiers'
+import { ExportRequest } from '../models'
+import { ExportTransport } from '../enums'
+import { TelemetrySignal } from '../../shared/enums'
+
+/**
+ * Provides a fluent API for building assertions about how telemetry was delivered to the collector,
+ * such as the transport, content type and compression used by the exporter.
+ *
+ * @example
+ * Verifying that traces are exported as gzip-compressed protobuf:
+ * ```typescript
+ * exportRequestVerifier
+ *   .toHaveExportRequest()
+ *   .withSignal(TelemetrySignal.TRACES)
+ *   .withContentType('application/x-protobuf')
+ *   .withContentEncoding('gzip')
+ *   .assert()
+ * ```
+ */
+export class ExportRequestAssertion {
+  private readonly schema: Partial<ExportRequest> = {}
+
+  constructor(
+    private readonly verifier: ExportRequestVerifier,
+    private readonly assertions: ExportRequestAssertionVerifier[],
+    private readonly expectedCount: number,
+    private readonly observationWindowMs?: number,
+  ) {}
+
+  /**
+   * Sets the expected telemetry signal of the export request.
+   *
+   * @param signal The expected signal (e.g. `TelemetrySignal.TRACES`).
+   * @returns The `ExportRequestAssertion` instance for chaining.
+   */
+  withSignal(signal: TelemetrySignal): this {
+    this.schema.signal = signal
+
+    return this
+  }
+
+  /**
+   * Sets the expected transport of the export request.
+   *
+   * @param transport The expected transport (e.g. `ExportTransport.GRPC`).
+   * @returns The `ExportRequestAssertion` instance for chaining.
+   */
+  withTransport(transport: ExportTransport): this {
+    this.schema.transport = transport
+
+    return this
+  }
+
+  /**
+   * Sets the expected media type of the export request body, without parameters.
+   *
+   * @param contentType The expected content type (e.g. `application/json`).
+   * @returns The `ExportRequestAssertion` instance for chaining.
+   */
+  withContentType(contentType: string): this {
+    this.schema.contentType = contentType
+
+    return this
+  }
+
+  /**
+   * Sets the expected content coding of the export request body.
+   * Use `identity` to assert that the request was not compressed.
+   *
+   * @param contentEncoding The expected content encoding (e.g. `gzip`).
+   * @returns The `ExportRequestAssertion` instance for chaining.
+   *
+   * @example
+   * ```typescript
+   * assertion.withContentEncoding('gzip')
+   * assertion.withContentEncoding('identity') // Not compressed
+   * ```
+   */
+  withContentEncoding(contentEncoding: string): this {
+    this.schema.contentEncoding = contentEncoding
+
+    return this
+  }
+
+  /**
+   * Finalizes the export request assertion and adds it to the verification queue.
+   *
+   * @returns The parent export request verifier instance for continued test building.
+   */
+  assert(): ExportRequestVerifier {
+    const error = new Error()
+
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    Error.captureStackTrace(error, this.assert)
+    const originalStack = error.stack
+
+    this.assertions.push(
+      new ExportRequestAssertionVerifier(this.schema, this.expectedCount, originalStack, this.observationWindowMs),
+    )
+
+    return this.verifier
+  }
+}
@@ -0,0 +1,2 @@
+export * from './export-request.assertion'
+export * from './export-request.assertion-verifier'
@@ -0,0 +1,19 @@
+import { OTLP_PROTO_ROOT, ProtobufMessageType } from '../../shared/codecs'
+import { RpcStatusDto } from '../dtos'
+
+/**
+ * Encodes and decodes the `google.rpc.Status` messages returned by failed OTLP/HTTP exports in protobuf.
+ */
+export class RpcStatusCodec {
+  constructor(private readonly statusType: ProtobufMessageType) {}
+
+  encode(status: RpcStatusDto): Buffer {
+    return Buffer.from(this.statusType.encode(this.statusType.fromObject(status)).finish())
+  }
+
+  decode(buffer: Uint8Array): RpcStatusDto {
+    return this.statusType.toObject(this.statusType.decode(buffer), { defaults: true, arrays: true }) as RpcStatusDto
+  }
+}
+
+export const RPC_STATUS_CODEC = new RpcStatusCodec(OTLP_PROTO_ROOT.lookupType('google.rpc.Status'))
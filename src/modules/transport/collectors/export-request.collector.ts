@@ -0,0 +1,7 @@
+import { Injectable } from '@nestjs/common'
+
+import { AbstractTelemetryCollector } from '../../shared/collectors'
+import { ExportRequest } from '../models'
+
+@Injectable()
+export class ExportRequestCollector extends AbstractTelemetryCollector<ExportRequest> {}
@@ -0,0 +1,28 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common'
+import { Request } from 'express'
+
+import { ExportTransport, OtlpContentEncoding } from '../enums'
+import { ExportRequestMetadata } from '../models'
+
+/**
+ * Extracts the `ExportRequestMetadata` of an OTLP/HTTP export request from its headers.
+ *
+ * @example
+ * ```typescript
+ * @Post('v1/traces')
+ * handleTraces(@Body() data: TraceExportDto, @HttpExportMetadata() metadata: ExportRequestMetadata) {
+ *   return this.receiver.receive(data, metadata)
+ * }
+ * ```
+ */
+export const HttpExportMetadata = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): ExportRequestMetadata => {
+    const request = context.switchToHttp().getRequest<Request>()
+
+    return {
+      transport: ExportTransport.HTTP,
+      contentType: (request.get('Content-Type') ?? '').split(';')[0].trim().toLowerCase(),
+      contentEncoding: (request.get('Content-Encoding') ?? OtlpContentEncoding.IDENTITY).trim().toLowerCase(),
+    }
+  },
+)
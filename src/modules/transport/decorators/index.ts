@@ -0,0 +1 @@
+export * from './http-export-metadata.decorator'
@@ -0,0 +1 @@
+export * from './rpc-status.dto'
@@ -0,0 +1,13 @@
+/**
+ * The `google.rpc.Status` returned in the body of failed OTLP/HTTP export responses.
+ *
+ * @see https://opentelemetry.io/docs/specs/otlp/#failures-1
+ */
+export interface RpcStatusDto {
+  /** The gRPC status code of the failure. */
+  code: number
+  /** A developer-facing error message. */
+  message: string
+  /** Additional details about the failure. */
+  details?: unknown[]
+}
@@ -0,0 +1,5 @@
+export enum ExportTransport {
+  HTTP = 'http',
+  GRPC = 'grpc',
+  IN_PROCESS = 'in_process',
+}
@@ -0,0 +1,5 @@
+export enum FaultType {
+  ERROR = 'error',
+  PARTIAL_SUCCESS = 'partial_success',
+  CONNECTION_RESET = 'connection_reset',
+}
@@ -0,0 +1,5 @@
+export * from './export-transport.enum'
+export * from './fault-type.enum'
+export * from './otlp-content-encoding.enum'
+export * from './otlp-content-type.enum'
+export * from './otlp-protocol.enum'
@@ -0,0 +1,6 @@
+export enum OtlpContentEncoding {
+  IDENTITY = 'identity',
+  GZIP = 'gzip',
+  DEFLATE = 'deflate',
+  ZSTD = 'zstd',
+}
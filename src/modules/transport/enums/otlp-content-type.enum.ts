@@ -0,0 +1,5 @@
+export enum OtlpContentType {
+  JSON = 'application/json',
+  PROTOBUF = 'application/x-protobuf',
+  GRPC = 'application/grpc',
+}
@@ -0,0 +1,5 @@
+export enum OtlpProtocol {
+  HTTP_PROTOBUF = 'http/protobuf',
+  HTTP_JSON = 'http/json',
+  GRPC = 'grpc',
+}
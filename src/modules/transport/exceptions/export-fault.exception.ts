@@ -0,0 +1,12 @@
+import { ConnectionResetFault, ErrorFault } from '../models'
+
+/**
+ * Thrown by receivers when an injected fault prevents an export request from being accepted.
+ * Each transport translates the fault into its own failure response.
+ */
+export class ExportFaultException extends Error {
+  constructor(readonly fault: ErrorFault | ConnectionResetFault) {
+    super(`Injected ${fault.type} fault`)
+    this.name = 'ExportFaultException'
+  }
+}
@@ -0,0 +1,67 @@
+import { ExportResult, ExportResultCode } from '@opentelemetry/core'
+import { ISerializer } from '@opentelemetry/otlp-transformer'
+
+import { ExportTransport } from '../enums'
+import { ExportRequestMetadata } from '../models'
+import { AbstractExportReceiver } from '../receivers'
+
+const IN_PROCESS_EXPORT_METADATA: ExportRequestMetadata = {
+  transport: ExportTransport.IN_PROCESS,
+}
+
+/**
+ * Provides a base for OpenTelemetry SDK exporters that hand telemetry directly to the receiver of a signal,
+ * without sending it over the network.
+ *
+ * The SDK objects are not converted into the collector models directly. They are serialized in memory with the
+ * OTLP/JSON serializer of the signal, exactly as an OTLP/HTTP exporter would, and parsed back into an export request
+ * that takes the same path as an OTLP/JSON request body. The telemetry therefore reaches the verifiers in the same
+ * form regardless of how it was exported. Injected faults and latency apply to in-process exports as well.
+ *
+ * @template Items The SDK objects passed to the exporter (e.g. `ReadableSpan[]`).
+ * @template Data The export request DTO of the signal.
+ */
+export abstract class AbstractInProcessExporter<Items, Data> {
+  constructor(
+    private readonly receiver: AbstractExportReceiver<Data, object>,
+    private readonly serializer: ISerializer<Items, unknown>,
+  ) {}
+
+  export(items: Items, resultCallback: (result: ExportResult) => void): void {
+    let data: Data
+    try {
+      data = this.toExportRequest(items)
+    } catch (error) {
+      resultCallback({
+        code: ExportResultCode.FAILED,
+        error: error instanceof Error ? error : new Error(String(error)),
+      })
+      return
+    }
+
+    this.receiver.receive(data, IN_PROCESS_EXPORT_METADATA).then(
+      () => resultCallback({ code: ExportResultCode.SUCCESS }),
+      (error: Error) => resultCallback({ code: ExportResultCode.FAILED, error }),
+    )
+  }
+
+  forceFlush(): Promise<void> {
+    return Promise.resolve()
+  }
+
+  shutdown(): Promise<void> {
+    return Promise.resolve()
+  }
+
+  /**
+   * Converts the SDK objects into an OTLP/JSON export request.
+   */
+  private toExportRequest(items: Items): Data {
+    const body = this.serializer.serializeRequest(items)
+    if (!body) {
+      throw new Error('Failed to serialize the export request')
+    }
+
+    return JSON.parse(Buffer.from(body).toString('utf8')) as Data
+  }
+}
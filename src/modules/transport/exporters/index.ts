@@ -0,0 +1 @@
+export * from './abstract-in-process.exporter'
@@ -0,0 +1,45 @@
+import { ArgumentsHost, Catch, ExceptionFilter } from '@nestjs/common'
+import { Request, Response } from 'express'
+
+import { ExportFaultException } from '../exceptions'
+import { FaultType, OtlpContentType } from '../enums'
+import { RPC_STATUS_CODEC } from '../codecs'
+import { RpcStatusDto } from '../dtos'
+import { httpStatusToGrpcCode } from '../utils'
+
+/**
+ * Translates injected export faults into OTLP/HTTP responses:
+ * an error status with an optional `Retry-After` header, or a dropped connection.
+ *
+ * The body of an error response is a `google.rpc.Status`, encoded in the content type of the request
+ * (OTLP/protobuf or OTLP/JSON), as the OTLP specification requires.
+ */
+@Catch(ExportFaultException)
+export class ExportFaultFilter implements ExceptionFilter<ExportFaultException> {
+  catch(exception: ExportFaultException, host: ArgumentsHost): void {
+    const context = host.switchToHttp()
+    const request = context.getRequest<Request>()
+    const { fault } = exception
+
+    if (fault.type === FaultType.CONNECTION_RESET) {
+      request.socket.destroy()
+      return
+    }
+
+    const response = context.getResponse<Response>()
+    if (fault.retryAfterSeconds !== undefined) {
+      response.setHeader('Retry-After', String(fault.retryAfterSeconds))
+    }
+
+    const status: RpcStatusDto = {
+      code: fault.grpcCode ?? httpStatusToGrpcCode(fault.statusCode),
+      message: fault.message ?? exception.message,
+    }
+
+    if (request.is(OtlpContentType.PROTOBUF)) {
+      response.status(fault.statusCode).type(OtlpContentType.PROTOBUF).send(RPC_STATUS_CODEC.encode(status))
+    } else {
+      response.status(fault.statusCode).json(status)
+    }
+  }
+}
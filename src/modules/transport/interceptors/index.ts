@@ -0,0 +1 @@
+export * from './otlp-content-negotiation.interceptor'
@@ -0,0 +1,75 @@
+import {
+  BadRequestException,
+  CallHandler,
+  ExecutionContext,
+  NestInterceptor,
+  StreamableFile,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common'
+import { Request } from 'express'
+import { map, Observable } from 'rxjs'
+
+import { OtlpProtobufCodec } from '../../shared/codecs'
+import { OtlpContentType } from '../enums'
+
+/**
+ * Negotiates the content type of OTLP/HTTP export requests.
+ *
+ * OTLP/JSON requests are passed through untouched. OTLP/protobuf requests are decoded into the plain
+ * export DTO before they reach the route handler, and the handler's response is encoded back to protobuf,
+ * so the exporter receives a response in the same format it used for the request.
+ * Any other content type is rejected with `415 Unsupported Media Type`.
+ *
+ * @template ExportRequest The export request DTO handled by the route.
+ * @template ExportResponse The export response DTO returned by the route.
+ *
+ * @example
+ * ```typescript
+ * @Post('v1/traces')
+ * @UseInterceptors(new OtlpContentNegotiationInterceptor(TRACE_SERVICE_CODEC))
+ * handleTraces(@Body() data: TraceExportDto): TraceExportResponseDto {
+ *   return this.receiver.receive(data)
+ * }
+ * ```
+ */
+export class OtlpContentNegotiationInterceptor<ExportRequest extends object, ExportResponse extends object>
+  implements NestInterceptor
+{
+  constructor(private readonly codec: OtlpProtobufCodec<ExportRequest, ExportResponse>) {}
+
+  intercept(context: ExecutionContext, next: CallHandler<ExportResponse>): Observable<unknown> {
+    const request = context.switchToHttp().getRequest<Request>()
+
+    if (request.is(OtlpContentType.JSON)) {
+      return next.handle()
+    }
+
+    if (!request.is(OtlpContentType.PROTOBUF)) {
+      throw new UnsupportedMediaTypeException(
+        `Unsupported content type "${request.get('Content-Type')}", expected "${OtlpContentType.JSON}" or "${OtlpContentType.PROTOBUF}"`,
+      )
+    }
+
+    request.body = this.decodeRequest(request.body)
+
+    return next
+      .handle()
+      .pipe(
+        map((response) => new StreamableFile(this.codec.encodeResponse(response), { type: OtlpContentType.PROTOBUF })),
+      )
+  }
+
+  private decodeRequest(body: unknown): ExportRequest {
+    if (!Buffer.isBuffer(body)) {
+      throw new BadRequestException('Expected a binary OTLP/protobuf request body')
+    }
+
+    try {
+      return this.codec.decodeRequest(body)
+    } catch (error) {
+      throw new BadRequestException(
+        `Failed to decode OTLP/protobuf request: ${error instanceof Error ? error.message : String(error)}`,
+      )
+    }
+  }
+}
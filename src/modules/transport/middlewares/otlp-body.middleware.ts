@@ -0,0 +1,52 @@
+import { BadRequestException, Injectable, NestMiddleware, UnsupportedMediaTypeException } from '@nestjs/common'
+import { NextFunction, Request, Response } from 'express'
+
+import { OtlpContentEncoding, OtlpContentType } from '../enums'
+import { decompressBody, readBody } from '../utils'
+
+/**
+ * Reads the body of OTLP/HTTP export requests.
+ *
+ * The body is decompressed according to its `Content-Encoding` (`gzip`, `deflate` or `zstd`) before it is parsed,
+ * so route handlers always receive plain data. OTLP/JSON bodies are parsed into objects, while any other body
+ * (e.g. OTLP/protobuf) is left as a `Buffer` to be decoded by the route.
+ */
+@Injectable()
+export class OtlpBodyMiddleware implements NestMiddleware {
+  async use(request: Request, _response: Response, next: NextFunction): Promise<void> {
+    const encoding = (request.get('Content-Encoding') ?? OtlpContentEncoding.IDENTITY).trim().toLowerCase()
+    const body = await this.decompress(await readBody(request), encoding)
+
+    request.body = request.is(OtlpContentType.JSON) ? this.parseJson(body) : body
+
+    next()
+  }
+
+  private async decompress(body: Buffer, encoding: string): Promise<Buffer> {
+    let decompressed: Buffer | undefined
+
+    try {
+      decompressed = await decompressBody(body, encoding)
+    } catch (error) {
+      throw new BadRequestException(
+        `Failed to decompress "${encoding}" request body: ${error instanceof Error ? error.message : String(error)}`,
+      )
+    }
+
+    if (!decompressed) {
+      throw new UnsupportedMediaTypeException(`Unsupported content encoding "${encoding}"`)
+    }
+
+    return decompressed
+  }
+
+  private parseJson(body: Buffer): unknown {
+    try {
+      return JSON.parse(body.toString('utf8'))
+    } catch (error) {
+      throw new BadRequestException(
+        `Failed to parse OTLP/JSON request: ${error instanceof Error ? error.message : String(error)}`,
+      )
+    }
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * The addresses the collector is listening on, resolved once it has started.
+ * Use these to configure the exporters of the application under test,
+ * in particular when the collector was started on an ephemeral port.
+ *
+ * @example
+ * ```typescript
+ * const collector = new Collector({ port: 0, grpcPort: 0 })
+ * await collector.start()
+ *
+ * new OTLPTraceExporter({ url: collector.endpoints.traces })
+ * ```
+ */
+export interface CollectorEndpoints {
+  /** The base URL of the OTLP/HTTP receiver (e.g. `http://localhost:4318`). */
+  http: string
+  /** The URL of the OTLP/HTTP traces endpoint (e.g. `http://localhost:4318/v1/traces`). */
+  traces: string
+  /** The URL of the OTLP/HTTP metrics endpoint (e.g. `http://localhost:4318/v1/metrics`). */
+  metrics: string
+  /** The URL of the OTLP/HTTP logs endpoint (e.g. `http://localhost:4318/v1/logs`). */
+  logs: string
+  /** The URL of the OTLP/gRPC receiver (e.g. `http://localhost:4317`), or `undefined` when gRPC is disabled. */
+  grpc?: string
+}
@@ -0,0 +1,38 @@
+import { FaultType } from '../enums'
+
+/**
+ * Fails the export request with an error status.
+ */
+export interface ErrorFault {
+  type: FaultType.ERROR
+  /** The HTTP status code of the response (e.g. `429` or `503`). */
+  statusCode: number
+  /** The gRPC status code of the response. Derived from `statusCode` when not set. */
+  grpcCode?: number
+  /** The value of the `Retry-After` response header, in seconds. Only sent over OTLP/HTTP. */
+  retryAfterSeconds?: number
+  /** The error message returned to the exporter. */
+  message?: string
+}
+
+/**
+ * Accepts the export request but reports some of its items as rejected.
+ * The received telemetry is still collected.
+ */
+export interface PartialSuccessFault {
+  type: FaultType.PARTIAL_SUCCESS
+  /** The number of rejected spans, data points or log records, depending on the signal. */
+  rejected: number
+  /** The error message returned to the exporter. */
+  errorMessage?: string
+}
+
+/**
+ * Drops the connection without sending a response.
+ * Over OTLP/gRPC, the call fails with `UNAVAILABLE` instead.
+ */
+export interface ConnectionResetFault {
+  type: FaultType.CONNECTION_RESET
+}
+
+export type ExportFault = ErrorFault | PartialSuccessFault | ConnectionResetFault
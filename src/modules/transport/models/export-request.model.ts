@@ -0,0 +1,32 @@
+import { TelemetrySignal } from '../../shared/enums'
+import { ExportTransport, FaultType } from '../enums'
+
+/**
+ * Describes how an export request was delivered to the collector.
+ */
+export interface ExportRequestMetadata {
+  /** The transport the export request arrived on. */
+  transport: ExportTransport
+  /**
+   * The media type of the request body, without parameters (e.g. `application/x-protobuf`).
+   * Not reported for in-process exports, which are not serialized.
+   */
+  contentType?: string
+  /**
+   * The content coding the request body was compressed with (e.g. `gzip`), or `identity` when uncompressed.
+   * Not reported for gRPC, where message compression is handled transparently by the gRPC server.
+   */
+  contentEncoding?: string
+}
+
+/**
+ * A record of a single export request received by the collector.
+ */
+export interface ExportRequest extends ExportRequestMetadata {
+  /** The telemetry signal carried by the export request. */
+  signal: TelemetrySignal
+  /** The time the export request was received, in milliseconds since the Unix epoch. */
+  receivedAt: number
+  /** The fault injected into the response, if any. */
+  fault?: FaultType
+}
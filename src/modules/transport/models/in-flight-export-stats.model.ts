@@ -0,0 +1,11 @@
+/**
+ * Describes the export requests being processed concurrently by the collector.
+ */
+export interface InFlightExportStats {
+  /** The number of export requests currently awaiting a response. */
+  current: number
+  /** The highest number of export requests awaiting a response at the same time. */
+  peak: number
+  /** The number of export requests that have been responded to, successfully or not. */
+  completed: number
+}
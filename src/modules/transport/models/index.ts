@@ -0,0 +1,4 @@
+export * from './collector-endpoints.model'
+export * from './export-fault.model'
+export * from './export-request.model'
+export * from './in-flight-export-stats.model'
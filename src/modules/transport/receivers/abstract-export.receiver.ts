@@ -0,0 +1,85 @@
+import { TelemetrySignal } from '../../shared/enums'
+import { ExportRequestCollector } from '../collectors'
+import { FaultType } from '../enums'
+import { ExportFaultException } from '../exceptions'
+import { ExportRequestMetadata, PartialSuccessFault } from '../models'
+import { FaultInjector, InFlightExportTracker, LatencySimulator } from '../services'
+
+/**
+ * Provides a base for receiving OTLP export requests of a single signal, regardless of the transport they arrived on.
+ *
+ * Every export request is recorded by the `ExportRequestCollector` and counted as in flight until it is responded to.
+ * The response is delayed by the latency configured in the `LatencySimulator`, and any fault injected through the
+ * `FaultInjector` is applied before the telemetry data is ingested.
+ *
+ * @template Data The export request DTO of the signal.
+ * @template Response The export response DTO of the signal.
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * class TraceReceiver extends AbstractExportReceiver<TraceExportDto, TraceExportResponseDto> {
+ *   protected readonly signal = TelemetrySignal.TRACES
+ *
+ *   protected ingest(data: TraceExportDto): void {
+ *     // Store the received spans
+ *   }
+ *
+ *   protected createPartialSuccessResponse(fault: PartialSuccessFault): TraceExportResponseDto {
+ *     return { partialSuccess: { rejectedSpans: fault.rejected } }
+ *   }
+ * }
+ * ```
+ */
+export abstract class AbstractExportReceiver<Data, Response extends object> {
+  /** The signal carried by the export requests. */
+  protected abstract readonly signal: TelemetrySignal
+
+  constructor(
+    private readonly exportRequestCollector: ExportRequestCollector,
+    private readonly faultInjector: FaultInjector,
+    private readonly latencySimulator: LatencySimulator,
+    private readonly inFlightTracker: InFlightExportTracker,
+  ) {}
+
+  /**
+   * Receives an export request.
+   *
+   * @param data The decoded export request.
+   * @param metadata Describes how the export request was delivered.
+   * @returns A `Promise` that resolves with the export response to send back to the exporter.
+   * @throws {ExportFaultException} If an injected fault prevents the export request from being accepted.
+   */
+  async receive(data: Data, metadata: ExportRequestMetadata): Promise<Response> {
+    const fault = this.faultInjector.take(this.signal)
+
+    this.exportRequestCollector.collect([
+      { ...metadata, signal: this.signal, receivedAt: Date.now(), fault: fault?.type },
+    ])
+
+    this.inFlightTracker.begin(this.signal)
+    try {
+      await this.latencySimulator.delay(this.signal)
+
+      if (fault && fault.type !== FaultType.PARTIAL_SUCCESS) {
+        throw new ExportFaultException(fault)
+      }
+
+      this.ingest(data)
+
+      return fault ? this.createPartialSuccessResponse(fault) : ({} as Response)
+    } finally {
+      this.inFlightTracker.end(this.signal)
+    }
+  }
+
+  /**
+   * Stores the telemetry data of an accepted export request.
+   */
+  protected abstract ingest(data: Data): void
+
+  /**
+   * Creates the response reporting the items rejected by a partial success fault.
+   */
+  protected abstract createPartialSuccessResponse(fault: PartialSuccessFault): Response
+}
@@ -0,0 +1 @@
+export * from './abstract-export.receiver'
@@ -0,0 +1 @@
+export * from './otlp-grpc.server'
@@ -0,0 +1,128 @@
+import { HttpException, Inject, Injectable, OnApplicationBootstrap, OnApplicationShutdown } from '@nestjs/common'
+import {
+  handleUnaryCall,
+  sendUnaryData,
+  Server,
+  ServerCredentials,
+  ServerUnaryCall,
+  ServiceError,
+  status,
+} from '@grpc/grpc-js'
+
+import { CollectorOptions } from '../../shared/models'
+import { COLLECTOR_MODULE_OPTIONS } from '../../shared/tokens'
+import { TraceReceiver } from '../../traces/receivers'
+import { TRACE_SERVICE_CODEC } from '../../traces/codecs'
+import { TraceExportDto } from '../../traces/dtos'
+import { MetricReceiver } from '../../metrics/receivers'
+import { METRICS_SERVICE_CODEC } from '../../metrics/codecs'
+import { MetricExportDto } from '../../metrics/dtos'
+import { LogReceiver } from '../../logs/receivers'
+import { LOGS_SERVICE_CODEC } from '../../logs/codecs'
+import { LogExportDto } from '../../logs/dtos'
+import { createGrpcServiceDefinition, httpStatusToGrpcCode } from '../utils'
+import { ExportTransport, FaultType, OtlpContentType } from '../enums'
+import { ExportFaultException } from '../exceptions'
+import { ExportRequestMetadata } from '../models'
+
+const GRPC_EXPORT_METADATA: ExportRequestMetadata = {
+  transport: ExportTransport.GRPC,
+  contentType: OtlpContentType.GRPC,
+}
+
+/**
+ * Serves the OTLP/gRPC `TraceService/Export`, `MetricsService/Export` and `LogsService/Export` methods.
+ * Decoded export requests are passed to the same receivers as the OTLP/HTTP controllers.
+ *
+ * The server is only started when `grpcPort` is set in the `CollectorOptions`, unless `listen` is disabled.
+ * A `grpcPort` of `0` binds an ephemeral port, which is reported by `port` once the application has started.
+ */
+@Injectable()
+export class OtlpGrpcServer implements OnApplicationBootstrap, OnApplicationShutdown {
+  private server?: Server
+  private boundPort?: number
+
+  constructor(
+    @Inject(COLLECTOR_MODULE_OPTIONS)
+    private readonly options: CollectorOptions,
+    private readonly traceReceiver: TraceReceiver,
+    private readonly metricReceiver: MetricReceiver,
+    private readonly logReceiver: LogReceiver,
+  ) {}
+
+  /**
+   * The port the server is bound to, or `undefined` when the server is not running.
+   */
+  get port(): number | undefined {
+    return this.boundPort
+  }
+
+  async onApplicationBootstrap(): Promise<void> {
+    if (this.options.grpcPort === undefined || this.options.listen === false) {
+      return
+    }
+
+    const server = new Server()
+
+    server.addService(createGrpcServiceDefinition(TRACE_SERVICE_CODEC), {
+      Export: this.createHandler((data: TraceExportDto) => this.traceReceiver.receive(data, GRPC_EXPORT_METADATA)),
+    })
+    server.addService(createGrpcServiceDefinition(METRICS_SERVICE_CODEC), {
+      Export: this.createHandler((data: MetricExportDto) => this.metricReceiver.receive(data, GRPC_EXPORT_METADATA)),
+    })
+    server.addService(createGrpcServiceDefinition(LOGS_SERVICE_CODEC), {
+      Export: this.createHandler((data: LogExportDto) => this.logReceiver.receive(data, GRPC_EXPORT_METADATA)),
+    })
+
+    this.boundPort = await new Promise<number>((resolve, reject) => {
+      server.bindAsync(`0.0.0.0:${this.options.grpcPort}`, ServerCredentials.createInsecure(), (error, port) =>
+        error ? reject(error) : resolve(port),
+      )
+    })
+
+    this.server = server
+  }
+
+  async onApplicationShutdown(): Promise<void> {
+    const server = this.server
+    if (!server) {
+      return
+    }
+
+    this.server = undefined
+    this.boundPort = undefined
+    await new Promise<void>((resolve) => {
+      server.tryShutdown(() => resolve())
+    })
+  }
+
+  private createHandler<Request, Response>(
+    receive: (data: Request) => Promise<Response>,
+  ): handleUnaryCall<Request, Response> {
+    return (call: ServerUnaryCall<Request, Response>, callback: sendUnaryData<Response>) => {
+      receive(call.request).then(
+        (response) => callback(null, response),
+        (error) => callback(this.toServiceError(error)),
+      )
+    }
+  }
+
+  private toServiceError(error: unknown): Partial<ServiceError> {
+    if (error instanceof ExportFaultException) {
+      const { fault } = error
+
+      return fault.type === FaultType.CONNECTION_RESET
+        ? { code: status.UNAVAILABLE, details: 'Connection reset' }
+        : { code: fault.grpcCode ?? httpStatusToGrpcCode(fault.statusCode), details: fault.message ?? error.message }
+    }
+
+    if (error instanceof HttpException) {
+      return { code: httpStatusToGrpcCode(error.getStatus()), details: error.message }
+    }
+
+    return {
+      code: status.INTERNAL,
+      details: error instanceof Error ? error.message : String(error),
+    }
+  }
+}
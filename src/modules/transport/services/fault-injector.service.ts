@@ -0,0 +1,113 @@
+import { Injectable } from '@nestjs/common'
+
+import { TelemetrySignal } from '../../shared/enums'
+import { FaultType } from '../enums'
+import { ErrorFault, ExportFault } from '../models'
+
+interface FaultRule {
+  fault: ExportFault
+  remaining?: number
+}
+
+/**
+ * Programs the responses of the collector to simulate an unhealthy backend,
+ * so that exporter retry and backoff behavior can be tested.
+ *
+ * Faults are queued per signal and applied in the order they were injected.
+ * A fault injected with a number of `times` is removed once it has been applied that many times;
+ * otherwise it applies to every export request until cleared.
+ *
+ * @example
+ * Fail the next two trace exports with a retryable error:
+ * ```typescript
+ * collector.faults.failNext(TelemetrySignal.TRACES, 2, { statusCode: 503, retryAfterSeconds: 1 })
+ * ```
+ *
+ * @example
+ * Reject part of every metric export:
+ * ```typescript
+ * collector.faults.inject(TelemetrySignal.METRICS, {
+ *   type: FaultType.PARTIAL_SUCCESS,
+ *   rejected: 3,
+ *   errorMessage: 'Data points out of order',
+ * })
+ * ```
+ *
+ * @example
+ * Drop the connection of the next log export:
+ * ```typescript
+ * collector.faults.inject(TelemetrySignal.LOGS, { type: FaultType.CONNECTION_RESET }, 1)
+ * ```
+ */
+@Injectable()
+export class FaultInjector {
+  private readonly rules = new Map<TelemetrySignal, FaultRule[]>()
+
+  /**
+   * Injects a fault into the responses for a signal.
+   *
+   * @param signal The signal whose export requests are affected.
+   * @param fault The fault to apply.
+   * @param times The number of export requests to apply the fault to. Applies until cleared when not set.
+   * @returns The `FaultInjector` instance for chaining.
+   */
+  inject(signal: TelemetrySignal, fault: ExportFault, times?: number): this {
+    if (times !== undefined && times <= 0) {
+      return this
+    }
+
+    const rules = this.rules.get(signal) ?? []
+    rules.push({ fault, remaining: times })
+    this.rules.set(signal, rules)
+
+    return this
+  }
+
+  /**
+   * Fails the next `count` export requests for a signal with an error status.
+   * This is a convenience for `inject(signal, { type: FaultType.ERROR, ...error }, count)`.
+   *
+   * @param signal The signal whose export requests are affected.
+   * @param count The number of export requests to fail.
+   * @param error The error response. Default: `503 Service Unavailable`.
+   * @returns The `FaultInjector` instance for chaining.
+   */
+  failNext(signal: TelemetrySignal, count: number, error: Omit<ErrorFault, 'type'> = { statusCode: 503 }): this {
+    return this.inject(signal, { type: FaultType.ERROR, ...error }, count)
+  }
+
+  /**
+   * Removes the injected faults, so that export requests succeed again.
+   *
+   * @param signal The signal to clear. Clears all signals when not set.
+   */
+  clear(signal?: TelemetrySignal): void {
+    if (signal) {
+      this.rules.delete(signal)
+    } else {
+      this.rules.clear()
+    }
+  }
+
+  /**
+   * Returns the fault to apply to an incoming export request, consuming one application of it.
+   *
+   * @internal
+   */
+  take(signal: TelemetrySignal): ExportFault | undefined {
+    const rules = this.rules.get(signal)
+    const rule = rules?.[0]
+    if (!rules || !rule) {
+      return undefined
+    }
+
+    if (rule.remaining !== undefined) {
+      rule.remaining--
+      if (rule.remaining <= 0) {
+        rules.shift()
+      }
+    }
+
+    return rule.fault
+  }
+}
@@ -0,0 +1,77 @@
+import { Injectable } from '@nestjs/common'
+
+import { TelemetrySignal } from '../../shared/enums'
+import { InFlightExportStats } from '../models'
+
+/**
+ * Tracks the export requests being processed concurrently by the collector.
+ * Combined with the `LatencySimulator`, this shows how many export requests an exporter keeps in flight
+ * against a slow backend.
+ *
+ * @example
+ * ```typescript
+ * collector.latency.set(TelemetrySignal.TRACES, { delayMs: 1000 })
+ *
+ * // ... generate spans faster than they can be exported
+ *
+ * expect(collector.inFlight.getStats(TelemetrySignal.TRACES).peak).toBeLessThanOrEqual(2)
+ * ```
+ */
+@Injectable()
+export class InFlightExportTracker {
+  private readonly stats = new Map<TelemetrySignal | undefined, InFlightExportStats>()
+
+  /**
+   * Returns the in-flight statistics of the export requests.
+   *
+   * @param signal The signal to return the statistics of. Returns the statistics across all signals when not set.
+   * @returns A snapshot of the statistics.
+   */
+  getStats(signal?: TelemetrySignal): InFlightExportStats {
+    return { ...this.getOrCreateStats(signal) }
+  }
+
+  /**
+   * Resets the statistics, keeping only the export requests that are currently in flight.
+   */
+  reset(): void {
+    for (const stats of this.stats.values()) {
+      stats.peak = stats.current
+      stats.completed = 0
+    }
+  }
+
+  /**
+   * Records the start of an export request.
+   *
+   * @internal
+   */
+  begin(signal: TelemetrySignal): void {
+    for (const stats of [this.getOrCreateStats(signal), this.getOrCreateStats()]) {
+      stats.current++
+      stats.peak = Math.max(stats.peak, stats.current)
+    }
+  }
+
+  /**
+   * Records the end of an export request.
+   *
+   * @internal
+   */
+  end(signal: TelemetrySignal): void {
+    for (const stats of [this.getOrCreateStats(signal), this.getOrCreateStats()]) {
+      stats.current--
+      stats.completed++
+    }
+  }
+
+  private getOrCreateStats(signal?: TelemetrySignal): InFlightExportStats {
+    let stats = this.stats.get(signal)
+    if (!stats) {
+      stats = { current: 0, peak: 0, completed: 0 }
+      this.stats.set(signal, stats)
+    }
+
+    return stats
+  }
+}
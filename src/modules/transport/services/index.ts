@@ -0,0 +1,3 @@
+export * from './fault-injector.service'
+export * from './in-flight-export-tracker.service'
+export * from './latency-simulator.service'
@@ -0,0 +1,141 @@
+import { Inject, Injectable, OnModuleDestroy, ServiceUnavailableException } from '@nestjs/common'
+
+import { TelemetrySignal } from '../../shared/enums'
+import { CollectorOptions, ExportLatency } from '../../shared/models'
+import { COLLECTOR_MODULE_OPTIONS } from '../../shared/tokens'
+
+interface PendingDelay {
+  signal: TelemetrySignal
+  timer: NodeJS.Timeout
+  resolve: () => void
+  reject: (error: Error) => void
+}
+
+/**
+ * Delays the responses of the collector to simulate a slow backend,
+ * so that exporter timeout and queueing behavior can be tested.
+ *
+ * The latency of each signal is initialized from `CollectorOptions.latency` and can be changed at runtime.
+ * The telemetry data of a delayed export request is only collected once the delay has elapsed.
+ * Pending delays end early when the latency of their signal is cleared. When the collector is stopped,
+ * delayed export requests are rejected as unavailable instead, and their telemetry data is not collected.
+ *
+ * @example
+ * Slow down trace exports beyond the exporter timeout:
+ * ```typescript
+ * collector.latency.set(TelemetrySignal.TRACES, { delayMs: 15000 })
+ * ```
+ *
+ * @example
+ * Add jittered latency to every signal:
+ * ```typescript
+ * collector.latency.setAll({ delayMs: 100, jitterMs: 50 })
+ * ```
+ */
+@Injectable()
+export class LatencySimulator implements OnModuleDestroy {
+  private readonly latencies = new Map<TelemetrySignal, ExportLatency>()
+  private readonly pendingDelays = new Set<PendingDelay>()
+
+  constructor(
+    @Inject(COLLECTOR_MODULE_OPTIONS)
+    options: CollectorOptions,
+  ) {
+    for (const [signal, latency] of Object.entries(options.latency ?? {})) {
+      this.set(signal as TelemetrySignal, latency)
+    }
+  }
+
+  /**
+   * Sets the latency of the responses for a signal.
+   *
+   * @param signal The signal whose export requests are delayed.
+   * @param latency The latency to add to each response.
+   * @returns The `LatencySimulator` instance for chaining.
+   */
+  set(signal: TelemetrySignal, latency: ExportLatency): this {
+    this.latencies.set(signal, latency)
+
+    return this
+  }
+
+  /**
+   * Sets the latency of the responses for every signal.
+   *
+   * @param latency The latency to add to each response.
+   * @returns The `LatencySimulator` instance for chaining.
+   */
+  setAll(latency: ExportLatency): this {
+    for (const signal of Object.values(TelemetrySignal)) {
+      this.set(signal, latency)
+    }
+
+    return this
+  }
+
+  /**
+   * Removes the latency, so that export requests are responded to immediately again.
+   * Export requests that are currently delayed are responded to right away.
+   *
+   * @param signal The signal to clear. Clears all signals when not set.
+   */
+  clear(signal?: TelemetrySignal): void {
+    if (signal) {
+      this.latencies.delete(signal)
+    } else {
+      this.latencies.clear()
+    }
+
+    for (const pendingDelay of this.pendingDelays) {
+      if (!signal || pendingDelay.signal === signal) {
+        this.release(pendingDelay)
+      }
+    }
+  }
+
+  onModuleDestroy(): void {
+    this.latencies.clear()
+
+    for (const pendingDelay of this.pendingDelays) {
+      this.cancel(pendingDelay)
+    }
+  }
+
+  /**
+   * Waits for the configured latency of a signal to elapse.
+   *
+   * @throws {ServiceUnavailableException} If the collector is stopped while waiting.
+   * @internal
+   */
+  async delay(signal: TelemetrySignal): Promise<void> {
+    const latency = this.latencies.get(signal)
+    if (!latency) {
+      return
+    }
+
+    const delayMs = latency.delayMs + Math.random() * (latency.jitterMs ?? 0)
+    if (delayMs > 0) {
+      await new Promise<void>((resolve, reject) => {
+        const pendingDelay: PendingDelay = {
+          signal,
+          timer: setTimeout(() => this.release(pendingDelay), delayMs),
+          resolve,
+          reject,
+        }
+        this.pendingDelays.add(pendingDelay)
+      })
+    }
+  }
+
+  private release(pendingDelay: PendingDelay): void {
+    clearTimeout(pendingDelay.timer)
+    this.pendingDelays.delete(pendingDelay)
+    pendingDelay.resolve()
+  }
+
+  private cancel(pendingDelay: PendingDelay): void {
+    clearTimeout(pendingDelay.timer)
+    this.pendingDelays.delete(pendingDelay)
+    pendingDelay.reject(new ServiceUnavailableException('The collector is stopping'))
+  }
+}
@@ -0,0 +1,29 @@
+import { Global, MiddlewareConsumer, Module, NestModule, RequestMethod } from '@nestjs/common'
+import { APP_FILTER } from '@nestjs/core'
+
+import { ExportRequestCollector } from './collectors'
+import { ExportFaultFilter } from './filters'
+import { OtlpBodyMiddleware } from './middlewares'
+import { OtlpGrpcServer } from './servers'
+import { FaultInjector, InFlightExportTracker, LatencySimulator } from './services'
+import { ExportRequestVerifier } from './verifiers'
+
+@Global()
+@Module({
+  imports: [],
+  providers: [
+    OtlpGrpcServer,
+    ExportRequestCollector,
+    ExportRequestVerifier,
+    FaultInjector,
+    LatencySimulator,
+    InFlightExportTracker,
+    { provide: APP_FILTER, useClass: ExportFaultFilter },
+  ],
+  exports: [ExportRequestCollector, ExportRequestVerifier, FaultInjector, LatencySimulator, InFlightExportTracker],
+})
+export class TransportModule implements NestModule {
+  configure(consumer: MiddlewareConsumer): void {
+    consumer.apply(OtlpBodyMiddleware).forRoutes({ path: 'v1/*path', method: RequestMethod.POST })
+  }
+}
@@ -0,0 +1,20 @@
+import { ServiceDefinition } from '@grpc/grpc-js'
+
+import { OtlpProtobufCodec } from '../../shared/codecs'
+
+/**
+ * Creates a gRPC service definition exposing the unary `Export` method of an OTLP collector service.
+ */
+export const createGrpcServiceDefinition = <Request extends object, Response extends object>(
+  codec: OtlpProtobufCodec<Request, Response>,
+): ServiceDefinition => ({
+  Export: {
+    path: `/${codec.serviceName}/Export`,
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (request: Request) => codec.encodeRequest(request),
+    requestDeserialize: (buffer: Buffer) => codec.decodeRequest(buffer),
+    responseSerialize: (response: Response) => codec.encodeResponse(response),
+    responseDeserialize: (buffer: Buffer) => codec.decodeResponse(buffer),
+  },
+})
@@ -0,0 +1,43 @@
+import { OtlpProtocol } from '../enums'
+import { CollectorEndpoints } from '../models'
+
+/**
+ * Creates the `OTEL_EXPORTER_OTLP_*` environment variables that point the OpenTelemetry SDK of a process
+ * at the collector, using the given protocol.
+ *
+ * Both the generic and the signal-specific variables are set, so the result takes precedence over
+ * any of them already present in the environment of the process under test.
+ *
+ * @throws Error if the gRPC protocol is requested while the gRPC receiver is disabled.
+ *
+ * @see https://opentelemetry.io/docs/specs/otel/protocol/exporter/
+ */
+export const createOtelEnv = (endpoints: CollectorEndpoints, protocol: OtlpProtocol): Record<string, string> => {
+  if (protocol === OtlpProtocol.GRPC) {
+    if (!endpoints.grpc) {
+      throw new Error('The gRPC receiver is disabled, set `grpcPort` in the collector options to enable it')
+    }
+
+    return {
+      OTEL_EXPORTER_OTLP_PROTOCOL: protocol,
+      OTEL_EXPORTER_OTLP_ENDPOINT: endpoints.grpc,
+      OTEL_EXPORTER_OTLP_TRACES_PROTOCOL: protocol,
+      OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: endpoints.grpc,
+      OTEL_EXPORTER_OTLP_METRICS_PROTOCOL: protocol,
+      OTEL_EXPORTER_OTLP_METRICS_ENDPOINT: endpoints.grpc,
+      OTEL_EXPORTER_OTLP_LOGS_PROTOCOL: protocol,
+      OTEL_EXPORTER_OTLP_LOGS_ENDPOINT: endpoints.grpc,
+    }
+  }
+
+  return {
+    OTEL_EXPORTER_OTLP_PROTOCOL: protocol,
+    OTEL_EXPORTER_OTLP_ENDPOINT: endpoints.http,
+    OTEL_EXPORTER_OTLP_TRACES_PROTOCOL: protocol,
+    OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: endpoints.traces,
+    OTEL_EXPORTER_OTLP_METRICS_PROTOCOL: protocol,
+    OTEL_EXPORTER_OTLP_METRICS_ENDPOINT: endpoints.metrics,
+    OTEL_EXPORTER_OTLP_LOGS_PROTOCOL: protocol,
+    OTEL_EXPORTER_OTLP_LOGS_ENDPOINT: endpoints.logs,
+  }
+}
@@ -0,0 +1,30 @@
+import { promisify } from 'util'
+import { gunzip, inflate } from 'zlib'
+import { decompress as zstdDecompress } from 'fzstd'
+
+import { OtlpContentEncoding } from '../enums'
+
+type Decompressor = (body: Buffer) => Promise<Buffer>
+
+const gunzipAsync: Decompressor = promisify(gunzip)
+
+const DECOMPRESSORS = new Map<string, Decompressor>([
+  [OtlpContentEncoding.IDENTITY, (body) => Promise.resolve(body)],
+  [OtlpContentEncoding.GZIP, gunzipAsync],
+  ['x-gzip', gunzipAsync],
+  [OtlpContentEncoding.DEFLATE, promisify(inflate)],
+  [OtlpContentEncoding.ZSTD, (body) => Promise.resolve(Buffer.from(zstdDecompress(body)))],
+])
+
+/**
+ * Decompresses a request body according to its `Content-Encoding`.
+ *
+ * @param body The raw request body.
+ * @param encoding The content coding of the body, as sent in the `Content-Encoding` header.
+ * @returns The decompressed body, or `undefined` when the content coding is not supported.
+ */
+export const decompressBody = async (body: Buffer, encoding: string): Promise<Buffer | undefined> => {
+  const decompressor = DECOMPRESSORS.get(encoding)
+
+  return decompressor ? decompressor(body) : undefined
+}
@@ -0,0 +1,26 @@
+import { status } from '@grpc/grpc-js'
+
+/**
+ * Maps an HTTP status code to the gRPC status code a gRPC client would report for it.
+ *
+ * @see https://github.com/grpc/grpc/blob/master/doc/http-grpc-status-mapping.md
+ */
+export const httpStatusToGrpcCode = (statusCode: number): status => {
+  switch (statusCode) {
+    case 400:
+      return status.INTERNAL
+    case 401:
+      return status.UNAUTHENTICATED
+    case 403:
+      return status.PERMISSION_DENIED
+    case 404:
+      return status.UNIMPLEMENTED
+    case 429:
+    case 502:
+    case 503:
+    case 504:
+      return status.UNAVAILABLE
+    default:
+      return status.UNKNOWN
+  }
+}
@@ -0,0 +1,5 @@
+export * from './create-grpc-service-definition.util'
+export * from './create-otel-env.util'
+export * from './decompress-body.util'
+export * from './http-status-to-grpc-code.util'
+export * from './read-body.util'
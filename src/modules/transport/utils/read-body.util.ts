@@ -0,0 +1,14 @@
+import { Readable } from 'stream'
+
+/**
+ * Reads a request stream to the end and returns its content as a single buffer.
+ */
+export const readBody = async (stream: Readable): Promise<Buffer> => {
+  const chunks: Buffer[] = []
+
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as string))
+  }
+
+  return Buffer.concat(chunks)
+}
@@ -0,0 +1,125 @@
+import { Inject, Injectable } from '@nestjs/common'
+
+import { ExportRequestCollector } from '../collectors'
+import { ExportRequestAssertion, ExportRequestAssertionVerifier } from '../assertions'
+import { CollectorOptions, Mark, TimeWindow } from '../../shared/models'
+import { toTimeWindow } from '../../shared/utils'
+import { COLLECTOR_MODULE_OPTIONS } from '../../shared/tokens'
+
+/**
+ * Provides a fluent API for asserting how exporters delivered telemetry to the collector.
+ * Use this to verify the exporter configuration itself, such as the protocol and compression in use.
+ *
+ * @example
+ * ```typescript
+ * await verifiers.exportRequests
+ *   .toHaveExportRequest()
+ *   .withSignal(TelemetrySignal.TRACES)
+ *   .withContentEncoding('gzip')
+ *   .assert()
+ *   .assertAll()
+ * ```
+ */
+@Injectable()
+export class ExportRequestVerifier {
+  private readonly assertions: ExportRequestAssertionVerifier[] = []
+
+  /** When set, assertions only consider the telemetry of this time window. */
+  private window?: TimeWindow
+
+  constructor(
+    private readonly collector: ExportRequestCollector,
+    @Inject(COLLECTOR_MODULE_OPTIONS)
+    private readonly options: CollectorOptions,
+  ) {}
+
+  /**
+   * Asserts that exactly one matching export request was received.
+   * This is a convenience for `toHaveExportRequestWithCount(1)`.
+   *
+   * @returns An `ExportRequestAssertion` to chain further assertions.
+   */
+  toHaveExportRequest(): ExportRequestAssertion {
+    return this.toHaveExportRequestWithCount(1)
+  }
+
+  /**
+   * Asserts that a specific number of matching export requests were received.
+   *
+   * @param count The expected number of export requests.
+   * @returns An `ExportRequestAssertion` to chain further assertions.
+   */
+  toHaveExportRequestWithCount(count: number): ExportRequestAssertion {
+    return new ExportRequestAssertion(this, this.assertions, count)
+  }
+
+  /**
+   * Asserts that no matching export request is received within the observation window.
+   *
+   * @param observationWindowMs The time in milliseconds the absence must hold for.
+   * Default: the `observationWindow` of the collector options.
+   * @returns An `ExportRequestAssertion` to chain further assertions.
+   */
+  toNotHaveExportRequest(observationWindowMs: number = this.options.observationWindow): ExportRequestAssertion {
+    return new ExportRequestAssertion(this, this.assertions, 0, observationWindowMs)
+  }
+
+  /**
+   * Starts an assertion session, i.e. a verifier with its own queue of assertions.
+   *
+   * @returns A new `ExportRequestVerifier` with an empty queue of assertions.
+   */
+  expect(): ExportRequestVerifier {
+    return this.within(this.window)
+  }
+
+  /**
+   * Starts an assertion session that only considers the export requests received since a mark.
+   *
+   * @param mark The mark created with `Collector.mark()` where the window starts.
+   * @returns A new `ExportRequestVerifier` with an empty queue of assertions.
+   */
+  since(mark: Mark): ExportRequestVerifier {
+    return this.within(toTimeWindow(mark))
+  }
+
+  /**
+   * Starts an assertion session that only considers the export requests received between two marks.
+   *
+   * @param from The mark created with `Collector.mark()` where the window starts.
+   * @param to The mark created with `Collector.mark()` where the window ends.
+   * @returns A new `ExportRequestVerifier` with an empty queue of assertions.
+   * @throws Error If the end mark precedes the start mark.
+   */
+  between(from: Mark, to: Mark): ExportRequestVerifier {
+    return this.within(toTimeWindow(from, to))
+  }
+
+  /**
+   * Removes all assertions chained on this verifier, without verifying them.
+   * Sessions started with `expect()` keep their own assertions.
+   */
+  reset(): void {
+    this.assertions.length = 0
+  }
+
+  /**
+   * Executes all chained assertions.
+   * This method will wait for the necessary export requests to be received,
+   * retrying until all assertions pass or a timeout is reached.
+   * The queue of assertions is emptied, so that the next `assertAll()` does not verify them again,
+   * whether they passed or not.
+   *
+   * @returns A `Promise` that resolves when all assertions pass.
+   * @throws {AssertionError} If any assertion fails during verification.
+   */
+  async assertAll(): Promise<void> {
+    await this.collector.verifyAssertions(this.assertions.splice(0), this.options.timeout, this.window)
+  }
+
+  private within(window?: TimeWindow): ExportRequestVerifier {
+    const session = new ExportRequestVerifier(this.collector, this.options)
+    session.window = window
+    return session
+  }
+}
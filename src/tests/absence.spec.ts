@@ -0,0 +1,175 @@
+import 'vitest'
+import assert from 'assert'
+
+import { Verifiers, Collector } from '../modules/collector'
+import { AbstractTelemetryCollector } from '../modules/shared/collectors'
+import { OtlpContentType } from '../modules/transport/enums'
+
+class ItemCollector extends AbstractTelemetryCollector<{ name: string }> {}
+
+describe('Absence Assertions', () => {
+  let collector: Collector
+  let verifiers: Verifiers
+
+  beforeEach(async () => {
+    collector = new Collector({ port: 0, timeout: 1000, observationWindow: 300 })
+    verifiers = await collector.start()
+  })
+
+  afterEach(async () => {
+    await collector.stop()
+  })
+
+  const post = (url: string, body: object): Promise<Response> =>
+    fetch(url, { method: 'POST', headers: { 'Content-Type': OtlpContentType.JSON }, body: JSON.stringify(body) })
+
+  const exportSpan = (name: string): Promise<Response> =>
+    post(collector.endpoints.traces, {
+      resourceSpans: [
+        {
+          scopeSpans: [
+            {
+              spans: [
+                {
+                  traceId: '5b8efff798038103d269b633813fc60c',
+                  spanId: 'eee19b7ec3c1b174',
+                  name,
+                  kind: 2,
+                  startTimeUnixNano: '1700000000000000000',
+                  endTimeUnixNano: '1700000001000000000',
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    })
+
+  const exportMetric = (name: string): Promise<Response> =>
+    post(collector.endpoints.metrics, {
+      resourceMetrics: [
+        {
+          scopeMetrics: [
+            {
+              metrics: [
+                {
+                  name,
+                  gauge: { dataPoints: [{ asInt: '1', timeUnixNano: '1700000000000000000' }] },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    })
+
+  it('should hold for the whole observation window when nothing arrives', async () => {
+    await exportSpan('GET /orders')
+
+    const startedAt = Date.now()
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toNotHaveSpan()
+        .withName('GET /health')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(290)
+  })
+
+  it('should fail as soon as the span arrives within the observation window', async () => {
+    const startedAt = Date.now()
+
+    /* eslint-disable prettier/prettier */
+    const assertion = verifiers.spans
+      .toNotHaveSpan(5000)
+        .withName('GET /health')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    // Handles the rejection before the span arrives, as the assertion fails as soon as it does
+    const result = expect(assertion).rejects.toThrow(
+      /Expected exactly 0 spans matching[\s\S]*GET \/health[\s\S]*found 1/,
+    )
+    await exportSpan('GET /health')
+
+    await result
+    expect(Date.now() - startedAt).toBeLessThan(5000)
+  })
+
+  it('should fail immediately when the metric was already exported', async () => {
+    await exportMetric('debug.cache_size')
+
+    /* eslint-disable prettier/prettier */
+    const assertion = verifiers.metrics
+      .toNotHaveMetric(5000)
+        .withName('debug.cache_size')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(/found 1/)
+  })
+
+  it('should combine absence and presence assertions', async () => {
+    /* eslint-disable prettier/prettier */
+    const assertion = verifiers.spans
+      .toHaveSpan()
+        .withName('GET /orders')
+        .assert()
+      .toNotHaveSpan()
+        .withName('GET /health')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    const result = expect(assertion).resolves.toBeUndefined()
+    await exportSpan('GET /orders')
+
+    await result
+  })
+})
+
+describe('Absence Assertion Cleanup', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  const hasItem = (name: string) => (items: { name: string }[]) =>
+    assert.ok(
+      items.some((item) => item.name === name),
+      `Expected "${name}"`,
+    )
+  const hasNoItem = (name: string) => (items: { name: string }[]) =>
+    assert.ok(!items.some((item) => item.name === name), `Expected no "${name}"`)
+
+  it('should clear the timeout once the assertions pass', async () => {
+    const items = new ItemCollector()
+    const waiting = items.waitForAssertions(hasItem('ready'), 30000)
+
+    items.collect([{ name: 'ready' }])
+
+    await expect(waiting).resolves.toEqual([{ name: 'ready' }])
+    expect(vi.getTimerCount()).toBe(0)
+  })
+
+  it('should stop waiting for the other assertions once an absence assertion fails', async () => {
+    const items = new ItemCollector()
+    const verification = items.verifyAssertions(
+      [{ verify: hasItem('ready') }, { verify: hasNoItem('health'), observationWindowMs: 10000 }],
+      30000,
+    )
+
+    items.collect([{ name: 'health' }])
+
+    await expect(verification).rejects.toThrow('Expected no "health"')
+    expect(vi.getTimerCount()).toBe(0)
+  })
+})
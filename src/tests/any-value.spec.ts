@@ -0,0 +1,163 @@
+import 'vitest'
+import { ProtobufTraceSerializer } from '@opentelemetry/otlp-transformer'
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base'
+
+import { Verifiers, Collector } from '../modules/collector'
+import { match } from '../modules/shared/matchers'
+import { OtlpContentType } from '../modules/transport/enums'
+
+describe('AnyValue Attributes', () => {
+  let collector: Collector
+  let verifiers: Verifiers
+
+  beforeEach(async () => {
+    collector = new Collector({ port: 0, timeout: 300 })
+    verifiers = await collector.start()
+  })
+
+  afterEach(async () => {
+    await collector.stop()
+  })
+
+  const exportJsonSpan = (): Promise<Response> =>
+    fetch(collector.endpoints.traces, {
+      method: 'POST',
+      headers: { 'Content-Type': OtlpContentType.JSON },
+      body: JSON.stringify({
+        resourceSpans: [
+          {
+            scopeSpans: [
+              {
+                spans: [
+                  {
+                    traceId: '5b8efff798038103d269b633813fc60c',
+                    spanId: 'eee19b7ec3c1b174',
+                    name: 'publish orders',
+                    kind: 4,
+                    startTimeUnixNano: '1700000000000000000',
+                    endTimeUnixNano: '1700000001000000000',
+                    attributes: [
+                      { key: 'ratio', value: { doubleValue: 0.5 } },
+                      { key: 'checksum', value: { bytesValue: '3q2+7w==' } },
+                      {
+                        key: 'http.request.header.accept',
+                        value: {
+                          arrayValue: {
+                            values: [{ stringValue: 'application/json' }, { stringValue: 'text/plain' }],
+                          },
+                        },
+                      },
+                      {
+                        key: 'config',
+                        value: {
+                          kvlistValue: {
+                            values: [
+                              {
+                                key: 'retry',
+                                value: { kvlistValue: { values: [{ key: 'max', value: { intValue: '3' } }] } },
+                              },
+                              { key: 'enabled', value: { boolValue: true } },
+                            ],
+                          },
+                        },
+                      },
+                      {
+                        key: 'messaging.batch',
+                        value: {
+                          arrayValue: {
+                            values: [
+                              { kvlistValue: { values: [{ key: 'id', value: { stringValue: 'order-1' } }] } },
+                              { kvlistValue: { values: [{ key: 'id', value: { stringValue: 'order-2' } }] } },
+                            ],
+                          },
+                        },
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      }),
+    })
+
+  it('should match every kind of attribute value', async () => {
+    await exportJsonSpan()
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toHaveSpan()
+        .withName('publish orders')
+        .withAttribute('ratio', 0.5)
+        .withAttribute('checksum', Uint8Array.from([0xde, 0xad, 0xbe, 0xef]))
+        .withAttribute('http.request.header.accept', ['application/json', 'text/plain'])
+        .withAttribute('config', { retry: { max: 3 }, enabled: true })
+        .withAttribute('messaging.batch', [{ id: 'order-1' }, { id: 'order-2' }])
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should look up values at a path into key-value lists and arrays', async () => {
+    await exportJsonSpan()
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toHaveSpan()
+        .withAttributePath('config.retry.max', 3)
+        .withAttributePath('config.enabled', true)
+        .withAttributePath('messaging.batch.1.id', 'order-2')
+        .withAttributePath('http.request.header.accept.0', match.regex(/json/))
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should format nested values in mismatch descriptions', async () => {
+    await exportJsonSpan()
+
+    /* eslint-disable prettier/prettier */
+    const assertion = verifiers.spans
+      .toHaveSpan()
+        .withName('publish orders')
+        .withAttribute('http.request.header.accept', ['application/json'])
+        .withAttribute('config', { retry: { max: 5 } })
+        .withAttribute('checksum', Uint8Array.from([0xca, 0xfe]))
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(
+      /expected \["application\/json"\] got \["application\/json", "text\/plain"\]/,
+    )
+    await expect(assertion).rejects.toThrow(/expected { retry: { max: 5 } } got { retry: { max: 3 }, enabled: true }/)
+    await expect(assertion).rejects.toThrow(/expected 0xcafe got 0xdeadbeef/)
+  })
+
+  it('should match double and array values exported in OTLP/protobuf', async () => {
+    const exporter = new InMemorySpanExporter()
+    const provider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] })
+    provider
+      .getTracer('any-value-test')
+      .startSpan('consume orders', { attributes: { ratio: 0.25, 'messaging.batch.ids': ['order-1', 'order-2'] } })
+      .end()
+    await provider.forceFlush()
+
+    await fetch(collector.endpoints.traces, {
+      method: 'POST',
+      headers: { 'Content-Type': OtlpContentType.PROTOBUF },
+      body: ProtobufTraceSerializer.serializeRequest(exporter.getFinishedSpans()),
+    })
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toHaveSpan()
+        .withName('consume orders')
+        .withAttribute('ratio', 0.25)
+        .withAttribute('messaging.batch.ids', ['order-1', 'order-2'])
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+})
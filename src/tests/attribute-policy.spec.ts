@@ -0,0 +1,270 @@
+import 'vitest'
+
+import { Verifiers, Collector } from '../modules/collector'
+import { match } from '../modules/shared/matchers'
+import { OtlpContentType } from '../modules/transport/enums'
+
+const EMAIL = /[\w.+-]+@[\w-]+\.\w+/
+const CARD_NUMBER = match.predicate(
+  (value: unknown) => typeof value === 'string' && /^\d{13,19}$/.test(value),
+  'a card number',
+)
+
+const stringAttribute = (key: string, value: string) => ({ key, value: { stringValue: value } })
+
+describe('Attribute Policy', () => {
+  let collector: Collector
+  let verifiers: Verifiers
+
+  beforeEach(async () => {
+    collector = new Collector({
+      port: 0,
+      timeout: 300,
+      attributePolicy: {
+        forbiddenKeys: ['http.request.header.authorization', /^enduser\./],
+        forbiddenValues: [EMAIL, CARD_NUMBER],
+      },
+    })
+    verifiers = await collector.start()
+  })
+
+  afterEach(async () => {
+    await collector.stop()
+  })
+
+  const post = (url: string, body: object): Promise<Response> =>
+    fetch(url, { method: 'POST', headers: { 'Content-Type': OtlpContentType.JSON }, body: JSON.stringify(body) })
+
+  const exportSpan = (attributes: object[], events: object[] = [], resourceAttributes: object[] = []) =>
+    post(collector.endpoints.traces, {
+      resourceSpans: [
+        {
+          resource: { attributes: resourceAttributes },
+          scopeSpans: [
+            {
+              spans: [
+                {
+                  traceId: '5b8efff798038103d269b633813fc60c',
+                  spanId: 'eee19b7ec3c1b174',
+                  name: 'POST /payments',
+                  kind: 2,
+                  startTimeUnixNano: '1700000000000000000',
+                  endTimeUnixNano: '1700000001000000000',
+                  attributes,
+                  events,
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    })
+
+  it('should pass when no collected attribute is forbidden', async () => {
+    await exportSpan([stringAttribute('http.request.method', 'POST'), stringAttribute('payment.card.last4', '4242')])
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toHaveSpan()
+        .withName('POST /payments')
+        .withOnlyAttributes({ 'http.request.method': 'POST', 'payment.card.last4': match.regex(/^\d{4}$/) })
+        .withoutAttribute('http.request.header.authorization')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should report every span, event and resource attribute forbidden by the policy', async () => {
+    await exportSpan(
+      [
+        stringAttribute('http.request.header.authorization', 'Bearer secret'),
+        stringAttribute('payment.card.number', '4242424242424242'),
+      ],
+      [
+        {
+          name: 'user.notified',
+          timeUnixNano: '1700000000500000000',
+          attributes: [stringAttribute('notification.recipient', 'jane.doe@example.com')],
+        },
+      ],
+      [stringAttribute('enduser.id', 'jane')],
+    )
+
+    /* eslint-disable prettier/prettier */
+    const assertion = verifiers.spans
+      .toHaveSpan()
+        .withName('POST /payments')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow('found 4 violations')
+    await expect(assertion).rejects.toThrow(
+      'span "POST /payments" (5b8efff798038103d269b633813fc60c/eee19b7ec3c1b174): ' +
+        'attribute "http.request.header.authorization" is forbidden',
+    )
+    await expect(assertion).rejects.toThrow('attribute "payment.card.number" has a value forbidden by a card number')
+    await expect(assertion).rejects.toThrow(
+      `event "user.notified" of span "POST /payments" (5b8efff798038103d269b633813fc60c/eee19b7ec3c1b174): ` +
+        `attribute "notification.recipient" has a value forbidden by ${EMAIL.toString()}`,
+    )
+    await expect(assertion).rejects.toThrow('resource: attribute "enduser.id" is forbidden')
+  })
+
+  it('should scan metric data points', async () => {
+    await post(collector.endpoints.metrics, {
+      resourceMetrics: [
+        {
+          scopeMetrics: [
+            {
+              metrics: [
+                {
+                  name: 'logins',
+                  sum: {
+                    aggregationTemporality: 2,
+                    isMonotonic: true,
+                    dataPoints: [
+                      {
+                        asInt: '1',
+                        timeUnixNano: '1700000000000000000',
+                        attributes: [stringAttribute('user.email', 'jane.doe@example.com')],
+                      },
+                    ],
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    })
+
+    /* eslint-disable prettier/prettier */
+    const assertion = verifiers.metrics
+      .toHaveMetric()
+        .withName('logins')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(
+      /data point of metric "logins": attribute "user\.email" has a value forbidden/,
+    )
+  })
+
+  it('should report scope attributes forbidden by the policy', async () => {
+    await post(collector.endpoints.traces, {
+      resourceSpans: [
+        {
+          scopeSpans: [
+            {
+              scope: { name: 'checkout-tracer', attributes: [stringAttribute('enduser.id', 'jane')] },
+              spans: [
+                {
+                  traceId: '5b8efff798038103d269b633813fc60c',
+                  spanId: 'eee19b7ec3c1b174',
+                  name: 'POST /payments',
+                  kind: 2,
+                  startTimeUnixNano: '1700000000000000000',
+                  endTimeUnixNano: '1700000001000000000',
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    })
+    await post(collector.endpoints.logs, {
+      resourceLogs: [
+        {
+          scopeLogs: [
+            {
+              scope: { name: 'checkout-logger', attributes: [stringAttribute('owner', 'jane.doe@example.com')] },
+              logRecords: [{ timeUnixNano: '1700000000000000000', body: { stringValue: 'Payment accepted' } }],
+            },
+          ],
+        },
+      ],
+    })
+
+    const spanAssertion = verifiers.spans.toHaveSpan().withName('POST /payments').assert().assertAll()
+    const logAssertion = verifiers.logs.toHaveLog().withBody('Payment accepted').assert().assertAll()
+
+    await expect(spanAssertion).rejects.toThrow('scope "checkout-tracer": attribute "enduser.id" is forbidden')
+    await expect(logAssertion).rejects.toThrow(
+      `scope "checkout-logger": attribute "owner" has a value forbidden by ${EMAIL.toString()}`,
+    )
+  })
+
+  it('should scan the filtered attributes of metric exemplars and the scope of metrics', async () => {
+    await post(collector.endpoints.metrics, {
+      resourceMetrics: [
+        {
+          scopeMetrics: [
+            {
+              scope: {
+                name: 'checkout-meter',
+                attributes: [stringAttribute('http.request.header.authorization', 'x')],
+              },
+              metrics: [
+                {
+                  name: 'payments',
+                  sum: {
+                    aggregationTemporality: 2,
+                    isMonotonic: true,
+                    dataPoints: [
+                      {
+                        asInt: '1',
+                        timeUnixNano: '1700000000000000000',
+                        exemplars: [
+                          {
+                            asInt: '1',
+                            timeUnixNano: '1700000000000000000',
+                            filteredAttributes: [stringAttribute('payment.card.number', '4242424242424242')],
+                          },
+                        ],
+                      },
+                    ],
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    })
+
+    const assertion = verifiers.metrics.toHaveMetric().withName('payments').assert().assertAll()
+
+    await expect(assertion).rejects.toThrow('found 2 violations')
+    await expect(assertion).rejects.toThrow(
+      'exemplar of a data point of metric "payments": attribute "payment.card.number" has a value forbidden by a card number',
+    )
+    await expect(assertion).rejects.toThrow(
+      'scope "checkout-meter": attribute "http.request.header.authorization" is forbidden',
+    )
+  })
+
+  it('should report attributes beyond the expected set and attributes expected to be absent', async () => {
+    await exportSpan([stringAttribute('http.request.method', 'POST'), stringAttribute('db.statement', 'SELECT 1')])
+
+    /* eslint-disable prettier/prettier */
+    await expect(
+      verifiers.spans
+        .toHaveSpan()
+          .withOnlyAttributes({ 'http.request.method': 'POST' })
+          .assert()
+        .assertAll(),
+    ).rejects.toThrow(/found 0[\s\S]*db\.statement/)
+
+    await expect(
+      verifiers.spans
+        .expect()
+        .toHaveSpan()
+          .withoutAttribute('db.statement')
+          .assert()
+        .assertAll(),
+    ).rejects.toThrow(/found 0[\s\S]*db\.statement/)
+    /* eslint-enable prettier/prettier */
+  })
+})
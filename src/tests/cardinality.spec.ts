@@ -0,0 +1,177 @@
+import 'vitest'
+
+import { Verifiers, Collector } from '../modules/collector'
+import { OtlpContentType } from '../modules/transport/enums'
+
+describe('Cardinality', () => {
+  let collector: Collector
+  let verifiers: Verifiers
+
+  beforeEach(async () => {
+    collector = new Collector({ port: 0, timeout: 300 })
+    verifiers = await collector.start()
+  })
+
+  afterEach(async () => {
+    await collector.stop()
+  })
+
+  const post = (url: string, body: object): Promise<Response> =>
+    fetch(url, { method: 'POST', headers: { 'Content-Type': OtlpContentType.JSON }, body: JSON.stringify(body) })
+
+  const exportMiddlewareSpans = (count: number): Promise<Response> =>
+    post(collector.endpoints.traces, {
+      resourceSpans: [
+        {
+          scopeSpans: [
+            {
+              spans: Array.from({ length: count }, (_, index) => ({
+                traceId: '5b8efff798038103d269b633813fc60c',
+                spanId: `eee19b7ec3c1b17${index}`,
+                name: 'middleware - query',
+                kind: 1,
+                startTimeUnixNano: '1700000000000000000',
+                endTimeUnixNano: '1700000001000000000',
+              })),
+            },
+          ],
+        },
+      ],
+    })
+
+  const exportRouteMetric = (routes: string[]): Promise<Response> =>
+    post(collector.endpoints.metrics, {
+      resourceMetrics: [
+        {
+          scopeMetrics: [
+            {
+              metrics: [
+                {
+                  name: 'http.server.request.count',
+                  sum: {
+                    aggregationTemporality: 2,
+                    isMonotonic: true,
+                    dataPoints: routes.map((route) => ({
+                      asInt: '1',
+                      timeUnixNano: '1700000000000000000',
+                      attributes: [{ key: 'http.route', value: { stringValue: route } }],
+                    })),
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    })
+
+  it('should accept a number of spans within the bounds', async () => {
+    await exportMiddlewareSpans(3)
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toHaveSpan()
+        .withName('middleware - query')
+        .times({ atLeast: 2, atMost: 5 })
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should report the violated maximum', async () => {
+    await exportMiddlewareSpans(3)
+
+    /* eslint-disable prettier/prettier */
+    const assertion = verifiers.spans
+      .toHaveSpan()
+        .withName('middleware - query')
+        .times({ atLeast: 1, atMost: 2 })
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(/Expected between 1 and 2 spans .*, found 3 \(above the maximum of 2\)/s)
+  })
+
+  it('should report the violated minimum', async () => {
+    await exportMiddlewareSpans(3)
+
+    /* eslint-disable prettier/prettier */
+    const assertion = verifiers.spans
+      .toHaveSpan()
+        .withName('middleware - query')
+        .times({ atLeast: 4 })
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(/Expected at least 4 spans .*, found 3 \(below the minimum of 4\)/s)
+  })
+
+  it('should report an exact count that does not match', async () => {
+    await exportMiddlewareSpans(3)
+
+    /* eslint-disable prettier/prettier */
+    const assertion = verifiers.spans
+      .toHaveSpanWithCount(2)
+        .withName('middleware - query')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(/Expected exactly 2 spans .*, found 3 \(expected exactly 2\)/s)
+  })
+
+  it('should count metrics and their data points', async () => {
+    await exportRouteMetric(['/orders', '/orders/:id', '/health'])
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.metrics
+      .toHaveMetric()
+        .withName('http.server.request.count')
+        .times(1)
+        .withDataPointCount({ atLeast: 2, atMost: 5 })
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should report the violated bound of the data point count', async () => {
+    await exportRouteMetric(['/orders', '/orders/:id', '/health'])
+
+    /* eslint-disable prettier/prettier */
+    const assertion = verifiers.metrics
+      .toHaveMetric()
+        .withName('http.server.request.count')
+        .withDataPointCount({ atMost: 2 })
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(/Expected at most 2 data points .*, found 3 \(above the maximum of 2\)/s)
+  })
+
+  it('should report the violated bound of the metric count', async () => {
+    await exportRouteMetric(['/orders'])
+
+    /* eslint-disable prettier/prettier */
+    const assertion = verifiers.metrics
+      .toHaveMetric()
+        .withName('http.server.request.count')
+        .times({ atLeast: 2 })
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(/Expected at least 2 metrics .*, found 1 \(below the minimum of 2\)/s)
+  })
+
+  it('should reject inconsistent cardinalities', () => {
+    expect(() => verifiers.spans.toHaveSpan().times({})).toThrow('A cardinality requires')
+    expect(() => verifiers.spans.toHaveSpan().times({ exactly: 1, atLeast: 1 })).toThrow('cannot combine')
+    expect(() => verifiers.spans.toHaveSpan().times(-1)).toThrow('non-negative integers')
+    expect(() => verifiers.metrics.toHaveMetric().withDataPointCount({ atLeast: 3, atMost: 1 })).toThrow(
+      'The minimum of a cardinality cannot exceed its maximum',
+    )
+  })
+})
@@ -0,0 +1,146 @@
+import 'vitest'
+import { deflateSync, gzipSync } from 'zlib'
+import { JsonTraceSerializer, ProtobufTraceSerializer } from '@opentelemetry/otlp-transformer'
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  ReadableSpan,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base'
+
+import { Verifiers, Collector } from '../modules/collector'
+import { OtlpContentEncoding, OtlpContentType } from '../modules/transport/enums'
+
+/**
+ * Wraps data in a zstd frame made of a single uncompressed block, since Node.js 20 ships no zstd compressor.
+ */
+const zstdStore = (data: Buffer): Buffer => {
+  const frameHeader = Buffer.alloc(9)
+  frameHeader.writeUInt32LE(0xfd2fb528, 0)
+  // Single segment with a 4-byte frame content size
+  frameHeader.writeUInt8(0xa0, 4)
+  frameHeader.writeUInt32LE(data.length, 5)
+
+  const blockHeader = Buffer.alloc(4)
+  // Last raw block of the given size
+  blockHeader.writeUInt32LE((data.length << 3) | 1)
+
+  return Buffer.concat([frameHeader, blockHeader.subarray(0, 3), data])
+}
+
+const recordSpans = async (name: string): Promise<ReadableSpan[]> => {
+  const exporter = new InMemorySpanExporter()
+  const provider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] })
+
+  provider.getTracer('decompression-test').startSpan(name).end()
+  await provider.forceFlush()
+
+  return exporter.getFinishedSpans()
+}
+
+describe('OTLP/HTTP Request Decompression', () => {
+  let collector: Collector
+  let verifiers: Verifiers
+
+  beforeEach(async () => {
+    collector = new Collector({ port: 0, timeout: 5000 })
+    verifiers = await collector.start()
+  })
+
+  afterEach(async () => {
+    await collector.stop()
+  })
+
+  const post = (body: Uint8Array, contentType: OtlpContentType, contentEncoding?: string): Promise<Response> =>
+    fetch(collector.endpoints.traces, {
+      method: 'POST',
+      headers: { 'Content-Type': contentType, ...(contentEncoding && { 'Content-Encoding': contentEncoding }) },
+      body,
+    })
+
+  it('should decompress gzip protobuf bodies and record the encoding', async () => {
+    const body = gzipSync(ProtobufTraceSerializer.serializeRequest(await recordSpans('gzip-span'))!)
+    const response = await post(body, OtlpContentType.PROTOBUF, OtlpContentEncoding.GZIP)
+
+    expect(response.ok).toBe(true)
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toHaveSpan()
+        .withName('gzip-span')
+        .assert()
+      .assertAll()
+
+    await verifiers.exportRequests
+      .toHaveExportRequest()
+        .withContentType(OtlpContentType.PROTOBUF)
+        .withContentEncoding(OtlpContentEncoding.GZIP)
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should decompress deflate JSON bodies', async () => {
+    const body = deflateSync(JsonTraceSerializer.serializeRequest(await recordSpans('deflate-span'))!)
+    const response = await post(body, OtlpContentType.JSON, OtlpContentEncoding.DEFLATE)
+
+    expect(response.ok).toBe(true)
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toHaveSpan()
+        .withName('deflate-span')
+        .assert()
+      .assertAll()
+
+    await verifiers.exportRequests
+      .toHaveExportRequest()
+        .withContentEncoding(OtlpContentEncoding.DEFLATE)
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should decompress zstd bodies', async () => {
+    const body = zstdStore(Buffer.from(JsonTraceSerializer.serializeRequest(await recordSpans('zstd'))!))
+    const response = await post(body, OtlpContentType.JSON, OtlpContentEncoding.ZSTD)
+
+    expect(response.ok).toBe(true)
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toHaveSpan()
+        .withName('zstd')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should record uncompressed exports as identity', async () => {
+    await post(ProtobufTraceSerializer.serializeRequest(await recordSpans('plain'))!, OtlpContentType.PROTOBUF)
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.exportRequests
+      .toHaveExportRequest()
+        .withContentEncoding(OtlpContentEncoding.IDENTITY)
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should reject corrupt compressed bodies with 400', async () => {
+    const response = await post(Buffer.from('not gzip'), OtlpContentType.PROTOBUF, OtlpContentEncoding.GZIP)
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toMatchObject({
+      message: expect.stringContaining('Failed to decompress "gzip" request body'),
+    })
+  })
+
+  it('should reject unsupported content encodings with 415', async () => {
+    const response = await post(Buffer.from('checkout'), OtlpContentType.PROTOBUF, 'br')
+
+    expect(response.status).toBe(415)
+    expect(await response.json()).toMatchObject({ message: 'Unsupported content encoding "br"' })
+  })
+})
@@ -0,0 +1,203 @@
+import 'vitest'
+
+import { Verifiers, Collector } from '../modules/collector'
+import { SeverityNumber } from '../modules/logs/enums'
+import { SpanKind } from '../modules/traces/enums'
+import { OtlpContentType } from '../modules/transport/enums'
+
+const attribute = (key: string, value: string | number) => ({
+  key,
+  value: typeof value === 'number' ? { intValue: String(value) } : { stringValue: value },
+})
+
+/**
+ * Creates an OTLP/JSON span with the given name, OTLP kind and attributes.
+ */
+const span = (name: string, spanId: string, kind: number, attributes: object[]) => ({
+  traceId: '5b8efff798038103d269b633813fc60c',
+  spanId,
+  name,
+  kind,
+  startTimeUnixNano: '1700000000000000000',
+  endTimeUnixNano: '1700000001000000000',
+  attributes,
+})
+
+describe('Failure Diagnostics', () => {
+  let collector: Collector
+  let verifiers: Verifiers
+
+  beforeEach(async () => {
+    collector = new Collector({ port: 0, timeout: 300 })
+    verifiers = await collector.start()
+  })
+
+  afterEach(async () => {
+    await collector.stop()
+  })
+
+  const post = (url: string, body: object): Promise<Response> =>
+    fetch(url, { method: 'POST', headers: { 'Content-Type': OtlpContentType.JSON }, body: JSON.stringify(body) })
+
+  const exportSpans = (spans: object[], scope: object = { name: 'orders-tracer' }) =>
+    post(collector.endpoints.traces, { resourceSpans: [{ scopeSpans: [{ scope, spans }] }] })
+
+  it('should rank the closest spans with the outcome of every criterion', async () => {
+    await exportSpans([
+      span('SELECT orders', '00000000000000b1', 3, [attribute('db.system', 'postgresql')]),
+      span('GET /orders', '00000000000000b2', 2, [attribute('http.response.status_code', 404)]),
+      span('GET /orders', '00000000000000b3', 3, [attribute('http.response.status_code', 500)]),
+    ])
+
+    /* eslint-disable prettier/prettier */
+    const assertion = verifiers.spans
+      .toHaveSpan()
+        .withName('GET /orders')
+        .withKind(SpanKind.SERVER)
+        .withAttribute('http.response.status_code', 200)
+        .withAttribute('http.route', '/orders')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(
+      'Closest matches:\n' +
+        '  1. "GET /orders" (SERVER) [http.response.status_code=404], 2 of 4 criteria: ' +
+        'name ✓, kind ✓, http.response.status_code expected 200 got 404, http.route missing\n' +
+        '  2. "GET /orders" (CLIENT) [http.response.status_code=500], 1 of 4 criteria: ' +
+        'name ✓, kind expected SERVER got CLIENT, http.response.status_code expected 200 got 500, http.route missing\n' +
+        '  3. "SELECT orders" (CLIENT) [db.system=postgresql], 0 of 4 criteria: ' +
+        'name expected "GET /orders" got "SELECT orders"',
+    )
+  })
+
+  it('should describe at most three candidates', async () => {
+    await exportSpans(['a1', 'a2', 'a3', 'a4'].map((suffix) => span(`job ${suffix}`, `00000000000000${suffix}`, 1, [])))
+
+    const assertion = verifiers.spans.toHaveSpan().withName('job').assert().assertAll()
+
+    await expect(assertion).rejects.toThrow(/ {2}3\. "job a3"/)
+    await expect(assertion).rejects.not.toThrow(/"job a4"/)
+  })
+
+  it('should only describe near misses when too few spans match', async () => {
+    await exportSpans([span('GET /orders', '00000000000000c1', 2, []), span('GET /orders', '00000000000000c2', 2, [])])
+
+    const assertion = verifiers.spans.toHaveSpanWithCount(1).withName('GET /orders').assert().assertAll()
+
+    await expect(assertion).rejects.toThrow('found 2 (expected exactly 1)')
+    await expect(assertion).rejects.not.toThrow('Closest matches')
+  })
+
+  it('should describe the mismatching attribute of an instrumentation scope', async () => {
+    await exportSpans([span('charge', '00000000000000d1', 1, [])], {
+      name: 'checkout-tracer',
+      attributes: [attribute('team', 'payments')],
+    })
+
+    /* eslint-disable prettier/prettier */
+    const assertion = verifiers.spans
+      .toHaveSpan()
+        .withName('charge')
+        .withScope('checkout-tracer')
+        .withScopeAttribute('team', 'orders')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow('name ✓, scope attribute team expected orders got payments')
+  })
+
+  it('should rank the data points of the closest metrics', async () => {
+    const dataPoint = (route: string, count: number) => ({
+      attributes: [attribute('http.route', route)],
+      startTimeUnixNano: '1700000000000000000',
+      timeUnixNano: '1700000001000000000',
+      count: String(count),
+      sum: count * 10,
+      bucketCounts: [String(count), '0'],
+      explicitBounds: [100],
+    })
+
+    await post(collector.endpoints.metrics, {
+      resourceMetrics: [
+        {
+          scopeMetrics: [
+            {
+              metrics: [
+                {
+                  name: 'http.server.request.duration',
+                  unit: 'ms',
+                  histogram: {
+                    aggregationTemporality: 2,
+                    dataPoints: [dataPoint('/orders', 2), dataPoint('/users', 3)],
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    })
+
+    /* eslint-disable prettier/prettier */
+    const assertion = verifiers.metrics
+      .toHaveHistogram()
+        .withName('http.server.request.duration')
+        .withAttribute('http.route', '/orders')
+        .withCount(3)
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(
+      'Closest matches:\n' +
+        '  1. "http.server.request.duration" data point [http.route=/orders], 3 of 4 criteria: ' +
+        'name ✓, type ✓, count expected 3 got 2, http.route ✓\n' +
+        '  2. "http.server.request.duration" data point [http.route=/users], 3 of 4 criteria: ' +
+        'name ✓, type ✓, count ✓, http.route expected /orders got /users',
+    )
+  })
+
+  it('should rank the closest log records with the outcome of every criterion', async () => {
+    const logRecord = (severityNumber: number, severityText: string, body: string, attributes: object[]) => ({
+      timeUnixNano: '1700000000000000000',
+      severityNumber,
+      severityText,
+      body: { stringValue: body },
+      attributes,
+    })
+
+    await post(collector.endpoints.logs, {
+      resourceLogs: [
+        {
+          scopeLogs: [
+            {
+              logRecords: [
+                logRecord(9, 'INFO', 'Order placed', [attribute('order.id', 'o-1')]),
+                logRecord(17, 'ERROR', 'Payment failed', [attribute('payment.provider', 'paypal')]),
+              ],
+            },
+          ],
+        },
+      ],
+    })
+
+    /* eslint-disable prettier/prettier */
+    const assertion = verifiers.logs
+      .toHaveLog()
+        .withSeverity(SeverityNumber.ERROR)
+        .withBody('Payment failed')
+        .withAttribute('payment.provider', 'stripe')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(
+      'Closest matches:\n' +
+        '  1. [ERROR] "Payment failed", 2 of 3 criteria: ' +
+        'severity ✓, body ✓, payment.provider expected stripe got paypal\n' +
+        '  2. [INFO] "Order placed", 0 of 3 criteria: severity expected ERROR got INFO',
+    )
+  })
+})
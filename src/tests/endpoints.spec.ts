@@ -0,0 +1,114 @@
+import 'vitest'
+import { execFile } from 'child_process'
+import { promisify } from 'util'
+
+import { Collector } from '../modules/collector'
+import { OtlpProtocol } from '../modules/transport/enums'
+
+const execFileAsync = promisify(execFile)
+
+/**
+ * Posts an OTLP/JSON span to the endpoint configured in the environment, as an SDK in the process under test would.
+ */
+const CHILD_EXPORT_SCRIPT = `
+fetch(process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify({
+    resourceSpans: [{ scopeSpans: [{ spans: [{
+      traceId: '5b8efff798038103d269b633813fc60c',
+      spanId: 'eee19b7ec3c1b174',
+      name: 'child-process',
+      kind: 2,
+      startTimeUnixNano: '1700000000000000000',
+      endTimeUnixNano: '1700000001000000000',
+    }] }] }],
+  }),
+}).then((response) => process.exit(response.ok ? 0 : 1))
+`
+
+describe('Collector Endpoints', () => {
+  const collectors: Collector[] = []
+
+  const startCollector = async (options: ConstructorParameters<typeof Collector>[0]): Promise<Collector> => {
+    const collector = new Collector(options)
+    collectors.push(collector)
+    await collector.start()
+
+    return collector
+  }
+
+  afterEach(async () => {
+    await Promise.all(collectors.splice(0).map((collector) => collector.stop()))
+  })
+
+  it('should run collectors side by side on ephemeral ports', async () => {
+    const first = await startCollector({ port: 0, grpcPort: 0 })
+    const second = await startCollector({ port: 0, grpcPort: 0 })
+
+    expect(first.endpoints.http).toMatch(/^http:\/\/localhost:\d+$/)
+    expect(first.endpoints.http).not.toBe(second.endpoints.http)
+    expect(first.endpoints.grpc).not.toBe(second.endpoints.grpc)
+    expect(first.endpoints).toEqual({
+      http: first.endpoints.http,
+      traces: `${first.endpoints.http}/v1/traces`,
+      metrics: `${first.endpoints.http}/v1/metrics`,
+      logs: `${first.endpoints.http}/v1/logs`,
+      grpc: expect.stringMatching(/^http:\/\/localhost:\d+$/),
+    })
+  })
+
+  it('should point a child process at the collector through the OTel environment', async () => {
+    const collector = new Collector({ port: 0, timeout: 5000 })
+    collectors.push(collector)
+    const verifiers = await collector.start()
+
+    await execFileAsync(process.execPath, ['-e', CHILD_EXPORT_SCRIPT], {
+      env: { ...process.env, ...collector.otelEnv(OtlpProtocol.HTTP_JSON) },
+    })
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toHaveSpan()
+        .withName('child-process')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should create the OTel environment for each protocol', async () => {
+    const collector = await startCollector({ port: 0, grpcPort: 0 })
+    const { endpoints } = collector
+
+    expect(collector.otelEnv()).toEqual({
+      OTEL_EXPORTER_OTLP_PROTOCOL: 'http/protobuf',
+      OTEL_EXPORTER_OTLP_ENDPOINT: endpoints.http,
+      OTEL_EXPORTER_OTLP_TRACES_PROTOCOL: 'http/protobuf',
+      OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: endpoints.traces,
+      OTEL_EXPORTER_OTLP_METRICS_PROTOCOL: 'http/protobuf',
+      OTEL_EXPORTER_OTLP_METRICS_ENDPOINT: endpoints.metrics,
+      OTEL_EXPORTER_OTLP_LOGS_PROTOCOL: 'http/protobuf',
+      OTEL_EXPORTER_OTLP_LOGS_ENDPOINT: endpoints.logs,
+    })
+    expect(collector.otelEnv(OtlpProtocol.GRPC)).toMatchObject({
+      OTEL_EXPORTER_OTLP_PROTOCOL: 'grpc',
+      OTEL_EXPORTER_OTLP_ENDPOINT: endpoints.grpc,
+      OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: endpoints.grpc,
+    })
+  })
+
+  it('should refuse a gRPC environment when the gRPC receiver is disabled', async () => {
+    const collector = await startCollector({ port: 0 })
+
+    expect(collector.endpoints.grpc).toBeUndefined()
+    expect(() => collector.otelEnv(OtlpProtocol.GRPC)).toThrow('The gRPC receiver is disabled')
+  })
+
+  it('should refuse endpoints before the collector is listening', async () => {
+    expect(() => new Collector({ port: 0 }).endpoints).toThrow('Collector has not been started')
+
+    const collector = await startCollector({ listen: false })
+
+    expect(() => collector.endpoints).toThrow('Collector is not listening')
+  })
+})
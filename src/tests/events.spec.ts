@@ -0,0 +1,147 @@
+import 'vitest'
+import { JsonTraceSerializer } from '@opentelemetry/otlp-transformer'
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  ReadableSpan,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base'
+
+import { Verifiers, Collector } from '../modules/collector'
+import { match } from '../modules/shared/matchers'
+import { OtlpContentType } from '../modules/transport/enums'
+
+class OrderNotFoundError extends Error {
+  override name = 'OrderNotFoundError'
+}
+
+const recordCheckoutSpan = async (): Promise<ReadableSpan[]> => {
+  const exporter = new InMemorySpanExporter()
+  const provider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] })
+  const span = provider.getTracer('events-test').startSpan('checkout')
+
+  span.addEvent('cache.miss', { 'cache.key': 'order:42' })
+  span.addEvent('payment.authorized')
+  span.recordException(new OrderNotFoundError('Order 42 not found'))
+  span.addEvent('payment.captured')
+  span.end()
+  await provider.forceFlush()
+
+  return exporter.getFinishedSpans()
+}
+
+describe('Span Events', () => {
+  let collector: Collector
+  let verifiers: Verifiers
+
+  beforeEach(async () => {
+    collector = new Collector({ port: 0, timeout: 300 })
+    verifiers = await collector.start()
+  })
+
+  afterEach(async () => {
+    await collector.stop()
+  })
+
+  const post = (body: string | Uint8Array | undefined): Promise<Response> =>
+    fetch(collector.endpoints.traces, { method: 'POST', headers: { 'Content-Type': OtlpContentType.JSON }, body })
+
+  it('should assert on events and recorded exceptions', async () => {
+    await post(JsonTraceSerializer.serializeRequest(await recordCheckoutSpan()))
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toHaveSpan()
+        .withName('checkout')
+        .withEvent('cache.miss', { 'cache.key': 'order:42' })
+        .withException({
+          type: 'OrderNotFoundError',
+          message: match.regex(/^Order \d+ not found$/),
+          stacktrace: match.regex(/OrderNotFoundError: Order 42 not found/),
+        })
+        .withEventCount(4)
+        .withEventCount(1, 'exception')
+        .withEventCount(2, match.regex(/^payment\./))
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should check the order of events', async () => {
+    await post(JsonTraceSerializer.serializeRequest(await recordCheckoutSpan()))
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toHaveSpan()
+        .withEvent('payment.authorized')
+        .withException()
+        .withEvent('payment.captured')
+        .withOrderedEvents()
+        .assert()
+      .assertAll()
+
+    const assertion = verifiers.spans
+      .expect()
+      .toHaveSpan()
+        .withEvent('payment.captured')
+        .withEvent('payment.authorized')
+        .withOrderedEvents()
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(/found 0/)
+  })
+
+  it('should report an exception of another type', async () => {
+    await post(JsonTraceSerializer.serializeRequest(await recordCheckoutSpan()))
+
+    /* eslint-disable prettier/prettier */
+    const assertion = verifiers.spans
+      .toHaveSpan()
+        .withName('checkout')
+        .withException({ type: 'TimeoutError' })
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(/found 0[\s\S]*"checkout"/)
+  })
+
+  it('should ignore events recorded outside of the span', async () => {
+    await post(
+      JSON.stringify({
+        resourceSpans: [
+          {
+            scopeSpans: [
+              {
+                spans: [
+                  {
+                    traceId: '5b8efff798038103d269b633813fc60c',
+                    spanId: 'eee19b7ec3c1b174',
+                    name: 'checkout',
+                    kind: 1,
+                    startTimeUnixNano: '1700000000000000000',
+                    endTimeUnixNano: '1700000001000000000',
+                    events: [{ name: 'late.retry', timeUnixNano: '1700000002000000000' }],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      }),
+    )
+
+    /* eslint-disable prettier/prettier */
+    const assertion = verifiers.spans
+      .toHaveSpan()
+        .withName('checkout')
+        .withEvent('late.retry')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(/found 0/)
+  })
+})
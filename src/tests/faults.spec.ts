@@ -0,0 +1,158 @@
+import 'vitest'
+import { Client, credentials, ServiceError, status } from '@grpc/grpc-js'
+import { JsonTraceSerializer, ProtobufTraceSerializer } from '@opentelemetry/otlp-transformer'
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  ReadableSpan,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base'
+
+import { Verifiers, Collector } from '../modules/collector'
+import { TelemetrySignal } from '../modules/shared/enums'
+import { TRACE_SERVICE_CODEC } from '../modules/traces/codecs'
+import { TraceExportDto } from '../modules/traces/dtos'
+import { RPC_STATUS_CODEC } from '../modules/transport/codecs'
+import { FaultType, OtlpContentType } from '../modules/transport/enums'
+
+const recordSpans = async (name: string): Promise<ReadableSpan[]> => {
+  const exporter = new InMemorySpanExporter()
+  const provider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] })
+
+  provider.getTracer('faults-test').startSpan(name).end()
+  await provider.forceFlush()
+
+  return exporter.getFinishedSpans()
+}
+
+describe('Fault Injection', () => {
+  let collector: Collector
+  let verifiers: Verifiers
+
+  beforeEach(async () => {
+    collector = new Collector({ port: 0, grpcPort: 0, timeout: 1000 })
+    verifiers = await collector.start()
+  })
+
+  afterEach(async () => {
+    await collector.stop()
+  })
+
+  const postJson = async (spans: ReadableSpan[]): Promise<Response> =>
+    fetch(collector.endpoints.traces, {
+      method: 'POST',
+      headers: { 'Content-Type': OtlpContentType.JSON },
+      body: JsonTraceSerializer.serializeRequest(spans),
+    })
+
+  it('should fail the next requests with a retryable JSON status until the batch is accepted', async () => {
+    collector.faults.failNext(TelemetrySignal.TRACES, 2, { statusCode: 503, retryAfterSeconds: 1 })
+    const spans = await recordSpans('checkout')
+
+    const first = await postJson(spans)
+    expect(first.status).toBe(503)
+    expect(first.headers.get('Retry-After')).toBe('1')
+    expect(first.headers.get('Content-Type')).toContain(OtlpContentType.JSON)
+    expect(await first.json()).toEqual({ code: status.UNAVAILABLE, message: 'Injected error fault' })
+
+    expect((await postJson(spans)).status).toBe(503)
+    expect((await postJson(spans)).ok).toBe(true)
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toHaveSpan()
+        .withName('checkout')
+        .assert()
+      .toHaveNoDuplicateSpans()
+      .assertAll()
+
+    await verifiers.exportRequests
+      .toHaveExportRequestWithCount(3)
+        .withSignal(TelemetrySignal.TRACES)
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should encode the status of OTLP/protobuf requests in protobuf', async () => {
+    collector.faults.failNext(TelemetrySignal.TRACES, 1, { statusCode: 429, message: 'Slow down' })
+
+    const response = await fetch(collector.endpoints.traces, {
+      method: 'POST',
+      headers: { 'Content-Type': OtlpContentType.PROTOBUF },
+      body: ProtobufTraceSerializer.serializeRequest(await recordSpans('checkout')),
+    })
+
+    expect(response.status).toBe(429)
+    expect(response.headers.get('Content-Type')).toBe(OtlpContentType.PROTOBUF)
+    expect(RPC_STATUS_CODEC.decode(new Uint8Array(await response.arrayBuffer()))).toEqual({
+      code: status.UNAVAILABLE,
+      message: 'Slow down',
+      details: [],
+    })
+  })
+
+  it('should report partial success while collecting the telemetry data', async () => {
+    collector.faults.inject(TelemetrySignal.TRACES, {
+      type: FaultType.PARTIAL_SUCCESS,
+      rejected: 1,
+      errorMessage: 'Span dropped',
+    })
+
+    const response = await postJson(await recordSpans('checkout'))
+
+    expect(response.ok).toBe(true)
+    expect(await response.json()).toEqual({ partialSuccess: { rejectedSpans: 1, errorMessage: 'Span dropped' } })
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toHaveSpan()
+        .withName('checkout')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should drop the connection without collecting the telemetry data', async () => {
+    collector.faults.inject(TelemetrySignal.TRACES, { type: FaultType.CONNECTION_RESET }, 1)
+
+    await expect(postJson(await recordSpans('checkout'))).rejects.toThrow()
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toNotHaveSpan(100)
+        .withName('checkout')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should fail gRPC exports with the mapped status code', async () => {
+    collector.faults.failNext(TelemetrySignal.TRACES, 1, { statusCode: 503, message: 'Backend down' })
+
+    const client = new Client(collector.endpoints.grpc!.replace('http://', ''), credentials.createInsecure())
+    const request: TraceExportDto = { resourceSpans: [] }
+
+    const error = await new Promise<ServiceError | null>((resolve) => {
+      client.makeUnaryRequest(
+        `/${TRACE_SERVICE_CODEC.serviceName}/Export`,
+        (message: TraceExportDto) => TRACE_SERVICE_CODEC.encodeRequest(message),
+        (buffer: Buffer) => TRACE_SERVICE_CODEC.decodeResponse(buffer),
+        request,
+        resolve,
+      )
+    })
+    client.close()
+
+    expect(error).toMatchObject({ code: status.UNAVAILABLE, details: 'Backend down' })
+  })
+
+  it('should detect batches that are delivered twice', async () => {
+    const spans = await recordSpans('checkout')
+
+    await postJson(spans)
+    await postJson(spans)
+
+    await expect(verifiers.spans.toHaveNoDuplicateSpans().assertAll()).rejects.toThrow(/duplicate/i)
+  })
+})
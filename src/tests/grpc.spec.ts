@@ -0,0 +1,180 @@
+import 'vitest'
+import { Client, credentials, ServiceError, status } from '@grpc/grpc-js'
+import { context, trace } from '@opentelemetry/api'
+import { ProtobufMetricsSerializer, ProtobufTraceSerializer } from '@opentelemetry/otlp-transformer'
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base'
+import {
+  AggregationTemporality,
+  InMemoryMetricExporter,
+  MeterProvider,
+  PeriodicExportingMetricReader,
+} from '@opentelemetry/sdk-metrics'
+
+import { Verifiers, Collector } from '../modules/collector'
+import { TRACE_SERVICE_CODEC } from '../modules/traces/codecs'
+import { TraceExportDto, TraceExportResponseDto } from '../modules/traces/dtos'
+import { SpanKind, SpanStatusCode } from '../modules/traces/enums'
+import { ExportTransport } from '../modules/transport/enums'
+
+/**
+ * Creates a client for the gRPC endpoint of the collector.
+ */
+const createClient = (address: string): Client =>
+  new Client(address.replace('http://', ''), credentials.createInsecure())
+
+/**
+ * Sends an already encoded export request, so the payloads are produced by the SDK serializers
+ * rather than by the codec under test.
+ */
+const exportRaw = (client: Client, serviceName: string, request: Uint8Array): Promise<Buffer | undefined> =>
+  new Promise((resolve, reject) => {
+    client.makeUnaryRequest(
+      `/${serviceName}/Export`,
+      (message: Uint8Array) => Buffer.from(message),
+      (buffer: Buffer) => buffer,
+      request,
+      (error: ServiceError | null, response?: Buffer) => (error ? reject(error) : resolve(response)),
+    )
+  })
+
+const TRACE_SERVICE = 'opentelemetry.proto.collector.trace.v1.TraceService'
+const METRICS_SERVICE = 'opentelemetry.proto.collector.metrics.v1.MetricsService'
+
+describe('OTLP/gRPC Receiver', () => {
+  let collector: Collector
+  let verifiers: Verifiers
+
+  beforeEach(async () => {
+    collector = new Collector({ port: 0, grpcPort: 0, timeout: 5000 })
+    verifiers = await collector.start()
+  })
+
+  afterEach(async () => {
+    await collector.stop()
+  })
+
+  it('should collect spans exported over gRPC with hex-encoded IDs', async () => {
+    const exporter = new InMemorySpanExporter()
+    const provider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] })
+    const tracer = provider.getTracer('grpc-test')
+
+    const parent = tracer.startSpan('parent')
+    const { traceId, spanId } = parent.spanContext()
+    tracer.startSpan('child', { attributes: { 'order.id': 42 } }, trace.setSpan(context.active(), parent)).end()
+    parent.end()
+
+    const client = createClient(collector.endpoints.grpc!)
+    const response = await exportRaw(
+      client,
+      TRACE_SERVICE,
+      ProtobufTraceSerializer.serializeRequest(exporter.getFinishedSpans())!,
+    )
+    client.close()
+
+    expect(TRACE_SERVICE_CODEC.decodeResponse(response!)).toEqual({ partialSuccess: null })
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .forTrace(traceId)
+      .toHaveSpan()
+        .withName('child')
+        .withParentSpanId(spanId)
+        .withAttribute('order.id', 42)
+        .assert()
+      .assertAll()
+
+    await verifiers.exportRequests
+      .toHaveExportRequest()
+        .withTransport(ExportTransport.GRPC)
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await provider.shutdown()
+  })
+
+  it('should collect metrics exported over gRPC', async () => {
+    const exporter = new InMemoryMetricExporter(AggregationTemporality.CUMULATIVE)
+    const reader = new PeriodicExportingMetricReader({ exporter })
+    const provider = new MeterProvider({ readers: [reader] })
+
+    provider.getMeter('grpc-test').createCounter('orders.placed').add(3)
+    await reader.forceFlush()
+
+    const client = createClient(collector.endpoints.grpc!)
+    await exportRaw(client, METRICS_SERVICE, ProtobufMetricsSerializer.serializeRequest(exporter.getMetrics()[0])!)
+    client.close()
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.metrics
+      .toHaveMetric()
+        .withName('orders.placed')
+        .withScope('grpc-test')
+        .withDataPointCount(1)
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await provider.shutdown()
+  })
+
+  it('should reject export requests that are not valid protobuf', async () => {
+    const client = createClient(collector.endpoints.grpc!)
+    const error = await exportRaw(client, TRACE_SERVICE, Buffer.from('not protobuf')).catch((e: ServiceError) => e)
+    client.close()
+
+    expect(error).toMatchObject({ code: status.INTERNAL })
+  })
+})
+
+describe('OtlpProtobufCodec', () => {
+  it('should decode 64-bit integers and IDs without loss', () => {
+    const request: TraceExportDto = {
+      resourceSpans: [
+        {
+          scopeSpans: [
+            {
+              spans: [
+                {
+                  traceId: '5b8efff798038103d269b633813fc60c',
+                  spanId: 'eee19b7ec3c1b174',
+                  parentSpanId: 'eee19b7ec3c1b173',
+                  name: 'precise',
+                  kind: SpanKind.INTERNAL,
+                  startTimeUnixNano: 1700000000123456789n,
+                  endTimeUnixNano: 1700000000987654321n,
+                  attributes: [{ key: 'big', value: { intValue: 9007199254740993n } }],
+                  droppedAttributesCount: 0,
+                  events: [],
+                  droppedEventsCount: 0,
+                  links: [],
+                  droppedLinksCount: 0,
+                  status: { code: SpanStatusCode.UNSET },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    }
+
+    const decoded = TRACE_SERVICE_CODEC.decodeRequest(TRACE_SERVICE_CODEC.encodeRequest(request))
+
+    expect(decoded.resourceSpans[0].scopeSpans[0].spans?.[0]).toMatchObject({
+      traceId: '5b8efff798038103d269b633813fc60c',
+      spanId: 'eee19b7ec3c1b174',
+      parentSpanId: 'eee19b7ec3c1b173',
+      startTimeUnixNano: '1700000000123456789',
+      endTimeUnixNano: '1700000000987654321',
+      attributes: [{ key: 'big', value: { intValue: '9007199254740993' } }],
+    })
+  })
+
+  it('should round-trip export responses', () => {
+    const response: TraceExportResponseDto = { partialSuccess: { rejectedSpans: 2, errorMessage: 'dropped' } }
+
+    expect(TRACE_SERVICE_CODEC.decodeResponse(TRACE_SERVICE_CODEC.encodeResponse(response))).toEqual({
+      partialSuccess: { rejectedSpans: '2', errorMessage: 'dropped' },
+    })
+  })
+})
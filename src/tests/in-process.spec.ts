@@ -0,0 +1,118 @@
+import { BasicTracerProvider, ReadableSpan, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base'
+import { MeterProvider, PeriodicExportingMetricReader } from '@opentelemetry/sdk-metrics'
+import { LoggerProvider, SimpleLogRecordProcessor } from '@opentelemetry/sdk-logs'
+import { ExportResult, ExportResultCode } from '@opentelemetry/core'
+
+import { Verifiers, Collector } from '../modules/collector'
+import { SeverityNumber } from '../modules/logs/enums'
+import { ExportTransport } from '../modules/transport/enums'
+import { TelemetrySignal } from '../modules/shared/enums'
+
+describe('In-process Exporters', () => {
+  let collector: Collector
+  let verifiers: Verifiers
+
+  beforeEach(async () => {
+    collector = new Collector({
+      listen: false,
+      timeout: 5000,
+    })
+    verifiers = await collector.start()
+  })
+
+  afterEach(async () => {
+    await collector.stop()
+  })
+
+  it('should collect spans without a network listener', async () => {
+    const provider = new BasicTracerProvider({
+      spanProcessors: [new SimpleSpanProcessor(collector.exporters.spans)],
+    })
+
+    provider
+      .getTracer('test')
+      .startSpan('checkout', { attributes: { 'order.id': 42 } })
+      .end()
+    await provider.forceFlush()
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toHaveSpan()
+        .withName('checkout')
+        .withAttribute('order.id', 42)
+        .assert()
+      .assertAll()
+
+    await verifiers.exportRequests
+      .toHaveExportRequest()
+        .withTransport(ExportTransport.IN_PROCESS)
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await provider.shutdown()
+  })
+
+  it('should collect metrics without a network listener', async () => {
+    const reader = new PeriodicExportingMetricReader({ exporter: collector.exporters.metrics })
+    const provider = new MeterProvider({ readers: [reader] })
+
+    provider.getMeter('test').createHistogram('order.processing.duration').record(150, { 'order.priority': 'high' })
+    await reader.forceFlush()
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.metrics
+      .toHaveHistogram()
+        .withName('order.processing.duration')
+        .withAttribute('order.priority', 'high')
+        .withCount(1)
+        .withSum(150)
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await provider.shutdown()
+  })
+
+  it('should collect log records without a network listener', async () => {
+    const provider = new LoggerProvider({
+      processors: [new SimpleLogRecordProcessor(collector.exporters.logs)],
+    })
+
+    provider.getLogger('test').emit({ severityNumber: SeverityNumber.INFO, body: 'Order placed' })
+    await provider.forceFlush()
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.logs
+      .toHaveLog()
+        .withSeverity(SeverityNumber.INFO)
+        .withBody('Order placed')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await provider.shutdown()
+  })
+
+  it('should fail the export when a fault is injected', async () => {
+    collector.faults.failNext(TelemetrySignal.TRACES, 1, { statusCode: 503, message: 'Backend down' })
+
+    const provider = new BasicTracerProvider()
+    const span = provider.getTracer('test').startSpan('checkout')
+    span.end()
+
+    const result = await new Promise<ExportResult>((resolve) => {
+      collector.exporters.spans.export([span as unknown as ReadableSpan], resolve)
+    })
+
+    expect(result.code).toBe(ExportResultCode.FAILED)
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toNotHaveSpan(100)
+        .withName('checkout')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+})
@@ -0,0 +1,121 @@
+import 'vitest'
+import { JsonTraceSerializer } from '@opentelemetry/otlp-transformer'
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  ReadableSpan,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base'
+
+import { Verifiers, Collector } from '../modules/collector'
+import { TelemetrySignal } from '../modules/shared/enums'
+import { OtlpContentType } from '../modules/transport/enums'
+
+const recordSpans = async (name: string): Promise<ReadableSpan[]> => {
+  const exporter = new InMemorySpanExporter()
+  const provider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] })
+
+  provider.getTracer('latency-test').startSpan(name).end()
+  await provider.forceFlush()
+
+  return exporter.getFinishedSpans()
+}
+
+describe('Latency Simulation', () => {
+  let collector: Collector
+  let verifiers: Verifiers
+
+  beforeEach(async () => {
+    collector = new Collector({ port: 0, timeout: 5000, latency: { [TelemetrySignal.METRICS]: { delayMs: 10000 } } })
+    verifiers = await collector.start()
+  })
+
+  afterEach(async () => {
+    await collector.stop()
+  })
+
+  const postSpans = async (name: string): Promise<Response> =>
+    fetch(collector.endpoints.traces, {
+      method: 'POST',
+      headers: { 'Content-Type': OtlpContentType.JSON },
+      body: JsonTraceSerializer.serializeRequest(await recordSpans(name)),
+    })
+
+  it('should delay responses and only collect the data once the delay has elapsed', async () => {
+    collector.latency.set(TelemetrySignal.TRACES, { delayMs: 300 })
+
+    const startedAt = Date.now()
+    const response = postSpans('slow')
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toNotHaveSpan(100)
+        .withName('slow')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    expect((await response).ok).toBe(true)
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(300)
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .expect()
+      .toHaveSpan()
+        .withName('slow')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should track concurrent in-flight exports', async () => {
+    collector.latency.set(TelemetrySignal.TRACES, { delayMs: 200 })
+
+    const responses = Promise.all([postSpans('first'), postSpans('second'), postSpans('third')])
+    await new Promise((resolve) => setTimeout(resolve, 100))
+
+    expect(collector.inFlight.getStats(TelemetrySignal.TRACES)).toEqual({ current: 3, peak: 3, completed: 0 })
+
+    await responses
+
+    expect(collector.inFlight.getStats(TelemetrySignal.TRACES)).toEqual({ current: 0, peak: 3, completed: 3 })
+    expect(collector.inFlight.getStats(TelemetrySignal.LOGS)).toEqual({ current: 0, peak: 0, completed: 0 })
+    expect(collector.inFlight.getStats().completed).toBe(3)
+  })
+
+  it('should respond to delayed exports as soon as the latency is cleared', async () => {
+    collector.latency.setAll({ delayMs: 10000 })
+
+    const startedAt = Date.now()
+    const response = postSpans('released')
+    await new Promise((resolve) => setTimeout(resolve, 100))
+
+    collector.latency.clear(TelemetrySignal.TRACES)
+
+    expect((await response).ok).toBe(true)
+    expect(Date.now() - startedAt).toBeLessThan(5000)
+  })
+
+  it('should reject delayed exports without collecting them when the collector stops', async () => {
+    collector.latency.set(TelemetrySignal.TRACES, { delayMs: 10000 })
+
+    const response = postSpans('dropped')
+    await new Promise((resolve) => setTimeout(resolve, 100))
+
+    expect(collector.inFlight.getStats(TelemetrySignal.TRACES).current).toBe(1)
+
+    const startedAt = Date.now()
+    await collector.stop()
+
+    expect((await response).status).toBe(503)
+    expect(Date.now() - startedAt).toBeLessThan(5000)
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toNotHaveSpan(100)
+        .withName('dropped')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+})
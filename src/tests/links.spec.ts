@@ -0,0 +1,144 @@
+import 'vitest'
+import { SpanContext, SpanKind as ApiSpanKind } from '@opentelemetry/api'
+import { JsonTraceSerializer } from '@opentelemetry/otlp-transformer'
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  ReadableSpan,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base'
+
+import { Verifiers, Collector } from '../modules/collector'
+import { SpanKind } from '../modules/traces/enums'
+import { OtlpContentType } from '../modules/transport/enums'
+
+interface BatchWorkflow {
+  producers: SpanContext[]
+  spans: ReadableSpan[]
+}
+
+/**
+ * Records two producer spans, each in its own trace, and a consumer span processing both messages as a batch.
+ */
+const recordBatchWorkflow = async (): Promise<BatchWorkflow> => {
+  const exporter = new InMemorySpanExporter()
+  const provider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] })
+  const tracer = provider.getTracer('links-test')
+
+  const producers = ['order-1', 'order-2'].map((id) => {
+    const producer = tracer.startSpan('orders publish', {
+      kind: ApiSpanKind.PRODUCER,
+      attributes: { 'messaging.message.id': id },
+    })
+    producer.end()
+
+    return producer.spanContext()
+  })
+
+  tracer
+    .startSpan('orders process', {
+      kind: ApiSpanKind.CONSUMER,
+      links: producers.map((context, index) => ({ context, attributes: { 'messaging.batch.index': index } })),
+    })
+    .end()
+  await provider.forceFlush()
+
+  return { producers, spans: exporter.getFinishedSpans() }
+}
+
+describe('Span Links', () => {
+  let collector: Collector
+  let verifiers: Verifiers
+
+  beforeEach(async () => {
+    collector = new Collector({ port: 0, timeout: 300 })
+    verifiers = await collector.start()
+  })
+
+  afterEach(async () => {
+    await collector.stop()
+  })
+
+  const postSpans = (spans: ReadableSpan[]): Promise<Response> =>
+    fetch(collector.endpoints.traces, {
+      method: 'POST',
+      headers: { 'Content-Type': OtlpContentType.JSON },
+      body: JsonTraceSerializer.serializeRequest(spans),
+    })
+
+  it('should assert on links to span contexts and their attributes', async () => {
+    const { producers, spans } = await recordBatchWorkflow()
+    await postSpans(spans)
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toHaveSpan()
+        .withName('orders process')
+        .withKind(SpanKind.CONSUMER)
+        .withLink(producers[1])
+          .withLinkAttribute('messaging.batch.index', 1)
+        .withLink(producers[0])
+        .withLinkCount(2)
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should prove that links point to collected producer spans', async () => {
+    const { spans } = await recordBatchWorkflow()
+    await postSpans(spans)
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toHaveSpan()
+        .withName('orders process')
+        .withLink((producer) =>
+          producer.withName('orders publish').withKind(SpanKind.PRODUCER).withAttribute('messaging.message.id', 'order-2'),
+        )
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should fail when the linked producer span was not collected', async () => {
+    const { spans } = await recordBatchWorkflow()
+    await postSpans(spans.filter((span) => span.name === 'orders process'))
+
+    /* eslint-disable prettier/prettier */
+    const assertion = verifiers.spans
+      .toHaveSpan()
+        .withName('orders process')
+        .withLink((producer) => producer.withName('orders publish'))
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(/found 0[\s\S]*"orders process"/)
+  })
+
+  it('should report a link with another attribute value and an unexpected link count', async () => {
+    const { producers, spans } = await recordBatchWorkflow()
+    await postSpans(spans)
+
+    /* eslint-disable prettier/prettier */
+    await expect(
+      verifiers.spans
+        .toHaveSpan()
+          .withLink(producers[0])
+            .withLinkAttribute('messaging.batch.index', 1)
+          .assert()
+        .assertAll(),
+    ).rejects.toThrow(/found 0/)
+
+    await expect(
+      verifiers.spans
+        .expect()
+        .toHaveSpan()
+          .withName('orders process')
+          .withLinkCount({ atMost: 1 })
+          .assert()
+        .assertAll(),
+    ).rejects.toThrow(/found 0/)
+    /* eslint-enable prettier/prettier */
+  })
+})
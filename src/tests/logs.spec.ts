@@ -0,0 +1,170 @@
+import 'vitest'
+import { context, trace } from '@opentelemetry/api'
+import { JsonLogsSerializer, ProtobufLogsSerializer } from '@opentelemetry/otlp-transformer'
+import {
+  InMemoryLogRecordExporter,
+  LoggerProvider,
+  ReadableLogRecord,
+  SimpleLogRecordProcessor,
+} from '@opentelemetry/sdk-logs'
+import { BasicTracerProvider } from '@opentelemetry/sdk-trace-base'
+
+import { Verifiers, Collector } from '../modules/collector'
+import { SeverityNumber } from '../modules/logs/enums'
+import { OtlpContentType } from '../modules/transport/enums'
+
+describe('Logs', () => {
+  let collector: Collector
+  let verifiers: Verifiers
+  let exporter: InMemoryLogRecordExporter
+  let provider: LoggerProvider
+
+  beforeEach(async () => {
+    collector = new Collector({ port: 0, timeout: 1000, observationWindow: 100 })
+    verifiers = await collector.start()
+    exporter = new InMemoryLogRecordExporter()
+    provider = new LoggerProvider({ processors: [new SimpleLogRecordProcessor(exporter)] })
+  })
+
+  afterEach(async () => {
+    await provider.shutdown()
+    await collector.stop()
+  })
+
+  const exportLogs = async (contentType: OtlpContentType): Promise<Response> => {
+    await provider.forceFlush()
+
+    const logRecords: ReadableLogRecord[] = exporter.getFinishedLogRecords()
+    const serializer = contentType === OtlpContentType.JSON ? JsonLogsSerializer : ProtobufLogsSerializer
+
+    return fetch(collector.endpoints.logs, {
+      method: 'POST',
+      headers: { 'Content-Type': contentType },
+      body: serializer.serializeRequest(logRecords),
+    })
+  }
+
+  it('should collect OTLP/JSON log records', async () => {
+    provider.getLogger('orders').emit({
+      severityNumber: SeverityNumber.WARN,
+      severityText: 'warning',
+      body: 'Order delayed',
+      attributes: { 'order.id': 42 },
+    })
+
+    expect((await exportLogs(OtlpContentType.JSON)).ok).toBe(true)
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.logs
+      .toHaveLog()
+        .withSeverity(SeverityNumber.WARN)
+        .withSeverity('warning')
+        .withBody('Order delayed')
+        .withAttribute('order.id', 42)
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should collect OTLP/protobuf log records with their trace context', async () => {
+    const span = new BasicTracerProvider().getTracer('orders').startSpan('checkout')
+    const { traceId, spanId } = span.spanContext()
+
+    provider.getLogger('orders').emit({
+      severityNumber: SeverityNumber.INFO,
+      body: 'Order placed',
+      context: trace.setSpan(context.active(), span),
+    })
+    provider.getLogger('orders').emit({ severityNumber: SeverityNumber.INFO, body: 'Order listed' })
+    span.end()
+
+    expect((await exportLogs(OtlpContentType.PROTOBUF)).ok).toBe(true)
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.logs
+      .toHaveLog()
+        .withBody('Order placed')
+        .withTraceContext(traceId, spanId)
+        .assert()
+      .assertAll()
+
+    const assertion = verifiers.logs
+      .expect()
+      .toHaveLog()
+        .withBody('Order listed')
+        .withTraceContext()
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(/Expected exactly 1 log records matching[\s\S]*Order listed[\s\S]*found 0/)
+  })
+
+  it('should count log records and assert their absence', async () => {
+    const logger = provider.getLogger('orders')
+    logger.emit({ severityNumber: SeverityNumber.ERROR, body: 'Payment failed' })
+    logger.emit({ severityNumber: SeverityNumber.ERROR, body: 'Payment failed' })
+
+    await exportLogs(OtlpContentType.JSON)
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.logs
+      .toHaveLogWithCount(2)
+        .withSeverity(SeverityNumber.ERROR)
+        .assert()
+      .toNotHaveLog()
+        .withSeverity(SeverityNumber.FATAL)
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should report the mismatching log record expectation', async () => {
+    provider.getLogger('orders').emit({ severityNumber: SeverityNumber.INFO, body: 'Order placed' })
+
+    await exportLogs(OtlpContentType.JSON)
+
+    /* eslint-disable prettier/prettier */
+    const assertion = verifiers.logs
+      .toHaveLog()
+        .withSeverity(SeverityNumber.INFO)
+        .withBody('Order cancelled')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(
+      /Expected exactly 1 log records matching[\s\S]*Order cancelled[\s\S]*found 0/,
+    )
+  })
+
+  it('should report the violated bound of the log record count', async () => {
+    const logger = provider.getLogger('orders')
+    for (let attempt = 0; attempt < 3; attempt++) {
+      logger.emit({ severityNumber: SeverityNumber.WARN, body: 'Retrying request' })
+    }
+
+    await exportLogs(OtlpContentType.JSON)
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.logs
+      .toHaveLog()
+        .withBody('Retrying request')
+        .times({ atLeast: 2 })
+        .assert()
+      .assertAll()
+
+    const assertion = verifiers.logs
+      .expect()
+      .toHaveLog()
+        .withBody('Retrying request')
+        .times({ atLeast: 1, atMost: 2 })
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(
+      /Expected between 1 and 2 log records .*, found 3 \(above the maximum of 2\)/s,
+    )
+  })
+})
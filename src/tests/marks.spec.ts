@@ -0,0 +1,104 @@
+import 'vitest'
+
+import { Verifiers, Collector } from '../modules/collector'
+import { OtlpContentType } from '../modules/transport/enums'
+
+const NOW = 1700000000000
+const MS = 1_000_000n
+
+/**
+ * Creates an OTLP/JSON span started at an offset from `NOW`, in milliseconds.
+ */
+const span = (name: string, spanId: string, offsetMs: number) => ({
+  traceId: '5b8efff798038103d269b633813fc60c',
+  spanId,
+  name,
+  kind: 1,
+  startTimeUnixNano: (BigInt(NOW + offsetMs) * MS).toString(),
+  endTimeUnixNano: (BigInt(NOW + offsetMs + 10) * MS).toString(),
+})
+
+describe('Marks', () => {
+  let collector: Collector
+  let verifiers: Verifiers
+
+  beforeEach(async () => {
+    collector = new Collector({ port: 0, timeout: 300, observationWindow: 100 })
+    verifiers = await collector.start()
+
+    // Spans and marks of the same millisecond can only be ordered by the time spans are received
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(NOW)
+  })
+
+  afterEach(async () => {
+    vi.useRealTimers()
+    await collector.stop()
+  })
+
+  const exportSpans = (...spans: object[]): Promise<Response> =>
+    fetch(collector.endpoints.traces, {
+      method: 'POST',
+      headers: { 'Content-Type': OtlpContentType.JSON },
+      body: JSON.stringify({ resourceSpans: [{ scopeSpans: [{ spans }] }] }),
+    })
+
+  it('should leave out spans of the same millisecond received before the mark', async () => {
+    await exportSpans(span('previous test', '00000000000000e1', 0))
+    const mark = collector.mark()
+    await exportSpans(span('current test', '00000000000000e2', 0))
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .since(mark)
+      .toHaveSpan()
+        .withName('current test')
+        .assert()
+      .toNotHaveSpan()
+        .withName('previous test')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should end windows at spans of the same millisecond received after the end mark', async () => {
+    const before = collector.mark()
+    await exportSpans(span('checkout', '00000000000000e3', 0))
+    const after = collector.mark()
+    await exportSpans(span('next test', '00000000000000e4', 0))
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .between(before, after)
+      .toHaveSpanWithCount(1)
+        .assert()
+      .toHaveSpan()
+        .withName('checkout')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should place spans exported late by their start time', async () => {
+    const before = collector.mark()
+    vi.setSystemTime(NOW + 50)
+    const after = collector.mark()
+
+    await exportSpans(
+      span('started before', '00000000000000e5', -1),
+      span('started within', '00000000000000e6', 20),
+      span('started after', '00000000000000e7', 51),
+    )
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .between(before, after)
+      .toHaveSpanWithCount(1)
+        .assert()
+      .toHaveSpan()
+        .withName('started within')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+})
@@ -0,0 +1,173 @@
+import 'vitest'
+
+import { Verifiers, Collector } from '../modules/collector'
+import { match } from '../modules/shared/matchers'
+import { OtlpContentType } from '../modules/transport/enums'
+
+const ORDER_ID = '3f2b8c1e-7d4a-4e6b-9c0f-1a2b3c4d5e6f'
+
+describe('Value Matchers', () => {
+  let collector: Collector
+  let verifiers: Verifiers
+
+  beforeEach(async () => {
+    collector = new Collector({ port: 0, timeout: 300 })
+    verifiers = await collector.start()
+  })
+
+  afterEach(async () => {
+    await collector.stop()
+  })
+
+  const post = (url: string, body: object): Promise<Response> =>
+    fetch(url, { method: 'POST', headers: { 'Content-Type': OtlpContentType.JSON }, body: JSON.stringify(body) })
+
+  const exportSpan = (): Promise<Response> =>
+    post(collector.endpoints.traces, {
+      resourceSpans: [
+        {
+          resource: { attributes: [{ key: 'service.instance.id', value: { stringValue: 'checkout-7f9c' } }] },
+          scopeSpans: [
+            {
+              scope: {
+                name: 'checkout-tracer',
+                attributes: [{ key: 'library.language', value: { stringValue: 'nodejs' } }],
+              },
+              spans: [
+                {
+                  traceId: '5b8efff798038103d269b633813fc60c',
+                  spanId: 'eee19b7ec3c1b174',
+                  name: `GET /orders/${ORDER_ID}`,
+                  kind: 2,
+                  startTimeUnixNano: '1700000000000000000',
+                  endTimeUnixNano: '1700000001000000000',
+                  attributes: [
+                    { key: 'http.target', value: { stringValue: `/orders/${ORDER_ID}` } },
+                    { key: 'net.host.port', value: { intValue: '8080' } },
+                    { key: 'http.user_agent', value: { stringValue: 'undici' } },
+                    { key: 'http.request.resend', value: { boolValue: false } },
+                  ],
+                  status: { code: 2, message: `Order ${ORDER_ID} not found` },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    })
+
+  it('should match span values with matchers', async () => {
+    await exportSpan()
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toHaveSpan()
+        .withName(match.regex(/^GET \/orders\//))
+        .withAttribute('http.target', match.regex(/^\/orders\/[0-9a-f-]{36}$/))
+        .withAttribute('net.host.port', match.range(1024, 65535))
+        .withAttribute('http.user_agent', match.oneOf('undici', 'node-fetch'))
+        .withAttribute('http.request.resend', match.anyBoolean())
+        .withResourceAttribute('service.instance.id', match.anyString())
+        .withStatusMessage(match.predicate((message: string) => message.includes(ORDER_ID), 'mentioning the order'))
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should describe the matchers of a failed assertion', async () => {
+    await exportSpan()
+
+    /* eslint-disable prettier/prettier */
+    const assertion = verifiers.spans
+      .toHaveSpan()
+        .withName(match.regex(/^POST /))
+        .withAttribute('net.host.port', match.range(1, 1023))
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(/"name": "matching \/\^POST \/"/)
+    await expect(assertion).rejects.toThrow(/net\.host\.port.*between 1 and 1023/)
+    await expect(assertion).rejects.toThrow(/expected between 1 and 1023 got 8080/)
+  })
+
+  it('should match scope attributes with matchers', async () => {
+    await exportSpan()
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toHaveSpan()
+        .withScope('checkout-tracer')
+        .withScopeAttribute('library.language', match.oneOf('nodejs', 'browser'))
+        .assert()
+      .assertAll()
+
+    const assertion = verifiers.spans
+      .expect()
+      .toHaveSpan()
+        .withScopeAttribute('library.language', match.regex(/^java/))
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(/scope attribute library\.language expected matching \/\^java\/ got nodejs/)
+  })
+
+  it('should match histogram data point attributes with matchers', async () => {
+    await post(collector.endpoints.metrics, {
+      resourceMetrics: [
+        {
+          scopeMetrics: [
+            {
+              metrics: [
+                {
+                  name: 'http.server.request.duration',
+                  histogram: {
+                    aggregationTemporality: 2,
+                    dataPoints: [
+                      {
+                        count: '1',
+                        sum: 12.5,
+                        bucketCounts: ['0', '1'],
+                        explicitBounds: [10],
+                        timeUnixNano: '1700000000000000000',
+                        attributes: [
+                          { key: 'http.route', value: { stringValue: '/orders/:id' } },
+                          { key: 'http.response.status_code', value: { intValue: '404' } },
+                        ],
+                      },
+                    ],
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    })
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.metrics
+      .toHaveHistogram()
+        .withName(match.regex(/duration$/))
+        .withAttribute('http.route', match.anyString())
+        .withAttribute('http.response.status_code', match.range(400, 499))
+        .assert()
+      .assertAll()
+
+    const assertion = verifiers.metrics
+      .expect()
+      .toHaveHistogram()
+        .withName('http.server.request.duration')
+        .withAttribute('http.response.status_code', match.range(500, 599))
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(/between 500 and 599/)
+  })
+
+  it('should reject an empty range', () => {
+    expect(() => match.range(10, 1)).toThrow('The minimum of a range cannot exceed its maximum, got 10 and 1')
+  })
+})
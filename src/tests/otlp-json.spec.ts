@@ -0,0 +1,166 @@
+import 'vitest'
+
+import { Verifiers, Collector } from '../modules/collector'
+import { SpanKind } from '../modules/traces/enums'
+import { OtlpContentType } from '../modules/transport/enums'
+
+const TRACE_ID = '5B8EFFF798038103D269B633813FC60C'
+const PARENT_SPAN_ID = 'EEE19B7EC3C1B173'
+
+describe('OTLP/JSON Normalization', () => {
+  let collector: Collector
+  let verifiers: Verifiers
+
+  beforeEach(async () => {
+    collector = new Collector({ port: 0, timeout: 300 })
+    verifiers = await collector.start()
+  })
+
+  afterEach(async () => {
+    await collector.stop()
+  })
+
+  const post = (url: string, body: object): Promise<Response> =>
+    fetch(url, { method: 'POST', headers: { 'Content-Type': OtlpContentType.JSON }, body: JSON.stringify(body) })
+
+  const exportSpan = (span: object): Promise<Response> =>
+    post(collector.endpoints.traces, {
+      resourceSpans: [
+        {
+          scopeSpans: [
+            {
+              spans: [
+                {
+                  traceId: TRACE_ID,
+                  spanId: 'EEE19B7EC3C1B174',
+                  parentSpanId: PARENT_SPAN_ID,
+                  name: 'GET /orders',
+                  kind: 2,
+                  ...span,
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    })
+
+  it('should decode int64 values, timestamps and IDs encoded as strings', async () => {
+    await exportSpan({
+      startTimeUnixNano: '1700000000000000000',
+      endTimeUnixNano: '1700000001000000000',
+      attributes: [
+        { key: 'http.method', value: { stringValue: 'GET' } },
+        { key: 'http.status_code', value: { intValue: '200' } },
+        { key: 'orders.total_bytes', value: { intValue: '9007199254740993' } },
+      ],
+    })
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .forTrace(TRACE_ID.toLowerCase())
+      .toHaveSpan()
+        .withKind(SpanKind.SERVER)
+        .withAttribute('http.status_code', 200)
+        .withParentSpanId(PARENT_SPAN_ID.toLowerCase())
+        .withAttribute('orders.total_bytes', 9007199254740993n)
+        .withDuration({ greaterThan: '999ms', lessThan: '1001ms' })
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should decode int64 values and timestamps encoded as numbers', async () => {
+    await exportSpan({
+      startTimeUnixNano: 1000000000,
+      endTimeUnixNano: 1250000000,
+      attributes: [{ key: 'http.status_code', value: { intValue: 404 } }],
+    })
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toHaveSpan()
+        .withAttribute('http.status_code', 404)
+        .withDuration({ greaterThan: '249ms', lessThan: '251ms' })
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should decode histogram counts and data point attributes encoded as strings', async () => {
+    await post(collector.endpoints.metrics, {
+      resourceMetrics: [
+        {
+          scopeMetrics: [
+            {
+              metrics: [
+                {
+                  name: 'http.server.request.duration',
+                  histogram: {
+                    aggregationTemporality: 2,
+                    dataPoints: [
+                      {
+                        count: '3',
+                        sum: 42.5,
+                        bucketCounts: ['1', '2'],
+                        explicitBounds: [10],
+                        startTimeUnixNano: '1700000000000000000',
+                        timeUnixNano: '1700000001000000000',
+                        attributes: [{ key: 'http.response.status_code', value: { intValue: '200' } }],
+                      },
+                    ],
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    })
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.metrics
+      .toHaveHistogram()
+        .withName('http.server.request.duration')
+        .withAttribute('http.response.status_code', 200)
+        .withCount(3)
+        .withSum(42.5)
+        .withBucketCounts([1, 2])
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should decode log timestamps and trace context', async () => {
+    await post(collector.endpoints.logs, {
+      resourceLogs: [
+        {
+          scopeLogs: [
+            {
+              logRecords: [
+                {
+                  timeUnixNano: '1700000000000000000',
+                  severityNumber: 9,
+                  body: { stringValue: 'Order placed' },
+                  traceId: TRACE_ID,
+                  spanId: PARENT_SPAN_ID,
+                  attributes: [{ key: 'order.items', value: { intValue: '4' } }],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    })
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.logs
+      .toHaveLog()
+        .withBody('Order placed')
+        .withAttribute('order.items', 4)
+        .withTraceContext(TRACE_ID.toLowerCase(), PARENT_SPAN_ID.toLowerCase())
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+})
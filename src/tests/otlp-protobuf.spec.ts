@@ -0,0 +1,155 @@
+import 'vitest'
+import {
+  JsonTraceSerializer,
+  ProtobufMetricsSerializer,
+  ProtobufTraceSerializer,
+} from '@opentelemetry/otlp-transformer'
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  ReadableSpan,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base'
+import {
+  AggregationTemporality,
+  InMemoryMetricExporter,
+  MeterProvider,
+  PeriodicExportingMetricReader,
+} from '@opentelemetry/sdk-metrics'
+
+import { Verifiers, Collector } from '../modules/collector'
+import { TRACE_SERVICE_CODEC } from '../modules/traces/codecs'
+import { ExportTransport, OtlpContentType } from '../modules/transport/enums'
+
+const recordSpans = async (name: string): Promise<ReadableSpan[]> => {
+  const exporter = new InMemorySpanExporter()
+  const provider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] })
+
+  provider
+    .getTracer('protobuf-test')
+    .startSpan(name, { attributes: { 'order.id': 42 } })
+    .end()
+  await provider.forceFlush()
+
+  return exporter.getFinishedSpans()
+}
+
+describe('OTLP/HTTP Content Negotiation', () => {
+  let collector: Collector
+  let verifiers: Verifiers
+
+  beforeEach(async () => {
+    collector = new Collector({ port: 0, timeout: 5000 })
+    verifiers = await collector.start()
+  })
+
+  afterEach(async () => {
+    await collector.stop()
+  })
+
+  it('should decode protobuf trace exports and respond in protobuf', async () => {
+    const response = await fetch(collector.endpoints.traces, {
+      method: 'POST',
+      headers: { 'Content-Type': OtlpContentType.PROTOBUF },
+      body: ProtobufTraceSerializer.serializeRequest(await recordSpans('checkout')),
+    })
+
+    expect(response.ok).toBe(true)
+    expect(response.headers.get('Content-Type')).toBe(OtlpContentType.PROTOBUF)
+    expect(TRACE_SERVICE_CODEC.decodeResponse(new Uint8Array(await response.arrayBuffer()))).toEqual({
+      partialSuccess: null,
+    })
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toHaveSpan()
+        .withName('checkout')
+        .withAttribute('order.id', 42)
+        .assert()
+      .assertAll()
+
+    await verifiers.exportRequests
+      .toHaveExportRequest()
+        .withTransport(ExportTransport.HTTP)
+        .withContentType(OtlpContentType.PROTOBUF)
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should decode protobuf metric exports', async () => {
+    const exporter = new InMemoryMetricExporter(AggregationTemporality.CUMULATIVE)
+    const reader = new PeriodicExportingMetricReader({ exporter })
+    const provider = new MeterProvider({ readers: [reader] })
+
+    provider.getMeter('protobuf-test').createHistogram('order.processing.duration').record(150)
+    await reader.forceFlush()
+
+    const response = await fetch(collector.endpoints.metrics, {
+      method: 'POST',
+      headers: { 'Content-Type': OtlpContentType.PROTOBUF },
+      body: ProtobufMetricsSerializer.serializeRequest(exporter.getMetrics()[0]),
+    })
+
+    expect(response.ok).toBe(true)
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.metrics
+      .toHaveHistogram()
+        .withName('order.processing.duration')
+        .withCount(1)
+        .withSum(150)
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await provider.shutdown()
+  })
+
+  it('should keep accepting OTLP/JSON and respond in JSON', async () => {
+    const response = await fetch(collector.endpoints.traces, {
+      method: 'POST',
+      headers: { 'Content-Type': OtlpContentType.JSON },
+      body: JsonTraceSerializer.serializeRequest(await recordSpans('checkout')),
+    })
+
+    expect(response.ok).toBe(true)
+    expect(response.headers.get('Content-Type')).toContain(OtlpContentType.JSON)
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toHaveSpan()
+        .withName('checkout')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should reject unsupported content types with 415', async () => {
+    const response = await fetch(collector.endpoints.traces, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain' },
+      body: 'checkout',
+    })
+
+    expect(response.status).toBe(415)
+    expect(await response.json()).toMatchObject({ message: expect.stringContaining('Unsupported content type') })
+  })
+
+  it('should reject malformed protobuf bodies with 400', async () => {
+    const response = await fetch(collector.endpoints.traces, {
+      method: 'POST',
+      headers: { 'Content-Type': OtlpContentType.PROTOBUF },
+      body: Buffer.from('not protobuf'),
+    })
+
+    expect(response.status).toBe(400)
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toNotHaveSpan(100)
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+})
@@ -0,0 +1,128 @@
+import 'vitest'
+
+import { Verifiers, Collector } from '../modules/collector'
+import { SpanKind } from '../modules/traces/enums'
+import { OtlpContentType } from '../modules/transport/enums'
+
+const TRACE_ID = '5b8efff798038103d269b633813fc60c'
+const OTHER_TRACE_ID = '0af7651916cd43dd8448eb211c80319c'
+
+const span = (name: string, spanId: string, kind: SpanKind, parentSpanId?: string, traceId = TRACE_ID) => ({
+  traceId,
+  spanId,
+  parentSpanId,
+  name,
+  kind,
+  startTimeUnixNano: '1700000000000000000',
+  endTimeUnixNano: '1700000001000000000',
+})
+
+describe('Span Relationships', () => {
+  let collector: Collector
+  let verifiers: Verifiers
+
+  beforeEach(async () => {
+    collector = new Collector({ port: 0, timeout: 300 })
+    verifiers = await collector.start()
+
+    // GET /redis
+    // ├── middleware - query
+    // │   └── redis-GET
+    // └── redis-SET
+    // and, in another trace, an unrelated redis-DEL root span
+    await fetch(collector.endpoints.traces, {
+      method: 'POST',
+      headers: { 'Content-Type': OtlpContentType.JSON },
+      body: JSON.stringify({
+        resourceSpans: [
+          {
+            scopeSpans: [
+              {
+                spans: [
+                  span('GET /redis', '00000000000000a1', SpanKind.SERVER),
+                  span('middleware - query', '00000000000000a2', SpanKind.INTERNAL, '00000000000000a1'),
+                  span('redis-GET', '00000000000000a3', SpanKind.CLIENT, '00000000000000a2'),
+                  span('redis-SET', '00000000000000a4', SpanKind.CLIENT, '00000000000000a1'),
+                  span('redis-DEL', '00000000000000b1', SpanKind.CLIENT, undefined, OTHER_TRACE_ID),
+                ],
+              },
+            ],
+          },
+        ],
+      }),
+    })
+  })
+
+  afterEach(async () => {
+    await collector.stop()
+  })
+
+  it('should assert on parents, children and ancestors', async () => {
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toHaveSpan()
+        .withName('GET /redis')
+        .isRoot()
+        .withChild((child) => child.withName('redis-SET').withKind(SpanKind.CLIENT))
+        .withChild((child) => child.withName('middleware - query'))
+        .assert()
+      .toHaveSpan()
+        .withName('redis-GET')
+        .withParentSpanId('00000000000000a2')
+        .withParent((parent) => parent.withName('middleware - query'))
+        .withAncestor((ancestor) => ancestor.withName('GET /redis').withKind(SpanKind.SERVER))
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should not treat grandchildren as children', async () => {
+    /* eslint-disable prettier/prettier */
+    const assertion = verifiers.spans
+      .toHaveSpan()
+        .withName('GET /redis')
+        .withChild((child) => child.withName('redis-GET'))
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(/Expected exactly 1 spans matching[\s\S]*redis-GET[\s\S]*found 0/)
+  })
+
+  it('should not relate spans across traces', async () => {
+    /* eslint-disable prettier/prettier */
+    const assertion = verifiers.spans
+      .toHaveSpan()
+        .withName('redis-DEL')
+        .withAncestor((ancestor) => ancestor.withName('GET /redis'))
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(/found 0/)
+  })
+
+  it('should match a declarative subtree within one trace', async () => {
+    await verifiers.spans
+      .toHaveTrace({
+        name: 'GET /redis',
+        kind: SpanKind.SERVER,
+        children: [
+          { name: 'middleware - query', children: [{ name: 'redis-GET', kind: SpanKind.CLIENT }] },
+          { name: 'redis-SET' },
+        ],
+      })
+      .assertAll()
+  })
+
+  it('should require a different child span for each child node', async () => {
+    const assertion = verifiers.spans
+      .toHaveTrace({
+        name: 'GET /redis',
+        children: [{ name: 'redis-SET' }, { name: 'redis-SET' }],
+      })
+      .assertAll()
+
+    await expect(assertion).rejects.toThrow(/found 0/)
+  })
+})
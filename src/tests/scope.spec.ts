@@ -0,0 +1,197 @@
+import 'vitest'
+
+import { Verifiers, Collector } from '../modules/collector'
+import { OtlpContentType } from '../modules/transport/enums'
+
+const SCOPE = {
+  name: '@opentelemetry/instrumentation-http',
+  version: '0.202.0',
+  attributes: [{ key: 'team', value: { stringValue: 'payments' } }],
+}
+
+const RESOURCE = {
+  attributes: [{ key: 'service.name', value: { stringValue: 'checkout' } }],
+}
+
+describe('Instrumentation Scope and Schema URLs', () => {
+  let collector: Collector
+  let verifiers: Verifiers
+
+  beforeEach(async () => {
+    collector = new Collector({ port: 0, timeout: 1000 })
+    verifiers = await collector.start()
+  })
+
+  afterEach(async () => {
+    await collector.stop()
+  })
+
+  const post = (url: string, body: object): Promise<Response> =>
+    fetch(url, { method: 'POST', headers: { 'Content-Type': OtlpContentType.JSON }, body: JSON.stringify(body) })
+
+  const exportSpan = (): Promise<Response> =>
+    post(collector.endpoints.traces, {
+      resourceSpans: [
+        {
+          resource: RESOURCE,
+          schemaUrl: 'https://opentelemetry.io/schemas/1.30.0',
+          scopeSpans: [
+            {
+              scope: SCOPE,
+              schemaUrl: 'https://opentelemetry.io/schemas/1.34.0',
+              spans: [
+                {
+                  traceId: '5b8efff798038103d269b633813fc60c',
+                  spanId: 'eee19b7ec3c1b174',
+                  name: 'GET /orders',
+                  kind: 2,
+                  startTimeUnixNano: '1700000000000000000',
+                  endTimeUnixNano: '1700000001000000000',
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    })
+
+  it('should assert on the scope and schema URLs of spans', async () => {
+    await exportSpan()
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toHaveSpan()
+        .withName('GET /orders')
+        .withScope('@opentelemetry/instrumentation-http', '0.202.0')
+        .withScopeAttribute('team', 'payments')
+        .withSchemaUrl('https://opentelemetry.io/schemas/1.34.0')
+        .withResourceSchemaUrl('https://opentelemetry.io/schemas/1.30.0')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should report a span produced by another scope version', async () => {
+    await exportSpan()
+
+    /* eslint-disable prettier/prettier */
+    const assertion = verifiers.spans
+      .toHaveSpan()
+        .withScope('@opentelemetry/instrumentation-http', '0.201.0')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(/found 0[\s\S]*0\.202\.0/)
+  })
+
+  it('should report a span following another schema version', async () => {
+    await exportSpan()
+
+    /* eslint-disable prettier/prettier */
+    const assertion = verifiers.spans
+      .toHaveSpan()
+        .withSchemaUrl('https://opentelemetry.io/schemas/1.30.0')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(/found 0/)
+  })
+
+  it('should assert on the scope and schema URLs of metrics', async () => {
+    await post(collector.endpoints.metrics, {
+      resourceMetrics: [
+        {
+          resource: RESOURCE,
+          schemaUrl: 'https://opentelemetry.io/schemas/1.30.0',
+          scopeMetrics: [
+            {
+              scope: { ...SCOPE, name: 'checkout-meter', version: '1.0.0' },
+              schemaUrl: 'https://opentelemetry.io/schemas/1.34.0',
+              metrics: [
+                {
+                  name: 'orders.placed',
+                  sum: {
+                    aggregationTemporality: 2,
+                    isMonotonic: true,
+                    dataPoints: [{ asInt: '3', timeUnixNano: '1700000000000000000' }],
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    })
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.metrics
+      .toHaveMetric()
+        .withName('orders.placed')
+        .withScope('checkout-meter', '1.0.0')
+        .withScopeAttribute('team', 'payments')
+        .withSchemaUrl('https://opentelemetry.io/schemas/1.34.0')
+        .withResourceSchemaUrl('https://opentelemetry.io/schemas/1.30.0')
+        .assert()
+      .assertAll()
+
+    const assertion = verifiers.metrics
+      .expect()
+      .toHaveMetric()
+        .withName('orders.placed')
+        .withScopeAttribute('team', 'orders')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(/found 0[\s\S]*scope attribute team expected orders got payments/)
+  })
+
+  it('should assert on the scope and schema URLs of log records', async () => {
+    await post(collector.endpoints.logs, {
+      resourceLogs: [
+        {
+          resource: RESOURCE,
+          schemaUrl: 'https://opentelemetry.io/schemas/1.30.0',
+          scopeLogs: [
+            {
+              scope: { ...SCOPE, name: 'checkout-logger', version: '1.0.0' },
+              schemaUrl: 'https://opentelemetry.io/schemas/1.34.0',
+              logRecords: [
+                {
+                  timeUnixNano: '1700000000000000000',
+                  severityNumber: 9,
+                  severityText: 'INFO',
+                  body: { stringValue: 'Order placed' },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    })
+
+    /* eslint-disable prettier/prettier */
+    await verifiers.logs
+      .toHaveLog()
+        .withBody('Order placed')
+        .withScope('checkout-logger', '1.0.0')
+        .withScopeAttribute('team', 'payments')
+        .withSchemaUrl('https://opentelemetry.io/schemas/1.34.0')
+        .withResourceSchemaUrl('https://opentelemetry.io/schemas/1.30.0')
+        .assert()
+      .assertAll()
+
+    const assertion = verifiers.logs
+      .expect()
+      .toHaveLog()
+        .withBody('Order placed')
+        .withScope('checkout-logger', '2.0.0')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(/found 0/)
+  })
+})
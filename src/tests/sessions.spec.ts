@@ -0,0 +1,96 @@
+import 'vitest'
+
+import { Verifiers, Collector } from '../modules/collector'
+import { TelemetrySignal } from '../modules/shared/enums'
+import { OtlpContentType } from '../modules/transport/enums'
+
+describe('Assertion Sessions', () => {
+  let collector: Collector
+  let verifiers: Verifiers
+
+  beforeAll(async () => {
+    collector = new Collector({ port: 0, timeout: 300, observationWindow: 100 })
+    verifiers = await collector.start()
+  })
+
+  afterEach(() => {
+    collector.reset()
+  })
+
+  afterAll(async () => {
+    await collector.stop()
+  })
+
+  const exportSpan = (name: string): Promise<Response> =>
+    fetch(collector.endpoints.traces, {
+      method: 'POST',
+      headers: { 'Content-Type': OtlpContentType.JSON },
+      body: JSON.stringify({
+        resourceSpans: [
+          {
+            scopeSpans: [
+              {
+                spans: [
+                  {
+                    traceId: '5b8efff798038103d269b633813fc60c',
+                    spanId: 'eee19b7ec3c1b174',
+                    name,
+                    kind: 1,
+                    startTimeUnixNano: '1700000000000000000',
+                    endTimeUnixNano: '1700000001000000000',
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      }),
+    })
+
+  it('should empty the queue once assertAll() settles, whether the assertions passed or not', async () => {
+    await exportSpan('checkout')
+
+    await expect(verifiers.spans.toHaveSpan().withName('refund').assert().assertAll()).rejects.toThrow(/found 0/)
+    await verifiers.spans.toHaveSpan().withName('checkout').assert().assertAll()
+
+    await exportSpan('refund')
+    collector.reset()
+    await verifiers.spans.toNotHaveSpan().withName('checkout').assert().assertAll()
+  })
+
+  it('should keep the assertions of a session out of other queues', async () => {
+    await exportSpan('checkout')
+
+    const session = verifiers.spans.expect()
+    session.toHaveSpan().withName('refund').assert()
+
+    await verifiers.spans.toHaveSpan().withName('checkout').assert().assertAll()
+    await verifiers.spans.expect().toHaveSpan().withName('checkout').assert().assertAll()
+    await expect(session.assertAll()).rejects.toThrow(/found 0/)
+  })
+
+  it('should not see the telemetry of earlier tests', async () => {
+    await verifiers.spans.toNotHaveSpan().withName('checkout').assert().assertAll()
+    await verifiers.exportRequests.toNotHaveExportRequest().assert().assertAll()
+  })
+
+  it('should reset the in-flight export statistics', async () => {
+    await exportSpan('checkout')
+    expect(collector.inFlight.getStats(TelemetrySignal.TRACES)).toEqual({ current: 0, peak: 1, completed: 1 })
+
+    collector.reset()
+
+    expect(collector.inFlight.getStats(TelemetrySignal.TRACES)).toEqual({ current: 0, peak: 0, completed: 0 })
+    expect(collector.inFlight.getStats()).toEqual({ current: 0, peak: 0, completed: 0 })
+  })
+
+  it('should require a restart once stopped', async () => {
+    const stopped = new Collector({ port: 0 })
+    await stopped.start()
+    await stopped.stop()
+
+    expect(() => stopped.reset()).toThrow('Collector has not been started')
+    expect(() => stopped.inFlight).toThrow('Collector has not been started')
+    await expect(stopped.stop()).resolves.toBeUndefined()
+  })
+})
@@ -0,0 +1,160 @@
+import 'vitest'
+import { SpanStatusCode as ApiSpanStatusCode } from '@opentelemetry/api'
+import { JsonTraceSerializer } from '@opentelemetry/otlp-transformer'
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  ReadableSpan,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base'
+
+import { Verifiers, Collector } from '../modules/collector'
+import { match } from '../modules/shared/matchers'
+import { SpanStatusCode } from '../modules/traces/enums'
+import { OtlpContentType } from '../modules/transport/enums'
+
+class PaymentDeclinedError extends Error {
+  override name = 'PaymentDeclinedError'
+}
+
+/**
+ * Records a failed `charge` span following the error conventions, a failed `refund` span without
+ * an exception event, and a successful `capture` span.
+ */
+const recordPaymentSpans = async (): Promise<ReadableSpan[]> => {
+  const exporter = new InMemorySpanExporter()
+  const provider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] })
+  const tracer = provider.getTracer('status-test')
+
+  const charge = tracer.startSpan('charge')
+  const error = new PaymentDeclinedError('Card 4242 was declined')
+  charge.recordException(error)
+  charge.setAttribute('error.type', error.name)
+  charge.setStatus({ code: ApiSpanStatusCode.ERROR, message: error.message })
+  charge.end()
+
+  const refund = tracer.startSpan('refund')
+  refund.setAttribute('error.type', 'RefundWindowClosedError')
+  refund.setStatus({ code: ApiSpanStatusCode.ERROR, message: 'Refund window closed' })
+  refund.end()
+
+  const capture = tracer.startSpan('capture')
+  capture.setStatus({ code: ApiSpanStatusCode.OK })
+  capture.end()
+
+  await provider.forceFlush()
+
+  return exporter.getFinishedSpans()
+}
+
+describe('Span Status', () => {
+  let collector: Collector
+  let verifiers: Verifiers
+
+  beforeEach(async () => {
+    collector = new Collector({ port: 0, timeout: 300 })
+    verifiers = await collector.start()
+
+    await fetch(collector.endpoints.traces, {
+      method: 'POST',
+      headers: { 'Content-Type': OtlpContentType.JSON },
+      body: JsonTraceSerializer.serializeRequest(await recordPaymentSpans()),
+    })
+  })
+
+  afterEach(async () => {
+    await collector.stop()
+  })
+
+  it('should match status messages exactly, by regular expression or by matcher', async () => {
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toHaveSpan()
+        .withName('charge')
+        .withStatus({ code: SpanStatusCode.ERROR, message: 'Card 4242 was declined' })
+        .assert()
+      .toHaveSpan()
+        .withName('charge')
+        .withStatus({ code: SpanStatusCode.ERROR })
+        .withStatusMessage(/^Card \d+ was declined$/)
+        .assert()
+      .toHaveSpan()
+        .withName('refund')
+        .withStatusMessage(match.oneOf('Refund window closed', 'Refund limit exceeded'))
+        .assert()
+      .toHaveSpan()
+        .withName('capture')
+        .withStatus({ code: SpanStatusCode.OK })
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should report a status message that does not match', async () => {
+    /* eslint-disable prettier/prettier */
+    const assertion = verifiers.spans
+      .toHaveSpan()
+        .withName('charge')
+        .withStatus({ code: SpanStatusCode.ERROR, message: 'Card 4242 expired' })
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(
+      /found 0[\s\S]*status message expected "Card 4242 expired" got "Card 4242 was declined"/,
+    )
+  })
+
+  it('should assert on errors following the error conventions', async () => {
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toHaveSpan()
+        .withName('charge')
+        .withError()
+        .assert()
+      .toHaveSpan()
+        .withName('charge')
+        .withError('PaymentDeclinedError')
+        .withStatusMessage(/declined/)
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should require the status, error type and exception event of an error', async () => {
+    /* eslint-disable prettier/prettier */
+    const withoutException = verifiers.spans
+      .toHaveSpan()
+        .withName('refund')
+        .withError()
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(withoutException).rejects.toThrow(/found 0[\s\S]*"refund"/)
+
+    /* eslint-disable prettier/prettier */
+    const otherType = verifiers.spans
+      .expect()
+      .toHaveSpan()
+        .withName('charge')
+        .withError('InsufficientFundsError')
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(otherType).rejects.toThrow(/error\.type expected InsufficientFundsError got PaymentDeclinedError/)
+
+    /* eslint-disable prettier/prettier */
+    const succeeded = verifiers.spans
+      .expect()
+      .toHaveSpan()
+        .withName('capture')
+        .withError()
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(succeeded).rejects.toThrow(/found 0/)
+  })
+})
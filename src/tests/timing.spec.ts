@@ -0,0 +1,163 @@
+import 'vitest'
+
+import { Verifiers, Collector } from '../modules/collector'
+import { OtlpContentType } from '../modules/transport/enums'
+
+const START = 1700000000000000000n
+const MS = 1000000n
+
+/**
+ * Creates an OTLP/JSON span between two offsets from `START`, in nanoseconds.
+ */
+const span = (name: string, spanId: string, from: bigint, to: bigint, attributes: object[] = []) => ({
+  traceId: '5b8efff798038103d269b633813fc60c',
+  spanId,
+  name,
+  kind: 1,
+  startTimeUnixNano: (START + from).toString(),
+  endTimeUnixNano: (START + to).toString(),
+  attributes,
+})
+
+const attempt = (value: number) => [{ key: 'retry.attempt', value: { intValue: String(value) } }]
+
+describe('Span Timing', () => {
+  let collector: Collector
+  let verifiers: Verifiers
+
+  beforeEach(async () => {
+    collector = new Collector({ port: 0, timeout: 300 })
+    verifiers = await collector.start()
+
+    // checkout         0ms ─────────────────────────── 1000ms
+    // charge #1           100ms ── 300ms
+    // charge #2                 300ms + 1ns ── 600ms
+    // fetch-inventory     100ms ──────── 500ms
+    // fetch-prices              200ms ────────── 700ms
+    // send-receipt                                           1000ms + 1ns ── 1200ms
+    await fetch(collector.endpoints.traces, {
+      method: 'POST',
+      headers: { 'Content-Type': OtlpContentType.JSON },
+      body: JSON.stringify({
+        resourceSpans: [
+          {
+            scopeSpans: [
+              {
+                spans: [
+                  span('checkout', '00000000000000a1', 0n, 1000n * MS),
+                  span('charge', '00000000000000a2', 100n * MS, 300n * MS, attempt(1)),
+                  span('charge', '00000000000000a3', 300n * MS + 1n, 600n * MS, attempt(2)),
+                  span('fetch-inventory', '00000000000000a4', 100n * MS, 500n * MS),
+                  span('fetch-prices', '00000000000000a5', 200n * MS, 700n * MS),
+                  span('send-receipt', '00000000000000a6', 1000n * MS + 1n, 1200n * MS),
+                ],
+              },
+            ],
+          },
+        ],
+      }),
+    })
+  })
+
+  afterEach(async () => {
+    await collector.stop()
+  })
+
+  it('should assert on span durations', async () => {
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toHaveSpan()
+        .withName('checkout')
+        .withDuration({ greaterThan: '999ms', lessThan: '1.001s' })
+        .assert()
+      .toHaveSpan()
+        .withName('fetch-prices')
+        .withDuration({ lessThan: 501 })
+        .assert()
+      .assertAll()
+
+    const assertion = verifiers.spans
+      .expect()
+      .toHaveSpan()
+        .withName('checkout')
+        .withDuration({ lessThan: '200ms' })
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(/duration expected less than 200ms got 1000ms/)
+  })
+
+  it('should reject invalid duration bounds', () => {
+    expect(() => verifiers.spans.toHaveSpan().withDuration({})).toThrow('Duration bounds require')
+    expect(() => verifiers.spans.toHaveSpan().withDuration({ greaterThan: '1s', lessThan: '1s' })).toThrow(
+      'The lower bound of a duration must be below its upper bound',
+    )
+    expect(() => verifiers.spans.toHaveSpan().withDuration({ lessThan: '2 weeks' })).toThrow('Invalid duration')
+  })
+
+  it('should verify that retries run sequentially, to the nanosecond', async () => {
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toHaveSpan()
+        .withName('charge')
+        .withAttribute('retry.attempt', 1)
+        .happensBefore((next) => next.withName('charge').withAttribute('retry.attempt', 2))
+        .assert()
+      .assertAll()
+
+    const assertion = verifiers.spans
+      .expect()
+      .toHaveSpan()
+        .withName('fetch-inventory')
+        .happensBefore((next) => next.withName('fetch-prices'))
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(/found 0/)
+  })
+
+  it('should verify that operations run concurrently', async () => {
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toHaveSpan()
+        .withName('fetch-inventory')
+        .overlaps((other) => other.withName('fetch-prices'))
+        .assert()
+      .assertAll()
+
+    const assertion = verifiers.spans
+      .expect()
+      .toHaveSpan()
+        .withName('charge')
+        .withAttribute('retry.attempt', 1)
+        .overlaps((other) => other.withName('charge').withAttribute('retry.attempt', 2))
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(/found 0/)
+  })
+
+  it('should verify that spans lie within another span', async () => {
+    /* eslint-disable prettier/prettier */
+    await verifiers.spans
+      .toHaveSpanWithCount(2)
+        .withName('charge')
+        .isContainedIn((parent) => parent.withName('checkout'))
+        .assert()
+      .assertAll()
+
+    const assertion = verifiers.spans
+      .expect()
+      .toHaveSpan()
+        .withName('send-receipt')
+        .isContainedIn((parent) => parent.withName('checkout'))
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await expect(assertion).rejects.toThrow(/found 0/)
+  })
+})
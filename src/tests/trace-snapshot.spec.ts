@@ -0,0 +1,154 @@
+import 'vitest'
+import { ROOT_CONTEXT, SpanKind as ApiSpanKind, trace } from '@opentelemetry/api'
+import { JsonTraceSerializer } from '@opentelemetry/otlp-transformer'
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  ReadableSpan,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base'
+import { copyFileSync, existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { Verifiers, Collector } from '../modules/collector'
+import { SpanKind } from '../modules/traces/enums'
+import { TraceSnapshotOptions } from '../modules/traces/models'
+import { OtlpContentType } from '../modules/transport/enums'
+
+const GET_ORDERS: TraceSnapshotOptions = {
+  root: (span) => span.withName('GET /orders').withKind(SpanKind.SERVER),
+}
+
+/**
+ * Records a request with new trace and span IDs, timestamps and a random port on every call.
+ */
+const recordRequest = async (statement = 'SELECT * FROM orders'): Promise<ReadableSpan[]> => {
+  const exporter = new InMemorySpanExporter()
+  const provider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] })
+  const tracer = provider.getTracer('snapshot-test')
+  const port = 1024 + Math.floor(Math.random() * 60000)
+
+  const server = tracer.startSpan('GET /orders', {
+    kind: ApiSpanKind.SERVER,
+    attributes: {
+      'http.request.method': 'GET',
+      'url.full': `http://localhost:${port}/orders`,
+      'server.address': 'localhost',
+      'server.port': port,
+    },
+  })
+  const context = trace.setSpan(ROOT_CONTEXT, server)
+
+  tracer.startSpan('pg.query', { kind: ApiSpanKind.CLIENT, attributes: { 'db.statement': statement } }, context).end()
+  tracer.startSpan('redis-GET', { kind: ApiSpanKind.CLIENT, attributes: { 'db.system': 'redis' } }, context).end()
+  server.setAttribute('http.response.status_code', 200)
+  server.setAttribute('orders.trace_ref', server.spanContext().traceId)
+  server.end()
+  await provider.forceFlush()
+
+  return exporter.getFinishedSpans()
+}
+
+describe('Trace Snapshots', () => {
+  let collector: Collector | undefined
+  let snapshotDirectory: string
+
+  beforeEach(() => {
+    snapshotDirectory = mkdtempSync(join(tmpdir(), 'trace-snapshots-'))
+  })
+
+  afterEach(async () => {
+    vi.unstubAllEnvs()
+    await collector?.stop()
+    collector = undefined
+    rmSync(snapshotDirectory, { recursive: true, force: true })
+  })
+
+  const startCollector = (options: { snapshotDirectory: string; updateSnapshots?: boolean }): Promise<Verifiers> => {
+    collector = new Collector({ port: 0, timeout: 300, ...options })
+
+    return collector.start()
+  }
+
+  const postSpans = (spans: ReadableSpan[]): Promise<Response> =>
+    fetch(collector!.endpoints.traces, {
+      method: 'POST',
+      headers: { 'Content-Type': OtlpContentType.JSON },
+      body: JsonTraceSerializer.serializeRequest(spans),
+    })
+
+  it('should match the committed snapshot with IDs, timestamps, ports and hosts masked', async () => {
+    const verifiers = await startCollector({ snapshotDirectory: join(__dirname, '__trace_snapshots__') })
+    await postSpans(await recordRequest())
+
+    await verifiers.spans.toMatchTraceSnapshot('get-orders', GET_ORDERS).assertAll()
+  })
+
+  it('should require exactly one root span', async () => {
+    vi.stubEnv('CI', '')
+    const verifiers = await startCollector({ snapshotDirectory })
+    const [first, second] = [await recordRequest(), await recordRequest()]
+    await postSpans([...first, ...second])
+
+    await expect(verifiers.spans.toMatchTraceSnapshot('get-orders', GET_ORDERS).assertAll()).rejects.toThrow(
+      /Expected exactly 1 span matching the root of trace snapshot "get-orders", found 2: "GET \/orders" \(/,
+    )
+    expect(existsSync(join(snapshotDirectory, 'get-orders.json'))).toBe(false)
+
+    await verifiers.spans
+      .expect()
+      .forTrace(second[0].spanContext().traceId)
+      .toMatchTraceSnapshot('get-orders', GET_ORDERS)
+      .assertAll()
+  })
+
+  it('should report the differences from a changed trace', async () => {
+    copyFileSync(join(__dirname, '__trace_snapshots__', 'get-orders.json'), join(snapshotDirectory, 'get-orders.json'))
+    const verifiers = await startCollector({ snapshotDirectory })
+    await postSpans(await recordRequest('SELECT id FROM orders'))
+
+    const assertion = verifiers.spans.toMatchTraceSnapshot('get-orders', GET_ORDERS).assertAll()
+
+    await expect(assertion).rejects.toThrow(/Trace snapshot "get-orders" \(.*get-orders\.json\) does not match/)
+    await expect(assertion).rejects.toThrow(
+      /\+ +'db\.statement': 'SELECT id FROM orders'\n- +'db\.statement': 'SELECT \* FROM orders'/,
+    )
+  })
+
+  it('should write missing snapshots outside of CI', async () => {
+    vi.stubEnv('CI', '')
+    const verifiers = await startCollector({ snapshotDirectory })
+    await postSpans(await recordRequest())
+
+    await verifiers.spans.toMatchTraceSnapshot('get-orders', GET_ORDERS).assertAll()
+
+    expect(JSON.parse(readFileSync(join(snapshotDirectory, 'get-orders.json'), 'utf8'))).toMatchObject({
+      name: 'GET /orders',
+      kind: 'SERVER',
+      attributes: { 'server.port': '<port>', 'url.full': 'http://<host>:<port>/orders' },
+    })
+  })
+
+  it('should fail on missing snapshots in CI', async () => {
+    vi.stubEnv('CI', 'true')
+    const verifiers = await startCollector({ snapshotDirectory })
+    await postSpans(await recordRequest())
+
+    await expect(verifiers.spans.toMatchTraceSnapshot('get-orders', GET_ORDERS).assertAll()).rejects.toThrow(
+      'Trace snapshot "get-orders" is missing',
+    )
+    expect(existsSync(join(snapshotDirectory, 'get-orders.json'))).toBe(false)
+  })
+
+  it('should overwrite snapshots in update mode, even in CI', async () => {
+    vi.stubEnv('CI', 'true')
+    writeFileSync(join(snapshotDirectory, 'get-orders.json'), '{}\n')
+    const verifiers = await startCollector({ snapshotDirectory, updateSnapshots: true })
+    await postSpans(await recordRequest())
+
+    await verifiers.spans.toMatchTraceSnapshot('get-orders', GET_ORDERS).assertAll()
+
+    expect(readFileSync(join(snapshotDirectory, 'get-orders.json'), 'utf8')).toContain('"name": "GET /orders"')
+  })
+})
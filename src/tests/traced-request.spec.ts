@@ -0,0 +1,118 @@
+import 'vitest'
+import { defaultTextMapGetter, ROOT_CONTEXT, SpanKind as ApiSpanKind } from '@opentelemetry/api'
+import { W3CTraceContextPropagator } from '@opentelemetry/core'
+import { JsonTraceSerializer } from '@opentelemetry/otlp-transformer'
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base'
+import { createServer, IncomingMessage, Server } from 'http'
+import { AddressInfo } from 'net'
+
+import { Verifiers, Collector } from '../modules/collector'
+import { SpanKind } from '../modules/traces/enums'
+import { OtlpContentType } from '../modules/transport/enums'
+
+describe('Traced Requests', () => {
+  let collector: Collector
+  let verifiers: Verifiers
+  let app: Server
+  let appUrl: string
+
+  /**
+   * Records the server span of a request, continuing the incoming trace context, and exports it to the collector.
+   */
+  const recordServerSpan = async (request: IncomingMessage): Promise<void> => {
+    const exporter = new InMemorySpanExporter()
+    const provider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] })
+    const context = new W3CTraceContextPropagator().extract(ROOT_CONTEXT, request.headers, defaultTextMapGetter)
+
+    provider
+      .getTracer('app')
+      .startSpan(
+        `${request.method} ${request.url}`,
+        {
+          kind: ApiSpanKind.SERVER,
+          attributes: { 'http.request.method': request.method, 'app.tenant': request.headers['x-tenant'] },
+        },
+        context,
+      )
+      .end()
+    await provider.forceFlush()
+
+    await fetch(collector.endpoints.traces, {
+      method: 'POST',
+      headers: { 'Content-Type': OtlpContentType.JSON },
+      body: JsonTraceSerializer.serializeRequest(exporter.getFinishedSpans()),
+    })
+  }
+
+  beforeEach(async () => {
+    collector = new Collector({ port: 0, timeout: 300 })
+    verifiers = await collector.start()
+
+    app = createServer((request, response) => {
+      request.resume()
+      request.on('end', () => {
+        void recordServerSpan(request).then(() => response.end('ok'))
+      })
+    })
+    await new Promise<void>((resolve) => app.listen(0, resolve))
+    appUrl = `http://localhost:${(app.address() as AddressInfo).port}`
+  })
+
+  afterEach(async () => {
+    await new Promise((resolve) => app.close(resolve))
+    await collector.stop()
+  })
+
+  it('should only see the spans of the trace it started', async () => {
+    await fetch(`${appUrl}/health`)
+    const handle = await collector.request(`${appUrl}/orders`)
+
+    expect(handle.response.status).toBe(200)
+
+    /* eslint-disable prettier/prettier */
+    await handle.spans
+      .toHaveSpanWithCount(1)
+        .withName('GET /orders')
+        .withKind(SpanKind.SERVER)
+        .withParentSpanId(handle.parentSpanId)
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+
+    await verifiers.spans.toHaveSpan().withName('GET /health').isRoot().assert().assertAll()
+  })
+
+  it('should keep the method, headers and body of a Request input', async () => {
+    const request = new Request(`${appUrl}/orders`, {
+      method: 'POST',
+      headers: { 'x-tenant': 'acme', traceparent: '00-00000000000000000000000000000001-0000000000000001-01' },
+      body: JSON.stringify({ item: 'book' }),
+    })
+
+    const handle = await collector.request(request)
+
+    /* eslint-disable prettier/prettier */
+    await handle.spans
+      .toHaveSpan()
+        .withName('POST /orders')
+        .withAttribute('http.request.method', 'POST')
+        .withAttribute('app.tenant', 'acme')
+        .withParentSpanId(handle.parentSpanId)
+        .assert()
+      .assertAll()
+    /* eslint-enable prettier/prettier */
+  })
+
+  it('should abort the request with the signal of the options or of a Request input', async () => {
+    await expect(collector.request(`${appUrl}/orders`, { signal: AbortSignal.abort() })).rejects.toThrow(/aborted/i)
+    await expect(collector.request(new Request(`${appUrl}/orders`, { signal: AbortSignal.abort() }))).rejects.toThrow(
+      /aborted/i,
+    )
+  })
+
+  it('should require a started collector', async () => {
+    await collector.stop()
+
+    await expect(collector.request(`${appUrl}/orders`)).rejects.toThrow('Collector has not been started')
+  })
+})